@@ -0,0 +1,13 @@
+module.exports = class Data1687857629011 {
+  name = 'Data1687857629011'
+
+  async up(db) {
+    await db.query(`CREATE TABLE "contract_classification" ("id" character varying NOT NULL, "contract_standard" character varying(7) NOT NULL, "method" character varying(9) NOT NULL, "created_at_block" numeric NOT NULL, "created_at" TIMESTAMP WITH TIME ZONE NOT NULL, CONSTRAINT "PK_e3c1e14ac1eb59267f6629a3885" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_d1060035c4ae7523cdb2460d9c" ON "contract_classification" ("contract_standard") `)
+  }
+
+  async down(db) {
+    await db.query(`DROP INDEX "public"."IDX_d1060035c4ae7523cdb2460d9c"`)
+    await db.query(`DROP TABLE "contract_classification"`)
+  }
+}
@@ -0,0 +1,19 @@
+module.exports = class Data1688045210387 {
+  name = 'Data1688045210387'
+
+  async up(db) {
+    await db.query(`CREATE TABLE "account_nf_token_balance" ("id" character varying NOT NULL, "amount" numeric NOT NULL, "updated_at_block" numeric NOT NULL, "updated_at" TIMESTAMP WITH TIME ZONE NOT NULL, "account_id" character varying NOT NULL, "token_id" character varying NOT NULL, CONSTRAINT "PK_806b2ff4d80eae0ddb040ac1537" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_df62a51e50254621e973791d0d" ON "account_nf_token_balance" ("account_id") `)
+    await db.query(`CREATE INDEX "IDX_297104a2f0ced062d57eca012c" ON "account_nf_token_balance" ("token_id") `)
+    await db.query(`ALTER TABLE "account_nf_token_balance" ADD CONSTRAINT "FK_df62a51e50254621e973791d0dc" FOREIGN KEY ("account_id") REFERENCES "account"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "account_nf_token_balance" ADD CONSTRAINT "FK_297104a2f0ced062d57eca012c2" FOREIGN KEY ("token_id") REFERENCES "nf_token"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+  }
+
+  async down(db) {
+    await db.query(`ALTER TABLE "account_nf_token_balance" DROP CONSTRAINT "FK_297104a2f0ced062d57eca012c2"`)
+    await db.query(`ALTER TABLE "account_nf_token_balance" DROP CONSTRAINT "FK_df62a51e50254621e973791d0dc"`)
+    await db.query(`DROP INDEX "public"."IDX_297104a2f0ced062d57eca012c"`)
+    await db.query(`DROP INDEX "public"."IDX_df62a51e50254621e973791d0d"`)
+    await db.query(`DROP TABLE "account_nf_token_balance"`)
+  }
+}
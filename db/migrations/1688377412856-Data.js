@@ -0,0 +1,23 @@
+module.exports = class Data1688377412856 {
+  name = 'Data1688377412856'
+
+  async up(db) {
+    await db.query(`CREATE TABLE "account_f_token_balance_history" ("id" character varying NOT NULL, "block_number" numeric NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "event_index" integer NOT NULL, "delta" numeric NOT NULL, "amount" numeric NOT NULL, "account_id" character varying NOT NULL, "token_id" character varying NOT NULL, CONSTRAINT "PK_a02971b61b6d5dcdb427c11ce00" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_d5f1c394571d4de7344b9d918e" ON "account_f_token_balance_history" ("account_id") `)
+    await db.query(`CREATE INDEX "IDX_7c460c6b20bab6e494421dc4cb" ON "account_f_token_balance_history" ("token_id") `)
+    await db.query(`CREATE INDEX "IDX_5537ae0c6aa8c94d33bfd0c02c" ON "account_f_token_balance_history" ("block_number") `)
+    await db.query(`CREATE INDEX "IDX_38d40ab0addebc6685645d66c9" ON "account_f_token_balance_history" ("timestamp") `)
+    await db.query(`ALTER TABLE "account_f_token_balance_history" ADD CONSTRAINT "FK_d5f1c394571d4de7344b9d918e6" FOREIGN KEY ("account_id") REFERENCES "account"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "account_f_token_balance_history" ADD CONSTRAINT "FK_7c460c6b20bab6e494421dc4cb9" FOREIGN KEY ("token_id") REFERENCES "f_token"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+  }
+
+  async down(db) {
+    await db.query(`ALTER TABLE "account_f_token_balance_history" DROP CONSTRAINT "FK_7c460c6b20bab6e494421dc4cb9"`)
+    await db.query(`ALTER TABLE "account_f_token_balance_history" DROP CONSTRAINT "FK_d5f1c394571d4de7344b9d918e6"`)
+    await db.query(`DROP INDEX "public"."IDX_38d40ab0addebc6685645d66c9"`)
+    await db.query(`DROP INDEX "public"."IDX_5537ae0c6aa8c94d33bfd0c02c"`)
+    await db.query(`DROP INDEX "public"."IDX_7c460c6b20bab6e494421dc4cb"`)
+    await db.query(`DROP INDEX "public"."IDX_d5f1c394571d4de7344b9d918e"`)
+    await db.query(`DROP TABLE "account_f_token_balance_history"`)
+  }
+}
@@ -0,0 +1,43 @@
+module.exports = class Data1688649021734 {
+  name = 'Data1688649021734'
+
+  async up(db) {
+    await db.query(`CREATE TABLE "f_token_allowance" ("id" character varying NOT NULL, "amount" numeric NOT NULL, "is_unlimited" boolean NOT NULL, "updated_at_block" numeric NOT NULL, "updated_at" TIMESTAMP WITH TIME ZONE NOT NULL, "owner_id" character varying NOT NULL, "spender_id" character varying NOT NULL, "token_id" character varying NOT NULL, CONSTRAINT "PK_cb42092c5cfcb40a09a6212dc07" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_eed8ae2184942e6948adc4bdfa" ON "f_token_allowance" ("owner_id") `)
+    await db.query(`CREATE INDEX "IDX_031cbcde4dcdc49ee5eb48a841" ON "f_token_allowance" ("spender_id") `)
+    await db.query(`CREATE INDEX "IDX_c0e9d4d4f6654b9053bc48d63b" ON "f_token_allowance" ("token_id") `)
+    await db.query(`CREATE INDEX "IDX_d1e0c16badc748b5bd5023b304" ON "f_token_allowance" ("amount") `)
+    await db.query(`CREATE INDEX "IDX_9e716839b2e47a041441af0342" ON "f_token_allowance" ("is_unlimited") `)
+    await db.query(`CREATE TABLE "f_token_approval" ("id" character varying NOT NULL, "block_number" numeric NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "event_index" integer NOT NULL, "txn_hash" text NOT NULL, "amount" numeric NOT NULL, "owner_id" character varying NOT NULL, "spender_id" character varying NOT NULL, "token_id" character varying NOT NULL, CONSTRAINT "PK_93df01b0407ed4c042a8888989c" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_6bf6934f630ec9ebc896b477a5" ON "f_token_approval" ("block_number") `)
+    await db.query(`CREATE INDEX "IDX_14f3c4ca9cb274432d7be2b275" ON "f_token_approval" ("owner_id") `)
+    await db.query(`CREATE INDEX "IDX_6ce01c048e0c55e50fc271ce16" ON "f_token_approval" ("spender_id") `)
+    await db.query(`CREATE INDEX "IDX_073bf57766831bd25c637ef2b0" ON "f_token_approval" ("token_id") `)
+    await db.query(`ALTER TABLE "f_token_allowance" ADD CONSTRAINT "FK_eed8ae2184942e6948adc4bdfac" FOREIGN KEY ("owner_id") REFERENCES "account"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "f_token_allowance" ADD CONSTRAINT "FK_031cbcde4dcdc49ee5eb48a841c" FOREIGN KEY ("spender_id") REFERENCES "account"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "f_token_allowance" ADD CONSTRAINT "FK_c0e9d4d4f6654b9053bc48d63b8" FOREIGN KEY ("token_id") REFERENCES "f_token"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "f_token_approval" ADD CONSTRAINT "FK_14f3c4ca9cb274432d7be2b275a" FOREIGN KEY ("owner_id") REFERENCES "account"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "f_token_approval" ADD CONSTRAINT "FK_6ce01c048e0c55e50fc271ce16b" FOREIGN KEY ("spender_id") REFERENCES "account"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "f_token_approval" ADD CONSTRAINT "FK_073bf57766831bd25c637ef2b00" FOREIGN KEY ("token_id") REFERENCES "f_token"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+  }
+
+  async down(db) {
+    await db.query(`ALTER TABLE "f_token_approval" DROP CONSTRAINT "FK_073bf57766831bd25c637ef2b00"`)
+    await db.query(`ALTER TABLE "f_token_approval" DROP CONSTRAINT "FK_6ce01c048e0c55e50fc271ce16b"`)
+    await db.query(`ALTER TABLE "f_token_approval" DROP CONSTRAINT "FK_14f3c4ca9cb274432d7be2b275a"`)
+    await db.query(`ALTER TABLE "f_token_allowance" DROP CONSTRAINT "FK_c0e9d4d4f6654b9053bc48d63b8"`)
+    await db.query(`ALTER TABLE "f_token_allowance" DROP CONSTRAINT "FK_031cbcde4dcdc49ee5eb48a841c"`)
+    await db.query(`ALTER TABLE "f_token_allowance" DROP CONSTRAINT "FK_eed8ae2184942e6948adc4bdfac"`)
+    await db.query(`DROP INDEX "public"."IDX_073bf57766831bd25c637ef2b0"`)
+    await db.query(`DROP INDEX "public"."IDX_6ce01c048e0c55e50fc271ce16"`)
+    await db.query(`DROP INDEX "public"."IDX_14f3c4ca9cb274432d7be2b275"`)
+    await db.query(`DROP INDEX "public"."IDX_6bf6934f630ec9ebc896b477a5"`)
+    await db.query(`DROP TABLE "f_token_approval"`)
+    await db.query(`DROP INDEX "public"."IDX_9e716839b2e47a041441af0342"`)
+    await db.query(`DROP INDEX "public"."IDX_d1e0c16badc748b5bd5023b304"`)
+    await db.query(`DROP INDEX "public"."IDX_c0e9d4d4f6654b9053bc48d63b"`)
+    await db.query(`DROP INDEX "public"."IDX_031cbcde4dcdc49ee5eb48a841"`)
+    await db.query(`DROP INDEX "public"."IDX_eed8ae2184942e6948adc4bdfa"`)
+    await db.query(`DROP TABLE "f_token_allowance"`)
+  }
+}
@@ -0,0 +1,29 @@
+module.exports = class Data1688981547203 {
+  name = 'Data1688981547203'
+
+  async up(db) {
+    await db.query(`CREATE TABLE "operator_approval" ("id" character varying NOT NULL, "approved" boolean NOT NULL, "updated_at_block" numeric NOT NULL, "updated_at" TIMESTAMP WITH TIME ZONE NOT NULL, "owner_id" character varying NOT NULL, "operator_id" character varying NOT NULL, "collection_id" character varying NOT NULL, CONSTRAINT "PK_d471835b45725f3c4e21a83cc79" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_148b5229d98a0a905646ba49fc" ON "operator_approval" ("owner_id") `)
+    await db.query(`CREATE INDEX "IDX_5ffcfe9617d2c063aa697684be" ON "operator_approval" ("operator_id") `)
+    await db.query(`CREATE INDEX "IDX_c6430b8c27df70a7a778d78a0c" ON "operator_approval" ("collection_id") `)
+    await db.query(`CREATE INDEX "IDX_d6c6017e3413722abc0334f139" ON "operator_approval" ("approved") `)
+    await db.query(`ALTER TABLE "nf_token" ADD "approved_address" text`)
+    await db.query(`CREATE INDEX "IDX_a4582ec43027b60788212b53de" ON "nf_token" ("approved_address") `)
+    await db.query(`ALTER TABLE "operator_approval" ADD CONSTRAINT "FK_148b5229d98a0a905646ba49fcf" FOREIGN KEY ("owner_id") REFERENCES "account"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "operator_approval" ADD CONSTRAINT "FK_5ffcfe9617d2c063aa697684be9" FOREIGN KEY ("operator_id") REFERENCES "account"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "operator_approval" ADD CONSTRAINT "FK_c6430b8c27df70a7a778d78a0cf" FOREIGN KEY ("collection_id") REFERENCES "collection"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+  }
+
+  async down(db) {
+    await db.query(`ALTER TABLE "operator_approval" DROP CONSTRAINT "FK_c6430b8c27df70a7a778d78a0cf"`)
+    await db.query(`ALTER TABLE "operator_approval" DROP CONSTRAINT "FK_5ffcfe9617d2c063aa697684be9"`)
+    await db.query(`ALTER TABLE "operator_approval" DROP CONSTRAINT "FK_148b5229d98a0a905646ba49fcf"`)
+    await db.query(`DROP INDEX "public"."IDX_a4582ec43027b60788212b53de"`)
+    await db.query(`ALTER TABLE "nf_token" DROP COLUMN "approved_address"`)
+    await db.query(`DROP INDEX "public"."IDX_d6c6017e3413722abc0334f139"`)
+    await db.query(`DROP INDEX "public"."IDX_c6430b8c27df70a7a778d78a0c"`)
+    await db.query(`DROP INDEX "public"."IDX_5ffcfe9617d2c063aa697684be"`)
+    await db.query(`DROP INDEX "public"."IDX_148b5229d98a0a905646ba49fc"`)
+    await db.query(`DROP TABLE "operator_approval"`)
+  }
+}
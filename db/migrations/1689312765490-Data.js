@@ -0,0 +1,37 @@
+const EMPTY_ADDRESS = '0x0000000000000000000000000000000000000000'
+
+module.exports = class Data1689312765490 {
+  name = 'Data1689312765490'
+
+  async up(db) {
+    await db.query(`ALTER TABLE "f_token" ADD "total_supply" numeric`)
+    await db.query(`ALTER TABLE "f_token" ADD "holder_count" integer`)
+    await db.query(`ALTER TABLE "f_token" ADD "transfer_count" numeric`)
+    await db.query(`ALTER TABLE "f_token" ADD "minted_total" numeric`)
+    await db.query(`ALTER TABLE "f_token" ADD "burned_total" numeric`)
+    await db.query(`ALTER TABLE "f_token" ADD "supply_checked_at_block" numeric`)
+    // Counters of existing tokens are computed from indexed transfers and
+    // balances, as they would have been counted by the processor. Total
+    // supply is compared with on-chain value on the next supply check.
+    await db.query(`UPDATE "f_token" SET "minted_total" = coalesce((SELECT sum("amount") FROM "ft_transfer" WHERE "token_id" = "f_token"."id" AND "transfer_type" = 'MINT'), 0), "burned_total" = coalesce((SELECT sum("amount") FROM "ft_transfer" WHERE "token_id" = "f_token"."id" AND "transfer_type" = 'BURN'), 0), "transfer_count" = (SELECT count(*) FROM "ft_transfer" WHERE "token_id" = "f_token"."id"), "holder_count" = (SELECT count(*) FROM "account_f_token_balance" WHERE "token_id" = "f_token"."id" AND "amount" > 0 AND "account_id" <> '${EMPTY_ADDRESS}')`)
+    await db.query(`UPDATE "f_token" SET "total_supply" = "minted_total" - "burned_total"`)
+    await db.query(`ALTER TABLE "f_token" ALTER COLUMN "total_supply" SET NOT NULL`)
+    await db.query(`ALTER TABLE "f_token" ALTER COLUMN "holder_count" SET NOT NULL`)
+    await db.query(`ALTER TABLE "f_token" ALTER COLUMN "transfer_count" SET NOT NULL`)
+    await db.query(`ALTER TABLE "f_token" ALTER COLUMN "minted_total" SET NOT NULL`)
+    await db.query(`ALTER TABLE "f_token" ALTER COLUMN "burned_total" SET NOT NULL`)
+    await db.query(`CREATE INDEX "IDX_9f1e2b39054c6b29733d94a9fe" ON "f_token" ("total_supply") `)
+    await db.query(`CREATE INDEX "IDX_4f7dd7d2bb3291d4a1bf979d1e" ON "f_token" ("holder_count") `)
+  }
+
+  async down(db) {
+    await db.query(`DROP INDEX "public"."IDX_4f7dd7d2bb3291d4a1bf979d1e"`)
+    await db.query(`DROP INDEX "public"."IDX_9f1e2b39054c6b29733d94a9fe"`)
+    await db.query(`ALTER TABLE "f_token" DROP COLUMN "supply_checked_at_block"`)
+    await db.query(`ALTER TABLE "f_token" DROP COLUMN "burned_total"`)
+    await db.query(`ALTER TABLE "f_token" DROP COLUMN "minted_total"`)
+    await db.query(`ALTER TABLE "f_token" DROP COLUMN "transfer_count"`)
+    await db.query(`ALTER TABLE "f_token" DROP COLUMN "holder_count"`)
+    await db.query(`ALTER TABLE "f_token" DROP COLUMN "total_supply"`)
+  }
+}
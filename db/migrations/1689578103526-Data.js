@@ -0,0 +1,62 @@
+const EMPTY_ADDRESS = '0x0000000000000000000000000000000000000000'
+
+module.exports = class Data1689578103526 {
+  name = 'Data1689578103526'
+
+  async up(db) {
+    await db.query(`CREATE TABLE "account_collection_balance" ("id" character varying NOT NULL, "amount" numeric NOT NULL, "updated_at_block" numeric NOT NULL, "updated_at" TIMESTAMP WITH TIME ZONE NOT NULL, "account_id" character varying NOT NULL, "collection_id" character varying NOT NULL, CONSTRAINT "PK_98fcaffd2841a4ce4b79bfdcea6" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_3fd899f72ac5660ae7e92cbee6" ON "account_collection_balance" ("account_id") `)
+    await db.query(`CREATE INDEX "IDX_2e611bd9358a7c50e83cd2e3c1" ON "account_collection_balance" ("collection_id") `)
+    await db.query(`ALTER TABLE "collection" ADD "name" text`)
+    await db.query(`ALTER TABLE "collection" ADD "symbol" text`)
+    await db.query(`ALTER TABLE "collection" ADD "total_minted" numeric`)
+    await db.query(`ALTER TABLE "collection" ADD "total_burned" numeric`)
+    await db.query(`ALTER TABLE "collection" ADD "current_supply" numeric`)
+    await db.query(`ALTER TABLE "collection" ADD "holder_count" integer`)
+    await db.query(`ALTER TABLE "collection" ADD "transfer_count" numeric`)
+    await db.query(`ALTER TABLE "collection" ADD "first_activity_block" numeric`)
+    await db.query(`ALTER TABLE "collection" ADD "last_activity_block" numeric`)
+    // Collection balances of existing holders are computed from owners of not
+    // burned ERC721 tokens and from ERC1155 token balances. Balance is updated
+    // at the latest transfer of its tokens.
+    await db.query(`INSERT INTO "account_collection_balance" ("id", "amount", "updated_at_block", "updated_at", "account_id", "collection_id") SELECT "account_id" || '-' || "collection_id", sum("amount"), max("updated_at_block"), max("updated_at"), "account_id", "collection_id" FROM (SELECT t."current_owner_id" AS "account_id", t."collection_id", 1 AS "amount", coalesce(tr."block_number", c."created_at_block") AS "updated_at_block", coalesce(tr."timestamp", c."created_at") AS "updated_at" FROM "nf_token" t JOIN "collection" c ON c."id" = t."collection_id" LEFT JOIN LATERAL (SELECT "block_number", "timestamp" FROM "nft_transfer" WHERE "token_id" = t."id" ORDER BY "block_number" DESC, "event_index" DESC LIMIT 1) tr ON true WHERE c."collection_type" = 'ERC721' AND NOT t."is_burned" UNION ALL SELECT b."account_id", t."collection_id", b."amount", b."updated_at_block", b."updated_at" FROM "account_nf_token_balance" b JOIN "nf_token" t ON t."id" = b."token_id") balances WHERE "account_id" <> '${EMPTY_ADDRESS}' GROUP BY "account_id", "collection_id" HAVING sum("amount") > 0`)
+    // Statistics of existing collections are computed from indexed transfers,
+    // as they would have been counted by the processor.
+    await db.query(`UPDATE "collection" SET "name" = (SELECT "name" FROM "nf_token" WHERE "collection_id" = "collection"."id" AND "name" IS NOT NULL LIMIT 1), "symbol" = (SELECT "symbol" FROM "nf_token" WHERE "collection_id" = "collection"."id" AND "symbol" IS NOT NULL LIMIT 1), "total_minted" = coalesce((SELECT sum(tr."amount") FROM "nft_transfer" tr JOIN "nf_token" t ON t."id" = tr."token_id" WHERE t."collection_id" = "collection"."id" AND tr."transfer_type" = 'MINT'), 0), "total_burned" = coalesce((SELECT sum(tr."amount") FROM "nft_transfer" tr JOIN "nf_token" t ON t."id" = tr."token_id" WHERE t."collection_id" = "collection"."id" AND tr."transfer_type" = 'BURN'), 0), "transfer_count" = (SELECT count(*) FROM "nft_transfer" tr JOIN "nf_token" t ON t."id" = tr."token_id" WHERE t."collection_id" = "collection"."id"), "first_activity_block" = (SELECT min(tr."block_number") FROM "nft_transfer" tr JOIN "nf_token" t ON t."id" = tr."token_id" WHERE t."collection_id" = "collection"."id"), "last_activity_block" = (SELECT max(tr."block_number") FROM "nft_transfer" tr JOIN "nf_token" t ON t."id" = tr."token_id" WHERE t."collection_id" = "collection"."id"), "holder_count" = (SELECT count(*) FROM "account_collection_balance" WHERE "collection_id" = "collection"."id")`)
+    await db.query(`UPDATE "collection" SET "current_supply" = "total_minted" - "total_burned"`)
+    await db.query(`ALTER TABLE "collection" ALTER COLUMN "total_minted" SET NOT NULL`)
+    await db.query(`ALTER TABLE "collection" ALTER COLUMN "total_burned" SET NOT NULL`)
+    await db.query(`ALTER TABLE "collection" ALTER COLUMN "current_supply" SET NOT NULL`)
+    await db.query(`ALTER TABLE "collection" ALTER COLUMN "holder_count" SET NOT NULL`)
+    await db.query(`ALTER TABLE "collection" ALTER COLUMN "transfer_count" SET NOT NULL`)
+    await db.query(`CREATE INDEX "IDX_926e7bdc3f52cd582078a379f1" ON "collection" ("name") `)
+    await db.query(`CREATE INDEX "IDX_c3c9836e9553afb999efc307aa" ON "collection" ("symbol") `)
+    await db.query(`CREATE INDEX "IDX_f865ae14ec41ef6a4885e646b3" ON "collection" ("current_supply") `)
+    await db.query(`CREATE INDEX "IDX_87617521989a2019a4e2c16e0d" ON "collection" ("holder_count") `)
+    await db.query(`CREATE INDEX "IDX_b66ae23428677f93ab8884e7e0" ON "collection" ("last_activity_block") `)
+    await db.query(`ALTER TABLE "account_collection_balance" ADD CONSTRAINT "FK_3fd899f72ac5660ae7e92cbee6a" FOREIGN KEY ("account_id") REFERENCES "account"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "account_collection_balance" ADD CONSTRAINT "FK_2e611bd9358a7c50e83cd2e3c15" FOREIGN KEY ("collection_id") REFERENCES "collection"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+  }
+
+  async down(db) {
+    await db.query(`ALTER TABLE "account_collection_balance" DROP CONSTRAINT "FK_2e611bd9358a7c50e83cd2e3c15"`)
+    await db.query(`ALTER TABLE "account_collection_balance" DROP CONSTRAINT "FK_3fd899f72ac5660ae7e92cbee6a"`)
+    await db.query(`DROP INDEX "public"."IDX_b66ae23428677f93ab8884e7e0"`)
+    await db.query(`DROP INDEX "public"."IDX_87617521989a2019a4e2c16e0d"`)
+    await db.query(`DROP INDEX "public"."IDX_f865ae14ec41ef6a4885e646b3"`)
+    await db.query(`DROP INDEX "public"."IDX_c3c9836e9553afb999efc307aa"`)
+    await db.query(`DROP INDEX "public"."IDX_926e7bdc3f52cd582078a379f1"`)
+    await db.query(`ALTER TABLE "collection" DROP COLUMN "last_activity_block"`)
+    await db.query(`ALTER TABLE "collection" DROP COLUMN "first_activity_block"`)
+    await db.query(`ALTER TABLE "collection" DROP COLUMN "transfer_count"`)
+    await db.query(`ALTER TABLE "collection" DROP COLUMN "holder_count"`)
+    await db.query(`ALTER TABLE "collection" DROP COLUMN "current_supply"`)
+    await db.query(`ALTER TABLE "collection" DROP COLUMN "total_burned"`)
+    await db.query(`ALTER TABLE "collection" DROP COLUMN "total_minted"`)
+    await db.query(`ALTER TABLE "collection" DROP COLUMN "symbol"`)
+    await db.query(`ALTER TABLE "collection" DROP COLUMN "name"`)
+    await db.query(`DROP INDEX "public"."IDX_2e611bd9358a7c50e83cd2e3c1"`)
+    await db.query(`DROP INDEX "public"."IDX_3fd899f72ac5660ae7e92cbee6"`)
+    await db.query(`DROP TABLE "account_collection_balance"`)
+  }
+}
@@ -0,0 +1,21 @@
+module.exports = class Data1689843990217 {
+  name = 'Data1689843990217'
+
+  async up(db) {
+    await db.query(`CREATE TABLE "nf_token_metadata" ("id" character varying NOT NULL, "raw_uri" text NOT NULL, "uri" text NOT NULL, "name" text, "description" text, "image" text, "animation_url" text, "attributes" jsonb, "status" character varying(7) NOT NULL, "attempts" integer NOT NULL, "error" text, "next_attempt_at" TIMESTAMP WITH TIME ZONE, "updated_at" TIMESTAMP WITH TIME ZONE NOT NULL, "token_id" character varying NOT NULL, CONSTRAINT "REL_6358c840553ca41676b5c9abe8" UNIQUE ("token_id"), CONSTRAINT "PK_7d40bdf06a76183431ea5b14504" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE UNIQUE INDEX "IDX_6358c840553ca41676b5c9abe8" ON "nf_token_metadata" ("token_id") `)
+    await db.query(`CREATE INDEX "IDX_078d01cd85fa3da27d579b6aa7" ON "nf_token_metadata" ("name") `)
+    await db.query(`CREATE INDEX "IDX_e09cc8aaaf3e2c2043ab495363" ON "nf_token_metadata" ("status") `)
+    await db.query(`CREATE INDEX "IDX_dd8247c33969024aab648d58c5" ON "nf_token_metadata" ("next_attempt_at") `)
+    await db.query(`ALTER TABLE "nf_token_metadata" ADD CONSTRAINT "FK_6358c840553ca41676b5c9abe8f" FOREIGN KEY ("token_id") REFERENCES "nf_token"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+  }
+
+  async down(db) {
+    await db.query(`ALTER TABLE "nf_token_metadata" DROP CONSTRAINT "FK_6358c840553ca41676b5c9abe8f"`)
+    await db.query(`DROP INDEX "public"."IDX_dd8247c33969024aab648d58c5"`)
+    await db.query(`DROP INDEX "public"."IDX_e09cc8aaaf3e2c2043ab495363"`)
+    await db.query(`DROP INDEX "public"."IDX_078d01cd85fa3da27d579b6aa7"`)
+    await db.query(`DROP INDEX "public"."IDX_6358c840553ca41676b5c9abe8"`)
+    await db.query(`DROP TABLE "nf_token_metadata"`)
+  }
+}
@@ -0,0 +1,59 @@
+module.exports = class Data1690119562048 {
+  name = 'Data1690119562048'
+
+  async up(db) {
+    await db.query(`CREATE TABLE "nf_token_attribute" ("id" character varying NOT NULL, "trait_type" text NOT NULL, "value" text NOT NULL, "display_type" text, "token_id" character varying NOT NULL, "collection_id" character varying NOT NULL, "trait_id" character varying NOT NULL, CONSTRAINT "PK_2b3e18bfee1c703f3356e8ee7d4" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_81597ad451aab8686986ce9e6f" ON "nf_token_attribute" ("token_id") `)
+    await db.query(`CREATE INDEX "IDX_3cd2c0963df9cd0ef368a0fc94" ON "nf_token_attribute" ("collection_id") `)
+    await db.query(`CREATE INDEX "IDX_9399ef15613ef6f6f5fdde4338" ON "nf_token_attribute" ("trait_id") `)
+    await db.query(`CREATE INDEX "IDX_6a61c3974d2af1fc0fe8d7a8ad" ON "nf_token_attribute" ("trait_type") `)
+    await db.query(`CREATE INDEX "IDX_da3469574d6f9d46876a69e81e" ON "nf_token_attribute" ("value") `)
+    await db.query(`CREATE TABLE "collection_trait" ("id" character varying NOT NULL, "trait_type" text NOT NULL, "value" text NOT NULL, "token_count" integer NOT NULL, "rarity_score" numeric, "collection_id" character varying NOT NULL, CONSTRAINT "PK_f8560f58b5af9215f4e79c5880c" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_7b7cc69b8db555343c7ee8a396" ON "collection_trait" ("collection_id") `)
+    await db.query(`CREATE INDEX "IDX_0a96e1c4a875a117e3905e1136" ON "collection_trait" ("trait_type") `)
+    await db.query(`CREATE INDEX "IDX_ced2d61408571f5f00b09a64de" ON "collection_trait" ("value") `)
+    await db.query(`CREATE INDEX "IDX_93b7dbbf54ca16757324856fc6" ON "collection_trait" ("token_count") `)
+    await db.query(`CREATE INDEX "IDX_da36552d538ec131eee828fae5" ON "collection_trait" ("rarity_score") `)
+    await db.query(`ALTER TABLE "nf_token" ADD "rarity_score" numeric`)
+    await db.query(`CREATE INDEX "IDX_bfa91e65943ca8d6f446e883a4" ON "nf_token" ("rarity_score") `)
+    await db.query(`ALTER TABLE "collection" ADD "attributed_token_count" integer`)
+    await db.query(`ALTER TABLE "collection" ADD "is_rarity_outdated" boolean`)
+    await db.query(`ALTER TABLE "collection" ADD "rarity_updated_at_block" numeric`)
+    await db.query(`UPDATE "collection" SET "attributed_token_count" = 0, "is_rarity_outdated" = false`)
+    await db.query(`ALTER TABLE "collection" ALTER COLUMN "attributed_token_count" SET NOT NULL`)
+    await db.query(`ALTER TABLE "collection" ALTER COLUMN "is_rarity_outdated" SET NOT NULL`)
+    // Attributes of already fetched metadata are indexed as traits, when the
+    // metadata is fetched again.
+    await db.query(`UPDATE "nf_token_metadata" SET "status" = 'PENDING', "attempts" = 0, "error" = NULL, "next_attempt_at" = now() WHERE "status" = 'FETCHED' AND "attributes" IS NOT NULL`)
+    await db.query(`CREATE INDEX "IDX_d0e40fe07a851421e54b4a4a2a" ON "collection" ("is_rarity_outdated") `)
+    await db.query(`ALTER TABLE "nf_token_attribute" ADD CONSTRAINT "FK_81597ad451aab8686986ce9e6fd" FOREIGN KEY ("token_id") REFERENCES "nf_token"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "nf_token_attribute" ADD CONSTRAINT "FK_3cd2c0963df9cd0ef368a0fc94b" FOREIGN KEY ("collection_id") REFERENCES "collection"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "nf_token_attribute" ADD CONSTRAINT "FK_9399ef15613ef6f6f5fdde4338c" FOREIGN KEY ("trait_id") REFERENCES "collection_trait"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "collection_trait" ADD CONSTRAINT "FK_7b7cc69b8db555343c7ee8a3960" FOREIGN KEY ("collection_id") REFERENCES "collection"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+  }
+
+  async down(db) {
+    await db.query(`ALTER TABLE "collection_trait" DROP CONSTRAINT "FK_7b7cc69b8db555343c7ee8a3960"`)
+    await db.query(`ALTER TABLE "nf_token_attribute" DROP CONSTRAINT "FK_9399ef15613ef6f6f5fdde4338c"`)
+    await db.query(`ALTER TABLE "nf_token_attribute" DROP CONSTRAINT "FK_3cd2c0963df9cd0ef368a0fc94b"`)
+    await db.query(`ALTER TABLE "nf_token_attribute" DROP CONSTRAINT "FK_81597ad451aab8686986ce9e6fd"`)
+    await db.query(`DROP INDEX "public"."IDX_d0e40fe07a851421e54b4a4a2a"`)
+    await db.query(`ALTER TABLE "collection" DROP COLUMN "rarity_updated_at_block"`)
+    await db.query(`ALTER TABLE "collection" DROP COLUMN "is_rarity_outdated"`)
+    await db.query(`ALTER TABLE "collection" DROP COLUMN "attributed_token_count"`)
+    await db.query(`DROP INDEX "public"."IDX_bfa91e65943ca8d6f446e883a4"`)
+    await db.query(`ALTER TABLE "nf_token" DROP COLUMN "rarity_score"`)
+    await db.query(`DROP INDEX "public"."IDX_da36552d538ec131eee828fae5"`)
+    await db.query(`DROP INDEX "public"."IDX_93b7dbbf54ca16757324856fc6"`)
+    await db.query(`DROP INDEX "public"."IDX_ced2d61408571f5f00b09a64de"`)
+    await db.query(`DROP INDEX "public"."IDX_0a96e1c4a875a117e3905e1136"`)
+    await db.query(`DROP INDEX "public"."IDX_7b7cc69b8db555343c7ee8a396"`)
+    await db.query(`DROP TABLE "collection_trait"`)
+    await db.query(`DROP INDEX "public"."IDX_da3469574d6f9d46876a69e81e"`)
+    await db.query(`DROP INDEX "public"."IDX_6a61c3974d2af1fc0fe8d7a8ad"`)
+    await db.query(`DROP INDEX "public"."IDX_3cd2c0963df9cd0ef368a0fc94"`)
+    await db.query(`DROP INDEX "public"."IDX_9399ef15613ef6f6f5fdde4338"`)
+    await db.query(`DROP INDEX "public"."IDX_81597ad451aab8686986ce9e6f"`)
+    await db.query(`DROP TABLE "nf_token_attribute"`)
+  }
+}
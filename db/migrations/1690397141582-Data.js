@@ -0,0 +1,48 @@
+const blake2b = require('blake2b')
+const ss58 = require('@subsquid/ss58')
+
+// Addresses of existing accounts are derived as by the processor: Substrate
+// account of EVM address is blake2_256("evm:" + address), SS58 address is
+// encoded with the address format of the chain.
+const SS58_PREFIX = process.env.SS58_PREFIX ? parseInt(process.env.SS58_PREFIX, 10) : 5
+const BATCH_SIZE = 1000
+
+function getSubstrateAccountId(id) {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(id)) return id
+  const hash = blake2b(32)
+    .update(Buffer.concat([Buffer.from('evm:'), Buffer.from(id.substring(2), 'hex')]))
+    .digest()
+  return `0x${Buffer.from(hash).toString('hex')}`
+}
+
+module.exports = class Data1690397141582 {
+  name = 'Data1690397141582'
+
+  async up(db) {
+    await db.query(`ALTER TABLE "account" ADD "substrate_account_id" text`)
+    await db.query(`ALTER TABLE "account" ADD "ss58_address" text`)
+    let lastId = ''
+    for (;;) {
+      const accounts = await db.query(`SELECT "id" FROM "account" WHERE "id" > $1 ORDER BY "id" LIMIT ${BATCH_SIZE}`, [lastId])
+      if (accounts.length === 0) break
+      const ids = accounts.map(({ id }) => id)
+      const substrateAccountIds = ids.map(getSubstrateAccountId)
+      const ss58Addresses = substrateAccountIds.map((substrateAccountId) =>
+        ss58.codec(SS58_PREFIX).encode(Buffer.from(substrateAccountId.substring(2), 'hex'))
+      )
+      await db.query(`UPDATE "account" SET "substrate_account_id" = v."substrate_account_id", "ss58_address" = v."ss58_address" FROM unnest($1::text[], $2::text[], $3::text[]) AS v("id", "substrate_account_id", "ss58_address") WHERE "account"."id" = v."id"`, [ids, substrateAccountIds, ss58Addresses])
+      lastId = ids[ids.length - 1]
+    }
+    await db.query(`ALTER TABLE "account" ALTER COLUMN "substrate_account_id" SET NOT NULL`)
+    await db.query(`ALTER TABLE "account" ALTER COLUMN "ss58_address" SET NOT NULL`)
+    await db.query(`CREATE INDEX "IDX_a2a792f2cf55434e9aaeef821a" ON "account" ("substrate_account_id") `)
+    await db.query(`CREATE INDEX "IDX_c062adbf81d7ea776a2fff8b98" ON "account" ("ss58_address") `)
+  }
+
+  async down(db) {
+    await db.query(`DROP INDEX "public"."IDX_c062adbf81d7ea776a2fff8b98"`)
+    await db.query(`DROP INDEX "public"."IDX_a2a792f2cf55434e9aaeef821a"`)
+    await db.query(`ALTER TABLE "account" DROP COLUMN "ss58_address"`)
+    await db.query(`ALTER TABLE "account" DROP COLUMN "substrate_account_id"`)
+  }
+}
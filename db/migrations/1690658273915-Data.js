@@ -0,0 +1,167 @@
+// Merges case-variant duplicates of address based entities into lowercase ones.
+// Tables are listed parents first. "idExpr" is normalised entity ID, "fks" are
+// foreign keys (and other address columns) which are normalised with it.
+// "merge" defines how variants of a state entity are combined:
+// - "sum": balances, every variant accumulated its own share of transfers,
+//   so amounts of all variants are added up
+// - "latest": values set by the latest event (allowances, approvals), the
+//   variant with the highest updated_at_block wins
+// "columns" are state columns copied or summed on merge.
+const ADDRESS_ID_TABLES = [
+  { table: 'account', idExpr: 'lower(id)', fks: [] },
+  { table: 'f_token', idExpr: 'lower(id)', fks: [] },
+  { table: 'collection', idExpr: 'lower(id)', fks: [] },
+  { table: 'contract_classification', idExpr: 'lower(id)', fks: [] },
+  {
+    table: 'collection_trait',
+    idExpr: 'lower(left(id, 42)) || substring(id from 43)',
+    fks: ['collection_id']
+  },
+  {
+    table: 'nf_token',
+    idExpr: 'lower(id)',
+    fks: ['collection_id', 'current_owner_id', 'approved_address']
+  },
+  {
+    table: 'account_f_token_balance',
+    idExpr: 'lower(id)',
+    fks: ['account_id', 'token_id'],
+    merge: 'sum',
+    columns: ['amount']
+  },
+  {
+    table: 'account_nf_token_balance',
+    idExpr: 'lower(id)',
+    fks: ['account_id', 'token_id'],
+    merge: 'sum',
+    columns: ['amount']
+  },
+  {
+    table: 'account_collection_balance',
+    idExpr: 'lower(id)',
+    fks: ['account_id', 'collection_id'],
+    merge: 'sum',
+    columns: ['amount']
+  },
+  {
+    table: 'account_f_token_balance_history',
+    idExpr: 'lower(id)',
+    fks: ['account_id', 'token_id']
+  },
+  { table: 'account_ft_transfer', idExpr: 'lower(id)', fks: ['account_id'] },
+  { table: 'account_nft_transfer', idExpr: 'lower(id)', fks: ['account_id'] },
+  {
+    table: 'f_token_allowance',
+    idExpr: 'lower(id)',
+    fks: ['owner_id', 'spender_id', 'token_id'],
+    merge: 'latest',
+    columns: ['amount', 'is_unlimited']
+  },
+  {
+    table: 'operator_approval',
+    idExpr: 'lower(id)',
+    fks: ['owner_id', 'operator_id', 'collection_id'],
+    merge: 'latest',
+    columns: ['approved']
+  },
+  { table: 'nf_token_metadata', idExpr: 'lower(id)', fks: ['token_id'] },
+  {
+    table: 'nf_token_attribute',
+    idExpr: 'lower(id)',
+    fks: ['token_id', 'collection_id'],
+    traitFk: 'trait_id'
+  }
+]
+
+// Tables with event based IDs, which only refer to address based entities
+const REFERRING_TABLES = [
+  { table: 'ft_transfer', fks: ['from_id', 'to_id', 'token_id'] },
+  { table: 'nft_transfer', fks: ['from_id', 'to_id', 'operator_id', 'token_id'] },
+  { table: 'f_token_approval', fks: ['owner_id', 'spender_id', 'token_id'] },
+  { table: 'uri_update_action', fks: ['token_id'] }
+]
+
+const TRAIT_ID_EXPR = (column) => `lower(left(${column}, 42)) || substring(${column} from 43)`
+
+function getNormaliseAssignments({ fks, traitFk }) {
+  const assignments = fks.map((fk) => `"${fk}" = lower("${fk}")`)
+  if (traitFk) assignments.push(`"${traitFk}" = ${TRAIT_ID_EXPR(`"${traitFk}"`)}`)
+  return assignments
+}
+
+function getConflictAction({ table, merge, columns }) {
+  if (!merge) return 'NOTHING'
+
+  const updatedAt = ['updated_at_block', 'updated_at']
+  if (merge === 'sum') {
+    const assignments = [
+      ...columns.map((column) => `"${column}" = "${table}"."${column}" + EXCLUDED."${column}"`),
+      ...updatedAt.map((column) => `"${column}" = GREATEST("${table}"."${column}", EXCLUDED."${column}")`)
+    ]
+    return `UPDATE SET ${assignments.join(', ')}`
+  }
+
+  const assignments = [...columns, ...updatedAt].map((column) => `"${column}" = EXCLUDED."${column}"`)
+  return `UPDATE SET ${assignments.join(', ')} WHERE "${table}".updated_at_block < EXCLUDED.updated_at_block`
+}
+
+module.exports = class Data1690658273915 {
+  name = 'Data1690658273915'
+
+  async up(db) {
+    // Normalised copies of case-variant rows, the latest updated variant of
+    // a state entity is taken as a base for merging
+    for (const tableDetails of ADDRESS_ID_TABLES) {
+      const { table, idExpr, merge, columns } = tableDetails
+      const assignments = [`"id" = ${idExpr}`, ...getNormaliseAssignments(tableDetails)]
+
+      await db.query(
+        `CREATE TEMP TABLE "normalised_${table}" AS SELECT DISTINCT ON (${idExpr}) * FROM "${table}" WHERE id <> ${idExpr} ORDER BY ${idExpr}${
+          merge ? ', updated_at_block DESC' : ''
+        }`
+      )
+      await db.query(`UPDATE "normalised_${table}" SET ${assignments.join(', ')}`)
+      if (merge === 'sum') {
+        // Summed over all variants, the already lowercase row is added on conflict
+        const variantIdExpr = idExpr.replace(/\bid\b/g, 'v.id')
+        const sums = columns.map(
+          (column) =>
+            `"${column}" = (SELECT sum(v."${column}") FROM "${table}" v WHERE v.id <> ${variantIdExpr} AND ${variantIdExpr} = "normalised_${table}".id)`
+        )
+        await db.query(`UPDATE "normalised_${table}" SET ${sums.join(', ')}`)
+      }
+      await db.query(
+        `INSERT INTO "${table}" SELECT * FROM "normalised_${table}" ON CONFLICT (id) DO ${getConflictAction(tableDetails)}`
+      )
+      await db.query(`DROP TABLE "normalised_${table}"`)
+    }
+
+    // Foreign keys of remaining rows are pointed to normalised entities
+    for (const tableDetails of [...ADDRESS_ID_TABLES, ...REFERRING_TABLES]) {
+      const assignments = getNormaliseAssignments(tableDetails)
+      if (assignments.length > 0) {
+        await db.query(
+          `UPDATE "${tableDetails.table}" SET ${assignments.join(', ')}${
+            tableDetails.idExpr ? ` WHERE id = ${tableDetails.idExpr}` : ''
+          }`
+        )
+      }
+    }
+
+    // Case-variant rows are removed, children first
+    for (const { table, idExpr } of [...ADDRESS_ID_TABLES].reverse()) {
+      await db.query(`DELETE FROM "${table}" WHERE id <> ${idExpr}`)
+    }
+
+    await db.query(
+      `UPDATE "f_token" SET holder_count = (SELECT count(*) FROM "account_f_token_balance" b WHERE b.token_id = "f_token".id AND b.amount > 0 AND b.account_id <> '0x0000000000000000000000000000000000000000')`
+    )
+    await db.query(
+      `UPDATE "collection" SET holder_count = (SELECT count(*) FROM "account_collection_balance" b WHERE b.collection_id = "collection".id AND b.amount > 0)`
+    )
+  }
+
+  async down(db) {
+    // Original address casing is not restorable
+  }
+}
@@ -0,0 +1,61 @@
+// Foreign keys which refer to NfToken ID: [table, constraint]
+const NF_TOKEN_FOREIGN_KEYS = [
+  ['account_nf_token_balance', 'FK_297104a2f0ced062d57eca012c2'],
+  ['nf_token_metadata', 'FK_6358c840553ca41676b5c9abe8f'],
+  ['nf_token_attribute', 'FK_81597ad451aab8686986ce9e6fd'],
+  ['uri_update_action', 'FK_49f300aa0df73f4d20ec04e6bdc'],
+  ['nft_transfer', 'FK_c769e593930b0d0f4a2ba074367']
+]
+
+module.exports = class Data1690921457302 {
+  name = 'Data1690921457302'
+
+  async up(db) {
+    await db.query(`CREATE TABLE "legacy_token_id" ("id" character varying NOT NULL, "token_id" character varying NOT NULL, CONSTRAINT "PK_acd8482236a37ba4969505f9d99" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_fe6de534668c67ef25ed943cda" ON "legacy_token_id" ("token_id") `)
+
+    // NfToken IDs are moved from truncated to full contract address in place
+    await db.query(`CREATE TEMP TABLE "nf_token_id_map" AS SELECT id AS old_id, collection_id || '-' || native_id AS new_id FROM "nf_token" WHERE id <> collection_id || '-' || native_id`)
+    await db.query(`CREATE UNIQUE INDEX ON "nf_token_id_map" (old_id)`)
+
+    for (const [table, constraint] of NF_TOKEN_FOREIGN_KEYS) {
+      await db.query(`ALTER TABLE "${table}" DROP CONSTRAINT "${constraint}"`)
+    }
+
+    await db.query(`UPDATE "nf_token" t SET id = m.new_id FROM "nf_token_id_map" m WHERE t.id = m.old_id`)
+    await db.query(`UPDATE "nf_token_metadata" t SET id = m.new_id, token_id = m.new_id FROM "nf_token_id_map" m WHERE t.token_id = m.old_id`)
+    await db.query(`UPDATE "nf_token_attribute" t SET id = m.new_id || substring(t.id from length(m.old_id) + 1), token_id = m.new_id FROM "nf_token_id_map" m WHERE t.token_id = m.old_id`)
+    await db.query(`UPDATE "account_nf_token_balance" t SET id = t.account_id || '-' || m.new_id, token_id = m.new_id FROM "nf_token_id_map" m WHERE t.token_id = m.old_id`)
+    await db.query(`UPDATE "uri_update_action" t SET token_id = m.new_id FROM "nf_token_id_map" m WHERE t.token_id = m.old_id`)
+    await db.query(`UPDATE "nft_transfer" t SET token_id = m.new_id FROM "nf_token_id_map" m WHERE t.token_id = m.old_id`)
+    await db.query(`INSERT INTO "legacy_token_id" (id, token_id) SELECT old_id, new_id FROM "nf_token_id_map"`)
+    await db.query(`DROP TABLE "nf_token_id_map"`)
+
+    for (const [table, constraint] of NF_TOKEN_FOREIGN_KEYS) {
+      await db.query(`ALTER TABLE "${table}" ADD CONSTRAINT "${constraint}" FOREIGN KEY ("token_id") REFERENCES "nf_token"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    }
+    await db.query(`ALTER TABLE "legacy_token_id" ADD CONSTRAINT "FK_fe6de534668c67ef25ed943cdab" FOREIGN KEY ("token_id") REFERENCES "nf_token"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+  }
+
+  async down(db) {
+    await db.query(`ALTER TABLE "legacy_token_id" DROP CONSTRAINT "FK_fe6de534668c67ef25ed943cdab"`)
+
+    for (const [table, constraint] of NF_TOKEN_FOREIGN_KEYS) {
+      await db.query(`ALTER TABLE "${table}" DROP CONSTRAINT "${constraint}"`)
+    }
+
+    await db.query(`UPDATE "nf_token" t SET id = l.id FROM "legacy_token_id" l WHERE t.id = l.token_id`)
+    await db.query(`UPDATE "nf_token_metadata" t SET id = l.id, token_id = l.id FROM "legacy_token_id" l WHERE t.token_id = l.token_id`)
+    await db.query(`UPDATE "nf_token_attribute" t SET id = l.id || substring(t.id from length(l.token_id) + 1), token_id = l.id FROM "legacy_token_id" l WHERE t.token_id = l.token_id`)
+    await db.query(`UPDATE "account_nf_token_balance" t SET id = t.account_id || '-' || l.id, token_id = l.id FROM "legacy_token_id" l WHERE t.token_id = l.token_id`)
+    await db.query(`UPDATE "uri_update_action" t SET token_id = l.id FROM "legacy_token_id" l WHERE t.token_id = l.token_id`)
+    await db.query(`UPDATE "nft_transfer" t SET token_id = l.id FROM "legacy_token_id" l WHERE t.token_id = l.token_id`)
+
+    for (const [table, constraint] of NF_TOKEN_FOREIGN_KEYS) {
+      await db.query(`ALTER TABLE "${table}" ADD CONSTRAINT "${constraint}" FOREIGN KEY ("token_id") REFERENCES "nf_token"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    }
+
+    await db.query(`DROP INDEX "public"."IDX_fe6de534668c67ef25ed943cda"`)
+    await db.query(`DROP TABLE "legacy_token_id"`)
+  }
+}
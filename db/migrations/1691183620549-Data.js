@@ -0,0 +1,33 @@
+module.exports = class Data1691183620549 {
+  name = 'Data1691183620549'
+
+  async up(db) {
+    await db.query(`CREATE TABLE "contract_deployment" ("id" character varying NOT NULL, "factory" text, "txn_hash" text NOT NULL, "block_number" numeric NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "deployer_id" character varying, CONSTRAINT "PK_5f59d0c17faedfba6726fbee123" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_c95386401b8a92e5e22f301bc0" ON "contract_deployment" ("deployer_id") `)
+    await db.query(`CREATE INDEX "IDX_cf85b2915d34f207c727cd4962" ON "contract_deployment" ("factory") `)
+    await db.query(`CREATE INDEX "IDX_b59f814dbf71824e8dd61f73f0" ON "contract_deployment" ("txn_hash") `)
+    await db.query(`CREATE INDEX "IDX_faa82af901890e98282c0cf1ab" ON "contract_deployment" ("block_number") `)
+    await db.query(`ALTER TABLE "collection" ADD "deployment_id" character varying`)
+    await db.query(`ALTER TABLE "f_token" ADD "deployment_id" character varying`)
+    await db.query(`CREATE INDEX "IDX_cb94b8dc11712bee5e5f924c43" ON "collection" ("deployment_id") `)
+    await db.query(`CREATE INDEX "IDX_2f9fce2d85e9b75531ab33d90f" ON "f_token" ("deployment_id") `)
+    await db.query(`ALTER TABLE "contract_deployment" ADD CONSTRAINT "FK_c95386401b8a92e5e22f301bc01" FOREIGN KEY ("deployer_id") REFERENCES "account"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "collection" ADD CONSTRAINT "FK_cb94b8dc11712bee5e5f924c434" FOREIGN KEY ("deployment_id") REFERENCES "contract_deployment"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "f_token" ADD CONSTRAINT "FK_2f9fce2d85e9b75531ab33d90f9" FOREIGN KEY ("deployment_id") REFERENCES "contract_deployment"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+  }
+
+  async down(db) {
+    await db.query(`ALTER TABLE "f_token" DROP CONSTRAINT "FK_2f9fce2d85e9b75531ab33d90f9"`)
+    await db.query(`ALTER TABLE "collection" DROP CONSTRAINT "FK_cb94b8dc11712bee5e5f924c434"`)
+    await db.query(`ALTER TABLE "contract_deployment" DROP CONSTRAINT "FK_c95386401b8a92e5e22f301bc01"`)
+    await db.query(`DROP INDEX "public"."IDX_2f9fce2d85e9b75531ab33d90f"`)
+    await db.query(`DROP INDEX "public"."IDX_cb94b8dc11712bee5e5f924c43"`)
+    await db.query(`ALTER TABLE "f_token" DROP COLUMN "deployment_id"`)
+    await db.query(`ALTER TABLE "collection" DROP COLUMN "deployment_id"`)
+    await db.query(`DROP INDEX "public"."IDX_faa82af901890e98282c0cf1ab"`)
+    await db.query(`DROP INDEX "public"."IDX_b59f814dbf71824e8dd61f73f0"`)
+    await db.query(`DROP INDEX "public"."IDX_cf85b2915d34f207c727cd4962"`)
+    await db.query(`DROP INDEX "public"."IDX_c95386401b8a92e5e22f301bc0"`)
+    await db.query(`DROP TABLE "contract_deployment"`)
+  }
+}
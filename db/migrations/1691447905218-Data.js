@@ -0,0 +1,23 @@
+module.exports = class Data1691447905218 {
+  name = 'Data1691447905218'
+
+  async up(db) {
+    await db.query(`CREATE TABLE "contract_capabilities" ("id" character varying NOT NULL, "erc165" boolean NOT NULL, "erc721" boolean NOT NULL, "erc721_metadata" boolean NOT NULL, "erc721_enumerable" boolean NOT NULL, "erc1155" boolean NOT NULL, "erc1155_metadata_uri" boolean NOT NULL, "erc2981" boolean NOT NULL, "erc4906" boolean NOT NULL, "probed_at_block" numeric NOT NULL, "probed_at" TIMESTAMP WITH TIME ZONE NOT NULL, CONSTRAINT "PK_55ca980155befd8a75bb5375659" PRIMARY KEY ("id"))`)
+    await db.query(`ALTER TABLE "collection" ADD "capabilities_id" character varying`)
+    await db.query(`ALTER TABLE "f_token" ADD "capabilities_id" character varying`)
+    await db.query(`CREATE INDEX "IDX_c905fcd0e8b86ddb580d0ac668" ON "collection" ("capabilities_id") `)
+    await db.query(`CREATE INDEX "IDX_64e6d2b6ffbceef93b67ad9aa6" ON "f_token" ("capabilities_id") `)
+    await db.query(`ALTER TABLE "collection" ADD CONSTRAINT "FK_c905fcd0e8b86ddb580d0ac6689" FOREIGN KEY ("capabilities_id") REFERENCES "contract_capabilities"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "f_token" ADD CONSTRAINT "FK_64e6d2b6ffbceef93b67ad9aa6c" FOREIGN KEY ("capabilities_id") REFERENCES "contract_capabilities"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+  }
+
+  async down(db) {
+    await db.query(`ALTER TABLE "f_token" DROP CONSTRAINT "FK_64e6d2b6ffbceef93b67ad9aa6c"`)
+    await db.query(`ALTER TABLE "collection" DROP CONSTRAINT "FK_c905fcd0e8b86ddb580d0ac6689"`)
+    await db.query(`DROP INDEX "public"."IDX_64e6d2b6ffbceef93b67ad9aa6"`)
+    await db.query(`DROP INDEX "public"."IDX_c905fcd0e8b86ddb580d0ac668"`)
+    await db.query(`ALTER TABLE "f_token" DROP COLUMN "capabilities_id"`)
+    await db.query(`ALTER TABLE "collection" DROP COLUMN "capabilities_id"`)
+    await db.query(`DROP TABLE "contract_capabilities"`)
+  }
+}
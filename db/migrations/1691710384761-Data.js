@@ -0,0 +1,29 @@
+module.exports = class Data1691710384761 {
+  name = 'Data1691710384761'
+
+  async up(db) {
+    await db.query(`ALTER TABLE "collection" ADD "royalty_receiver" text`)
+    await db.query(`ALTER TABLE "collection" ADD "royalty_basis_points" integer`)
+    await db.query(`ALTER TABLE "collection" ADD "royalty_updated_at_block" numeric`)
+    await db.query(`ALTER TABLE "nf_token" ADD "royalty_receiver" text`)
+    await db.query(`ALTER TABLE "nf_token" ADD "royalty_basis_points" integer`)
+    await db.query(`ALTER TABLE "nf_token" ADD "royalty_updated_at_block" numeric`)
+    await db.query(`CREATE INDEX "IDX_e55b42081fb6495fa00a954092" ON "collection" ("royalty_receiver") `)
+    await db.query(`CREATE INDEX "IDX_28e6f55f0a09f3c362098b7b60" ON "collection" ("royalty_basis_points") `)
+    await db.query(`CREATE INDEX "IDX_2334afd84e22335840e76a3398" ON "nf_token" ("royalty_receiver") `)
+    await db.query(`CREATE INDEX "IDX_c1e48307fe8e54ee962517b4ae" ON "nf_token" ("royalty_basis_points") `)
+  }
+
+  async down(db) {
+    await db.query(`DROP INDEX "public"."IDX_c1e48307fe8e54ee962517b4ae"`)
+    await db.query(`DROP INDEX "public"."IDX_2334afd84e22335840e76a3398"`)
+    await db.query(`DROP INDEX "public"."IDX_28e6f55f0a09f3c362098b7b60"`)
+    await db.query(`DROP INDEX "public"."IDX_e55b42081fb6495fa00a954092"`)
+    await db.query(`ALTER TABLE "nf_token" DROP COLUMN "royalty_updated_at_block"`)
+    await db.query(`ALTER TABLE "nf_token" DROP COLUMN "royalty_basis_points"`)
+    await db.query(`ALTER TABLE "nf_token" DROP COLUMN "royalty_receiver"`)
+    await db.query(`ALTER TABLE "collection" DROP COLUMN "royalty_updated_at_block"`)
+    await db.query(`ALTER TABLE "collection" DROP COLUMN "royalty_basis_points"`)
+    await db.query(`ALTER TABLE "collection" DROP COLUMN "royalty_receiver"`)
+  }
+}
@@ -0,0 +1,69 @@
+module.exports = class Data1691973521084 {
+  name = 'Data1691973521084'
+
+  async up(db) {
+    await db.query(`CREATE TABLE "dapps_staking_contract" ("id" character varying NOT NULL, "contract_type" character varying(4) NOT NULL, "total_staked" numeric NOT NULL, "staker_count" integer NOT NULL, "registered_at_block" numeric, "registered_at" TIMESTAMP WITH TIME ZONE, "developer_id" character varying, "f_token_id" character varying, "collection_id" character varying, CONSTRAINT "PK_c941993f0fa41eaad7dfb38174f" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_acb6b3a27cdc75432e72d8c3de" ON "dapps_staking_contract" ("developer_id") `)
+    await db.query(`CREATE INDEX "IDX_1a473f8b6f5428454c54510b35" ON "dapps_staking_contract" ("f_token_id") `)
+    await db.query(`CREATE INDEX "IDX_578d0085b92b70b8f747e8f82e" ON "dapps_staking_contract" ("collection_id") `)
+    await db.query(`CREATE INDEX "IDX_51157b1e37d42f4d142e5a681b" ON "dapps_staking_contract" ("total_staked") `)
+    await db.query(`CREATE INDEX "IDX_049089436ca4b38ef2fd7a4935" ON "dapps_staking_contract" ("staker_count") `)
+    await db.query(`CREATE TABLE "dapps_staking_position" ("id" character varying NOT NULL, "amount" numeric NOT NULL, "updated_at_block" numeric NOT NULL, "updated_at" TIMESTAMP WITH TIME ZONE NOT NULL, "account_id" character varying NOT NULL, "contract_id" character varying NOT NULL, CONSTRAINT "PK_e02eef4b979e7458ca943615929" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_a4fafc2c99a1dfb9adecb4140e" ON "dapps_staking_position" ("account_id") `)
+    await db.query(`CREATE INDEX "IDX_73d590e623a556876a1d694fe3" ON "dapps_staking_position" ("contract_id") `)
+    await db.query(`CREATE INDEX "IDX_ac4333ea6a68155f116232c0c8" ON "dapps_staking_position" ("amount") `)
+    await db.query(`CREATE TABLE "dapps_staking_reward" ("id" character varying NOT NULL, "era" integer NOT NULL, "amount" numeric NOT NULL, "block_number" numeric NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "account_id" character varying NOT NULL, "contract_id" character varying NOT NULL, CONSTRAINT "PK_523e92c517cda2d02bed0414dde" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_eb2f38e125a3de5b8e45668c99" ON "dapps_staking_reward" ("account_id") `)
+    await db.query(`CREATE INDEX "IDX_96d9dc19df24cdd47caf013ffc" ON "dapps_staking_reward" ("contract_id") `)
+    await db.query(`CREATE INDEX "IDX_c6292616e0f74e49d276729756" ON "dapps_staking_reward" ("era") `)
+    await db.query(`CREATE INDEX "IDX_13864e54d9020dd27bce26ad98" ON "dapps_staking_reward" ("block_number") `)
+    await db.query(`CREATE TABLE "dapps_staking_nomination_transfer" ("id" character varying NOT NULL, "amount" numeric NOT NULL, "block_number" numeric NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "account_id" character varying NOT NULL, "origin_contract_id" character varying NOT NULL, "target_contract_id" character varying NOT NULL, CONSTRAINT "PK_2c9927214a2ea181ce627ebf1f7" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_fc4880f2c9947d8905a45e986d" ON "dapps_staking_nomination_transfer" ("account_id") `)
+    await db.query(`CREATE INDEX "IDX_fc036fbaf100799aadceffa1cc" ON "dapps_staking_nomination_transfer" ("origin_contract_id") `)
+    await db.query(`CREATE INDEX "IDX_6d9dca586514c1483c42c488e0" ON "dapps_staking_nomination_transfer" ("target_contract_id") `)
+    await db.query(`CREATE INDEX "IDX_f66ec32483094520bc75b713b3" ON "dapps_staking_nomination_transfer" ("block_number") `)
+    await db.query(`ALTER TABLE "dapps_staking_contract" ADD CONSTRAINT "FK_acb6b3a27cdc75432e72d8c3de3" FOREIGN KEY ("developer_id") REFERENCES "account"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "dapps_staking_contract" ADD CONSTRAINT "FK_1a473f8b6f5428454c54510b35a" FOREIGN KEY ("f_token_id") REFERENCES "f_token"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "dapps_staking_contract" ADD CONSTRAINT "FK_578d0085b92b70b8f747e8f82e3" FOREIGN KEY ("collection_id") REFERENCES "collection"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "dapps_staking_position" ADD CONSTRAINT "FK_a4fafc2c99a1dfb9adecb4140eb" FOREIGN KEY ("account_id") REFERENCES "account"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "dapps_staking_position" ADD CONSTRAINT "FK_73d590e623a556876a1d694fe38" FOREIGN KEY ("contract_id") REFERENCES "dapps_staking_contract"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "dapps_staking_reward" ADD CONSTRAINT "FK_eb2f38e125a3de5b8e45668c99a" FOREIGN KEY ("account_id") REFERENCES "account"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "dapps_staking_reward" ADD CONSTRAINT "FK_96d9dc19df24cdd47caf013ffc3" FOREIGN KEY ("contract_id") REFERENCES "dapps_staking_contract"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "dapps_staking_nomination_transfer" ADD CONSTRAINT "FK_fc4880f2c9947d8905a45e986da" FOREIGN KEY ("account_id") REFERENCES "account"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "dapps_staking_nomination_transfer" ADD CONSTRAINT "FK_fc036fbaf100799aadceffa1cc2" FOREIGN KEY ("origin_contract_id") REFERENCES "dapps_staking_contract"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "dapps_staking_nomination_transfer" ADD CONSTRAINT "FK_6d9dca586514c1483c42c488e0b" FOREIGN KEY ("target_contract_id") REFERENCES "dapps_staking_contract"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+  }
+
+  async down(db) {
+    await db.query(`ALTER TABLE "dapps_staking_nomination_transfer" DROP CONSTRAINT "FK_6d9dca586514c1483c42c488e0b"`)
+    await db.query(`ALTER TABLE "dapps_staking_nomination_transfer" DROP CONSTRAINT "FK_fc036fbaf100799aadceffa1cc2"`)
+    await db.query(`ALTER TABLE "dapps_staking_nomination_transfer" DROP CONSTRAINT "FK_fc4880f2c9947d8905a45e986da"`)
+    await db.query(`ALTER TABLE "dapps_staking_reward" DROP CONSTRAINT "FK_96d9dc19df24cdd47caf013ffc3"`)
+    await db.query(`ALTER TABLE "dapps_staking_reward" DROP CONSTRAINT "FK_eb2f38e125a3de5b8e45668c99a"`)
+    await db.query(`ALTER TABLE "dapps_staking_position" DROP CONSTRAINT "FK_73d590e623a556876a1d694fe38"`)
+    await db.query(`ALTER TABLE "dapps_staking_position" DROP CONSTRAINT "FK_a4fafc2c99a1dfb9adecb4140eb"`)
+    await db.query(`ALTER TABLE "dapps_staking_contract" DROP CONSTRAINT "FK_578d0085b92b70b8f747e8f82e3"`)
+    await db.query(`ALTER TABLE "dapps_staking_contract" DROP CONSTRAINT "FK_1a473f8b6f5428454c54510b35a"`)
+    await db.query(`ALTER TABLE "dapps_staking_contract" DROP CONSTRAINT "FK_acb6b3a27cdc75432e72d8c3de3"`)
+    await db.query(`DROP INDEX "public"."IDX_f66ec32483094520bc75b713b3"`)
+    await db.query(`DROP INDEX "public"."IDX_6d9dca586514c1483c42c488e0"`)
+    await db.query(`DROP INDEX "public"."IDX_fc036fbaf100799aadceffa1cc"`)
+    await db.query(`DROP INDEX "public"."IDX_fc4880f2c9947d8905a45e986d"`)
+    await db.query(`DROP TABLE "dapps_staking_nomination_transfer"`)
+    await db.query(`DROP INDEX "public"."IDX_13864e54d9020dd27bce26ad98"`)
+    await db.query(`DROP INDEX "public"."IDX_c6292616e0f74e49d276729756"`)
+    await db.query(`DROP INDEX "public"."IDX_96d9dc19df24cdd47caf013ffc"`)
+    await db.query(`DROP INDEX "public"."IDX_eb2f38e125a3de5b8e45668c99"`)
+    await db.query(`DROP TABLE "dapps_staking_reward"`)
+    await db.query(`DROP INDEX "public"."IDX_ac4333ea6a68155f116232c0c8"`)
+    await db.query(`DROP INDEX "public"."IDX_73d590e623a556876a1d694fe3"`)
+    await db.query(`DROP INDEX "public"."IDX_a4fafc2c99a1dfb9adecb4140e"`)
+    await db.query(`DROP TABLE "dapps_staking_position"`)
+    await db.query(`DROP INDEX "public"."IDX_049089436ca4b38ef2fd7a4935"`)
+    await db.query(`DROP INDEX "public"."IDX_51157b1e37d42f4d142e5a681b"`)
+    await db.query(`DROP INDEX "public"."IDX_578d0085b92b70b8f747e8f82e"`)
+    await db.query(`DROP INDEX "public"."IDX_1a473f8b6f5428454c54510b35"`)
+    await db.query(`DROP INDEX "public"."IDX_acb6b3a27cdc75432e72d8c3de"`)
+    await db.query(`DROP TABLE "dapps_staking_contract"`)
+  }
+}
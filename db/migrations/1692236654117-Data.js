@@ -0,0 +1,51 @@
+module.exports = class Data1692236654117 {
+  name = 'Data1692236654117'
+
+  async up(db) {
+    await db.query(`CREATE TABLE "balance_correction" ("id" character varying NOT NULL, "indexed_amount" numeric NOT NULL, "on_chain_amount" numeric NOT NULL, "block_number" numeric NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "account_id" character varying NOT NULL, "f_token_id" character varying, "nf_token_id" character varying, CONSTRAINT "PK_fd4320f4661b02249aa277e7fb4" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_6a311849e98d69cf5474fe0138" ON "balance_correction" ("account_id") `)
+    await db.query(`CREATE INDEX "IDX_2b3cd31e705946ea03e352415e" ON "balance_correction" ("f_token_id") `)
+    await db.query(`CREATE INDEX "IDX_4666eb1c08dfae797290a65863" ON "balance_correction" ("nf_token_id") `)
+    await db.query(`CREATE INDEX "IDX_bda5af103fca9d12116d58ff94" ON "balance_correction" ("block_number") `)
+    await db.query(`ALTER TABLE "account_f_token_balance" ADD "reconciled_at_block" numeric`)
+    await db.query(`ALTER TABLE "account_nf_token_balance" ADD "reconciled_at_block" numeric`)
+    await db.query(`ALTER TABLE "collection" ADD "balance_correction_count" integer`)
+    await db.query(`ALTER TABLE "collection" ADD "is_non_standard" boolean`)
+    await db.query(`ALTER TABLE "f_token" ADD "balance_correction_count" integer`)
+    await db.query(`ALTER TABLE "f_token" ADD "is_non_standard" boolean`)
+    await db.query(`UPDATE "collection" SET "balance_correction_count" = 0, "is_non_standard" = false`)
+    await db.query(`UPDATE "f_token" SET "balance_correction_count" = 0, "is_non_standard" = false`)
+    await db.query(`ALTER TABLE "collection" ALTER COLUMN "balance_correction_count" SET NOT NULL`)
+    await db.query(`ALTER TABLE "collection" ALTER COLUMN "is_non_standard" SET NOT NULL`)
+    await db.query(`ALTER TABLE "f_token" ALTER COLUMN "balance_correction_count" SET NOT NULL`)
+    await db.query(`ALTER TABLE "f_token" ALTER COLUMN "is_non_standard" SET NOT NULL`)
+    await db.query(`CREATE INDEX "IDX_b6089318ce0cc73aef33609201" ON "account_f_token_balance" ("reconciled_at_block") `)
+    await db.query(`CREATE INDEX "IDX_964eca4253cb1cfcac04acc024" ON "account_nf_token_balance" ("reconciled_at_block") `)
+    await db.query(`CREATE INDEX "IDX_2b9bafe00e34a39cd7d92ce37a" ON "collection" ("is_non_standard") `)
+    await db.query(`CREATE INDEX "IDX_5fbcbd72c07d299fd871617116" ON "f_token" ("is_non_standard") `)
+    await db.query(`ALTER TABLE "balance_correction" ADD CONSTRAINT "FK_6a311849e98d69cf5474fe0138c" FOREIGN KEY ("account_id") REFERENCES "account"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "balance_correction" ADD CONSTRAINT "FK_2b3cd31e705946ea03e352415ef" FOREIGN KEY ("f_token_id") REFERENCES "f_token"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "balance_correction" ADD CONSTRAINT "FK_4666eb1c08dfae797290a658631" FOREIGN KEY ("nf_token_id") REFERENCES "nf_token"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+  }
+
+  async down(db) {
+    await db.query(`ALTER TABLE "balance_correction" DROP CONSTRAINT "FK_4666eb1c08dfae797290a658631"`)
+    await db.query(`ALTER TABLE "balance_correction" DROP CONSTRAINT "FK_2b3cd31e705946ea03e352415ef"`)
+    await db.query(`ALTER TABLE "balance_correction" DROP CONSTRAINT "FK_6a311849e98d69cf5474fe0138c"`)
+    await db.query(`DROP INDEX "public"."IDX_5fbcbd72c07d299fd871617116"`)
+    await db.query(`DROP INDEX "public"."IDX_2b9bafe00e34a39cd7d92ce37a"`)
+    await db.query(`DROP INDEX "public"."IDX_964eca4253cb1cfcac04acc024"`)
+    await db.query(`DROP INDEX "public"."IDX_b6089318ce0cc73aef33609201"`)
+    await db.query(`ALTER TABLE "f_token" DROP COLUMN "is_non_standard"`)
+    await db.query(`ALTER TABLE "f_token" DROP COLUMN "balance_correction_count"`)
+    await db.query(`ALTER TABLE "collection" DROP COLUMN "is_non_standard"`)
+    await db.query(`ALTER TABLE "collection" DROP COLUMN "balance_correction_count"`)
+    await db.query(`ALTER TABLE "account_nf_token_balance" DROP COLUMN "reconciled_at_block"`)
+    await db.query(`ALTER TABLE "account_f_token_balance" DROP COLUMN "reconciled_at_block"`)
+    await db.query(`DROP INDEX "public"."IDX_bda5af103fca9d12116d58ff94"`)
+    await db.query(`DROP INDEX "public"."IDX_4666eb1c08dfae797290a65863"`)
+    await db.query(`DROP INDEX "public"."IDX_2b3cd31e705946ea03e352415e"`)
+    await db.query(`DROP INDEX "public"."IDX_6a311849e98d69cf5474fe0138"`)
+    await db.query(`DROP TABLE "balance_correction"`)
+  }
+}
@@ -0,0 +1,18 @@
+module.exports = class Data1692498912530 {
+  name = 'Data1692498912530'
+
+  async up(db) {
+    await db.query(`ALTER TABLE "f_token" ADD "behaviour" character varying(15)`)
+    await db.query(`ALTER TABLE "f_token" ADD "behaviour_probe_count" integer`)
+    await db.query(`UPDATE "f_token" SET "behaviour" = 'STANDARD', "behaviour_probe_count" = 0`)
+    await db.query(`ALTER TABLE "f_token" ALTER COLUMN "behaviour" SET NOT NULL`)
+    await db.query(`ALTER TABLE "f_token" ALTER COLUMN "behaviour_probe_count" SET NOT NULL`)
+    await db.query(`CREATE INDEX "IDX_8c6aedfc3c0b7287962a10a1c1" ON "f_token" ("behaviour") `)
+  }
+
+  async down(db) {
+    await db.query(`DROP INDEX "public"."IDX_8c6aedfc3c0b7287962a10a1c1"`)
+    await db.query(`ALTER TABLE "f_token" DROP COLUMN "behaviour_probe_count"`)
+    await db.query(`ALTER TABLE "f_token" DROP COLUMN "behaviour"`)
+  }
+}
@@ -0,0 +1,33 @@
+module.exports = class Data1692772208361 {
+  name = 'Data1692772208361'
+
+  async up(db) {
+    await db.query(`CREATE TABLE "indexing_anomaly" ("id" character varying NOT NULL, "anomaly_type" character varying(29) NOT NULL, "block_number" numeric NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "event_id" text, "previous_amount" numeric NOT NULL, "amount" numeric NOT NULL, "computed_amount" numeric NOT NULL, "details" text NOT NULL, "account_id" character varying, "f_token_id" character varying, "nf_token_id" character varying, "collection_id" character varying, CONSTRAINT "PK_0e2813cc928c010b52527835bf5" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_4f8dd4bb764be79d9ce1690d55" ON "indexing_anomaly" ("anomaly_type") `)
+    await db.query(`CREATE INDEX "IDX_3653e7ebf2182f70e24ea22e7e" ON "indexing_anomaly" ("block_number") `)
+    await db.query(`CREATE INDEX "IDX_63e2cf8fbb97ad6ff170cafef8" ON "indexing_anomaly" ("event_id") `)
+    await db.query(`CREATE INDEX "IDX_deb439230a0972966bc4dcb3a4" ON "indexing_anomaly" ("account_id") `)
+    await db.query(`CREATE INDEX "IDX_62e36a0036e09e3a51311cde54" ON "indexing_anomaly" ("f_token_id") `)
+    await db.query(`CREATE INDEX "IDX_20079880130613ec858104c83c" ON "indexing_anomaly" ("nf_token_id") `)
+    await db.query(`CREATE INDEX "IDX_0cb78eca797cb74c0ae0e2e447" ON "indexing_anomaly" ("collection_id") `)
+    await db.query(`ALTER TABLE "indexing_anomaly" ADD CONSTRAINT "FK_deb439230a0972966bc4dcb3a4e" FOREIGN KEY ("account_id") REFERENCES "account"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "indexing_anomaly" ADD CONSTRAINT "FK_62e36a0036e09e3a51311cde547" FOREIGN KEY ("f_token_id") REFERENCES "f_token"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "indexing_anomaly" ADD CONSTRAINT "FK_20079880130613ec858104c83ca" FOREIGN KEY ("nf_token_id") REFERENCES "nf_token"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "indexing_anomaly" ADD CONSTRAINT "FK_0cb78eca797cb74c0ae0e2e4473" FOREIGN KEY ("collection_id") REFERENCES "collection"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+  }
+
+  async down(db) {
+    await db.query(`ALTER TABLE "indexing_anomaly" DROP CONSTRAINT "FK_0cb78eca797cb74c0ae0e2e4473"`)
+    await db.query(`ALTER TABLE "indexing_anomaly" DROP CONSTRAINT "FK_20079880130613ec858104c83ca"`)
+    await db.query(`ALTER TABLE "indexing_anomaly" DROP CONSTRAINT "FK_62e36a0036e09e3a51311cde547"`)
+    await db.query(`ALTER TABLE "indexing_anomaly" DROP CONSTRAINT "FK_deb439230a0972966bc4dcb3a4e"`)
+    await db.query(`DROP INDEX "public"."IDX_0cb78eca797cb74c0ae0e2e447"`)
+    await db.query(`DROP INDEX "public"."IDX_20079880130613ec858104c83c"`)
+    await db.query(`DROP INDEX "public"."IDX_62e36a0036e09e3a51311cde54"`)
+    await db.query(`DROP INDEX "public"."IDX_deb439230a0972966bc4dcb3a4"`)
+    await db.query(`DROP INDEX "public"."IDX_63e2cf8fbb97ad6ff170cafef8"`)
+    await db.query(`DROP INDEX "public"."IDX_3653e7ebf2182f70e24ea22e7e"`)
+    await db.query(`DROP INDEX "public"."IDX_4f8dd4bb764be79d9ce1690d55"`)
+    await db.query(`DROP TABLE "indexing_anomaly"`)
+  }
+}
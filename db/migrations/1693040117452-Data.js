@@ -0,0 +1,15 @@
+// Raw fetch error messages of already resolved metadata are replaced with
+// generic error codes
+module.exports = class Data1693040117452 {
+  name = 'Data1693040117452'
+
+  async up(db) {
+    await db.query(
+      `UPDATE "nf_token_metadata" SET "error" = CASE WHEN "error" = 'Unsupported URI scheme' THEN 'UNSUPPORTED_URI' ELSE 'REQUEST_FAILED' END WHERE "error" IS NOT NULL`
+    )
+  }
+
+  async down(db) {
+    // Original error messages are not restorable
+  }
+}
@@ -0,0 +1,13 @@
+module.exports = class Data1693303628174 {
+  name = 'Data1693303628174'
+
+  async up(db) {
+    await db.query(`ALTER TABLE "f_token_allowance" ADD "sync_requested_at_block" numeric`)
+    await db.query(`CREATE INDEX "IDX_e69ee6ba1981ac630f6e36f6f8" ON "f_token_allowance" ("sync_requested_at_block") `)
+  }
+
+  async down(db) {
+    await db.query(`DROP INDEX "public"."IDX_e69ee6ba1981ac630f6e36f6f8"`)
+    await db.query(`ALTER TABLE "f_token_allowance" DROP COLUMN "sync_requested_at_block"`)
+  }
+}
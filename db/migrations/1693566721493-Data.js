@@ -0,0 +1,15 @@
+module.exports = class Data1693566721493 {
+  name = 'Data1693566721493'
+
+  async up(db) {
+    await db.query(`ALTER TABLE "nf_token_metadata" ALTER COLUMN "raw_uri" DROP NOT NULL`)
+    await db.query(`ALTER TABLE "nf_token_metadata" ALTER COLUMN "uri" DROP NOT NULL`)
+  }
+
+  async down(db) {
+    // Metadata of tokens, which URIs have not been read yet, can't be kept.
+    await db.query(`DELETE FROM "nf_token_metadata" WHERE "raw_uri" IS NULL OR "uri" IS NULL`)
+    await db.query(`ALTER TABLE "nf_token_metadata" ALTER COLUMN "uri" SET NOT NULL`)
+    await db.query(`ALTER TABLE "nf_token_metadata" ALTER COLUMN "raw_uri" SET NOT NULL`)
+  }
+}
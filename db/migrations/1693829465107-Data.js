@@ -0,0 +1,42 @@
+const blake2b = require('blake2b')
+
+// Collection traits had "<collection_id>-<trait_type>-<value>" IDs, which
+// collide if trait type or value contains "-". Traits are re-created from
+// token attributes with IDs derived as by the processor (see
+// "getCollectionTraitEntityId"), so attributes of collided traits get their
+// own traits. Rarity of affected collections is recalculated.
+const BATCH_SIZE = 1000
+
+function getCollectionTraitEntityId(collectionId, traitType, value) {
+  const traitHash = blake2b(16)
+    .update(Buffer.from(JSON.stringify([traitType, value])))
+    .digest()
+  return `${collectionId.toLowerCase()}-${Buffer.from(traitHash).toString('hex')}`
+}
+
+module.exports = class Data1693829465107 {
+  name = 'Data1693829465107'
+
+  async up(db) {
+    let lastTrait = null
+    for (;;) {
+      const traits = lastTrait
+        ? await db.query(`SELECT "collection_id", "trait_type", "value", count(*) AS "token_count" FROM "nf_token_attribute" WHERE ("collection_id", "trait_type", "value") > ($1, $2, $3) GROUP BY "collection_id", "trait_type", "value" ORDER BY "collection_id", "trait_type", "value" LIMIT ${BATCH_SIZE}`, [lastTrait.collection_id, lastTrait.trait_type, lastTrait.value])
+        : await db.query(`SELECT "collection_id", "trait_type", "value", count(*) AS "token_count" FROM "nf_token_attribute" GROUP BY "collection_id", "trait_type", "value" ORDER BY "collection_id", "trait_type", "value" LIMIT ${BATCH_SIZE}`)
+      if (traits.length === 0) break
+      const ids = traits.map((trait) => getCollectionTraitEntityId(trait.collection_id, trait.trait_type, trait.value))
+      const collectionIds = traits.map((trait) => trait.collection_id)
+      const traitTypes = traits.map((trait) => trait.trait_type)
+      const values = traits.map((trait) => trait.value)
+      await db.query(`INSERT INTO "collection_trait" ("id", "collection_id", "trait_type", "value", "token_count", "rarity_score") SELECT v."id", v."collection_id", v."trait_type", v."value", v."token_count", NULL FROM unnest($1::text[], $2::text[], $3::text[], $4::text[], $5::integer[]) AS v("id", "collection_id", "trait_type", "value", "token_count") ON CONFLICT ("id") DO UPDATE SET "token_count" = EXCLUDED."token_count"`, [ids, collectionIds, traitTypes, values, traits.map((trait) => Number(trait.token_count))])
+      await db.query(`UPDATE "nf_token_attribute" SET "trait_id" = v."id" FROM unnest($1::text[], $2::text[], $3::text[], $4::text[]) AS v("id", "collection_id", "trait_type", "value") WHERE "nf_token_attribute"."collection_id" = v."collection_id" AND "nf_token_attribute"."trait_type" = v."trait_type" AND "nf_token_attribute"."value" = v."value"`, [ids, collectionIds, traitTypes, values])
+      lastTrait = traits[traits.length - 1]
+    }
+    await db.query(`DELETE FROM "collection_trait" WHERE NOT EXISTS (SELECT 1 FROM "nf_token_attribute" WHERE "trait_id" = "collection_trait"."id")`)
+    await db.query(`UPDATE "collection" SET "is_rarity_outdated" = true WHERE "attributed_token_count" > 0`)
+  }
+
+  async down(db) {
+    // Traits are not re-keyed back, as previous IDs collide.
+  }
+}
@@ -0,0 +1,119 @@
+import * as ethers from "ethers";
+import assert from "assert";
+
+export const abi = new ethers.utils.Interface(getJsonAbi());
+
+export interface ConsecutiveTransfer0Event {
+  fromTokenId: ethers.BigNumber;
+  toTokenId: ethers.BigNumber;
+  fromAddress: string;
+  toAddress: string;
+}
+
+export interface EvmEvent {
+  data: string;
+  topics: string[];
+}
+
+export const events = {
+  "ConsecutiveTransfer(uint256,uint256,address,address)":  {
+    topic: abi.getEventTopic("ConsecutiveTransfer(uint256,uint256,address,address)"),
+    decode(data: EvmEvent): ConsecutiveTransfer0Event {
+      const result = abi.decodeEventLog(
+        abi.getEvent("ConsecutiveTransfer(uint256,uint256,address,address)"),
+        data.data || "",
+        data.topics
+      );
+      return  {
+        fromTokenId: result[0],
+        toTokenId: result[1],
+        fromAddress: result[2],
+        toAddress: result[3],
+      }
+    }
+  }
+  ,
+}
+
+interface ChainContext  {
+  _chain: Chain
+}
+
+interface BlockContext  {
+  _chain: Chain
+  block: Block
+}
+
+interface Block  {
+  height: number
+}
+
+interface Chain  {
+  client:  {
+    call: <T=any>(method: string, params?: unknown[]) => Promise<T>
+  }
+}
+
+export class Contract  {
+  private readonly _chain: Chain
+  private readonly blockHeight: number
+  readonly address: string
+
+  constructor(ctx: BlockContext, address: string)
+  constructor(ctx: ChainContext, block: Block, address: string)
+  constructor(ctx: BlockContext, blockOrAddress: Block | string, address?: string) {
+    this._chain = ctx._chain
+    if (typeof blockOrAddress === 'string')  {
+      this.blockHeight = ctx.block.height
+      this.address = ethers.utils.getAddress(blockOrAddress)
+    }
+    else  {
+      assert(address != null)
+      this.blockHeight = blockOrAddress.height
+      this.address = ethers.utils.getAddress(address)
+    }
+  }
+
+  private async call(name: string, args: any[]) : Promise<ReadonlyArray<any>> {
+    const fragment = abi.getFunction(name)
+    const data = abi.encodeFunctionData(fragment, args)
+    const result = await this._chain.client.call('eth_call', [{to: this.address, data}, this.blockHeight])
+    return abi.decodeFunctionResult(fragment, result)
+  }
+}
+
+function getJsonAbi(): any {
+  return [
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "fromTokenId",
+          "type": "uint256"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "toTokenId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "fromAddress",
+          "type": "address"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "toAddress",
+          "type": "address"
+        }
+      ],
+      "name": "ConsecutiveTransfer",
+      "type": "event"
+    }
+  ]
+}
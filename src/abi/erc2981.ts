@@ -0,0 +1,125 @@
+import * as ethers from "ethers";
+import assert from "assert";
+
+export const abi = new ethers.utils.Interface(getJsonAbi());
+
+export interface RoyaltyInfo0Result {
+  receiver: string;
+  royaltyAmount: ethers.BigNumber;
+}
+
+export const events = {
+}
+
+interface ChainContext  {
+  _chain: Chain
+}
+
+interface BlockContext  {
+  _chain: Chain
+  block: Block
+}
+
+interface Block  {
+  height: number
+}
+
+interface Chain  {
+  client:  {
+    call: <T=any>(method: string, params?: unknown[]) => Promise<T>
+  }
+}
+
+export class Contract  {
+  private readonly _chain: Chain
+  private readonly blockHeight: number
+  readonly address: string
+
+  constructor(ctx: BlockContext, address: string)
+  constructor(ctx: ChainContext, block: Block, address: string)
+  constructor(ctx: BlockContext, blockOrAddress: Block | string, address?: string) {
+    this._chain = ctx._chain
+    if (typeof blockOrAddress === 'string')  {
+      this.blockHeight = ctx.block.height
+      this.address = ethers.utils.getAddress(blockOrAddress)
+    }
+    else  {
+      assert(address != null)
+      this.blockHeight = blockOrAddress.height
+      this.address = ethers.utils.getAddress(address)
+    }
+  }
+
+  private async call(name: string, args: any[]) : Promise<ReadonlyArray<any>> {
+    const fragment = abi.getFunction(name)
+    const data = abi.encodeFunctionData(fragment, args)
+    const result = await this._chain.client.call('eth_call', [{to: this.address, data}, this.blockHeight])
+    return abi.decodeFunctionResult(fragment, result)
+  }
+
+  async royaltyInfo(tokenId: ethers.BigNumber, salePrice: ethers.BigNumber): Promise<RoyaltyInfo0Result> {
+    const result = await this.call("royaltyInfo", [tokenId, salePrice])
+    return  {
+      receiver: result[0],
+      royaltyAmount: result[1],
+    }
+  }
+
+  async supportsInterface(interfaceId: string): Promise<boolean> {
+    const result = await this.call("supportsInterface", [interfaceId])
+    return result[0]
+  }
+}
+
+function getJsonAbi(): any {
+  return [
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "tokenId",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint256",
+          "name": "salePrice",
+          "type": "uint256"
+        }
+      ],
+      "name": "royaltyInfo",
+      "outputs": [
+        {
+          "internalType": "address",
+          "name": "receiver",
+          "type": "address"
+        },
+        {
+          "internalType": "uint256",
+          "name": "royaltyAmount",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "bytes4",
+          "name": "interfaceId",
+          "type": "bytes4"
+        }
+      ],
+      "name": "supportsInterface",
+      "outputs": [
+        {
+          "internalType": "bool",
+          "name": "",
+          "type": "bool"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    }
+  ]
+}
@@ -0,0 +1,134 @@
+import * as ethers from "ethers";
+import assert from "assert";
+
+export const abi = new ethers.utils.Interface(getJsonAbi());
+
+export interface BatchMetadataUpdate0Event {
+  _fromTokenId: ethers.BigNumber;
+  _toTokenId: ethers.BigNumber;
+}
+
+export interface MetadataUpdate0Event {
+  _tokenId: ethers.BigNumber;
+}
+
+export interface EvmEvent {
+  data: string;
+  topics: string[];
+}
+
+export const events = {
+  "BatchMetadataUpdate(uint256,uint256)":  {
+    topic: abi.getEventTopic("BatchMetadataUpdate(uint256,uint256)"),
+    decode(data: EvmEvent): BatchMetadataUpdate0Event {
+      const result = abi.decodeEventLog(
+        abi.getEvent("BatchMetadataUpdate(uint256,uint256)"),
+        data.data || "",
+        data.topics
+      );
+      return  {
+        _fromTokenId: result[0],
+        _toTokenId: result[1],
+      }
+    }
+  }
+  ,
+  "MetadataUpdate(uint256)":  {
+    topic: abi.getEventTopic("MetadataUpdate(uint256)"),
+    decode(data: EvmEvent): MetadataUpdate0Event {
+      const result = abi.decodeEventLog(
+        abi.getEvent("MetadataUpdate(uint256)"),
+        data.data || "",
+        data.topics
+      );
+      return  {
+        _tokenId: result[0],
+      }
+    }
+  }
+  ,
+}
+
+interface ChainContext  {
+  _chain: Chain
+}
+
+interface BlockContext  {
+  _chain: Chain
+  block: Block
+}
+
+interface Block  {
+  height: number
+}
+
+interface Chain  {
+  client:  {
+    call: <T=any>(method: string, params?: unknown[]) => Promise<T>
+  }
+}
+
+export class Contract  {
+  private readonly _chain: Chain
+  private readonly blockHeight: number
+  readonly address: string
+
+  constructor(ctx: BlockContext, address: string)
+  constructor(ctx: ChainContext, block: Block, address: string)
+  constructor(ctx: BlockContext, blockOrAddress: Block | string, address?: string) {
+    this._chain = ctx._chain
+    if (typeof blockOrAddress === 'string')  {
+      this.blockHeight = ctx.block.height
+      this.address = ethers.utils.getAddress(blockOrAddress)
+    }
+    else  {
+      assert(address != null)
+      this.blockHeight = blockOrAddress.height
+      this.address = ethers.utils.getAddress(address)
+    }
+  }
+
+  private async call(name: string, args: any[]) : Promise<ReadonlyArray<any>> {
+    const fragment = abi.getFunction(name)
+    const data = abi.encodeFunctionData(fragment, args)
+    const result = await this._chain.client.call('eth_call', [{to: this.address, data}, this.blockHeight])
+    return abi.decodeFunctionResult(fragment, result)
+  }
+}
+
+function getJsonAbi(): any {
+  return [
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "_fromTokenId",
+          "type": "uint256"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "_toTokenId",
+          "type": "uint256"
+        }
+      ],
+      "name": "BatchMetadataUpdate",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "_tokenId",
+          "type": "uint256"
+        }
+      ],
+      "name": "MetadataUpdate",
+      "type": "event"
+    }
+  ]
+}
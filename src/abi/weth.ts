@@ -0,0 +1,142 @@
+import * as ethers from "ethers";
+import assert from "assert";
+
+export const abi = new ethers.utils.Interface(getJsonAbi());
+
+export interface Deposit0Event {
+  dst: string;
+  wad: ethers.BigNumber;
+}
+
+export interface Withdrawal0Event {
+  src: string;
+  wad: ethers.BigNumber;
+}
+
+export interface EvmEvent {
+  data: string;
+  topics: string[];
+}
+
+export const events = {
+  "Deposit(address,uint256)":  {
+    topic: abi.getEventTopic("Deposit(address,uint256)"),
+    decode(data: EvmEvent): Deposit0Event {
+      const result = abi.decodeEventLog(
+        abi.getEvent("Deposit(address,uint256)"),
+        data.data || "",
+        data.topics
+      );
+      return  {
+        dst: result[0],
+        wad: result[1],
+      }
+    }
+  }
+  ,
+  "Withdrawal(address,uint256)":  {
+    topic: abi.getEventTopic("Withdrawal(address,uint256)"),
+    decode(data: EvmEvent): Withdrawal0Event {
+      const result = abi.decodeEventLog(
+        abi.getEvent("Withdrawal(address,uint256)"),
+        data.data || "",
+        data.topics
+      );
+      return  {
+        src: result[0],
+        wad: result[1],
+      }
+    }
+  }
+  ,
+}
+
+interface ChainContext  {
+  _chain: Chain
+}
+
+interface BlockContext  {
+  _chain: Chain
+  block: Block
+}
+
+interface Block  {
+  height: number
+}
+
+interface Chain  {
+  client:  {
+    call: <T=any>(method: string, params?: unknown[]) => Promise<T>
+  }
+}
+
+export class Contract  {
+  private readonly _chain: Chain
+  private readonly blockHeight: number
+  readonly address: string
+
+  constructor(ctx: BlockContext, address: string)
+  constructor(ctx: ChainContext, block: Block, address: string)
+  constructor(ctx: BlockContext, blockOrAddress: Block | string, address?: string) {
+    this._chain = ctx._chain
+    if (typeof blockOrAddress === 'string')  {
+      this.blockHeight = ctx.block.height
+      this.address = ethers.utils.getAddress(blockOrAddress)
+    }
+    else  {
+      assert(address != null)
+      this.blockHeight = blockOrAddress.height
+      this.address = ethers.utils.getAddress(address)
+    }
+  }
+
+  private async call(name: string, args: any[]) : Promise<ReadonlyArray<any>> {
+    const fragment = abi.getFunction(name)
+    const data = abi.encodeFunctionData(fragment, args)
+    const result = await this._chain.client.call('eth_call', [{to: this.address, data}, this.blockHeight])
+    return abi.decodeFunctionResult(fragment, result)
+  }
+}
+
+function getJsonAbi(): any {
+  return [
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "dst",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "wad",
+          "type": "uint256"
+        }
+      ],
+      "name": "Deposit",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "src",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "wad",
+          "type": "uint256"
+        }
+      ],
+      "name": "Withdrawal",
+      "type": "event"
+    }
+  ]
+}
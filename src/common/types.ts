@@ -1,10 +1,12 @@
+import { DappsStakingContractType } from '../model';
+
 export enum EntityManagerItem {
   account = 'account',
   token = 'token',
   transfer = 'transfer'
 }
 
-export enum FTokenBalanceAction {
+export enum TokenBalanceAction {
   add = 'add',
   sub = 'sub'
 }
@@ -15,3 +17,119 @@ export type TokenDetails = {
   decimals: number | null;
   uri: string | null;
 };
+
+export type RoyaltyDetails = {
+  receiver: string;
+  basisPoints: number;
+};
+
+export type EvmLogArgs = {
+  address: string;
+  topics: string[];
+  data: string;
+};
+
+export type NfTokenMetadataDetails = {
+  name: string | null;
+  description: string | null;
+  image: string | null;
+  animationUrl: string | null;
+  attributes: unknown;
+};
+
+/**
+ * Codes stored in "NfTokenMetadata.error". Raw error messages are only
+ * logged, as they may expose internals of requested hosts.
+ */
+export enum NfTokenMetadataError {
+  uriNotAvailable = 'URI_NOT_AVAILABLE',
+  unsupportedUri = 'UNSUPPORTED_URI',
+  blockedHost = 'BLOCKED_HOST',
+  tooManyRedirects = 'TOO_MANY_REDIRECTS',
+  httpStatus = 'HTTP_STATUS',
+  timeout = 'TIMEOUT',
+  responseTooLarge = 'RESPONSE_TOO_LARGE',
+  invalidJson = 'INVALID_JSON',
+  requestFailed = 'REQUEST_FAILED'
+}
+
+export type NfTokenAttributeDetails = {
+  traitType: string;
+  value: string;
+  displayType: string | null;
+};
+
+export type Xc20AssetTransferDetails = {
+  assetId: bigint;
+  from: string;
+  to: string;
+  amount: bigint;
+};
+
+export type Xc20AssetMetadataDetails = {
+  assetId: bigint;
+  name: string;
+  symbol: string;
+  decimals: number;
+};
+
+export type NativeTransferDetails = {
+  from: string;
+  to: string;
+  amount: bigint;
+};
+
+export type ContractInterfacesDetails = {
+  erc165: boolean;
+  erc721: boolean;
+  erc721Metadata: boolean;
+  erc721Enumerable: boolean;
+  erc1155: boolean;
+  erc1155MetadataUri: boolean;
+  erc2981: boolean;
+  erc4906: boolean;
+};
+
+export type EvmTransactionDetails = {
+  txnHash: string;
+  /**
+   * Sender and receiver (created contract for deployment transaction) of the
+   * transaction, which are known from "Ethereum.Executed" event.
+   */
+  from: string | null;
+  to: string | null;
+  /**
+   * EVM addresses of the transaction by their mapped Substrate accounts.
+   */
+  accounts: Map<string, string>;
+};
+
+export type DappsStakingContractDetails = {
+  id: string;
+  contractType: DappsStakingContractType;
+};
+
+export type DappsStakingStakeDetails = {
+  staker: string;
+  contract: DappsStakingContractDetails;
+  amount: bigint;
+};
+
+export type DappsStakingRewardDetails = {
+  account: string;
+  contract: DappsStakingContractDetails;
+  era: number;
+  amount: bigint;
+};
+
+export type DappsStakingNominationTransferDetails = {
+  staker: string;
+  originContract: DappsStakingContractDetails;
+  targetContract: DappsStakingContractDetails;
+  amount: bigint;
+};
+
+export type DappsStakingNewContractDetails = {
+  developer: string;
+  contract: DappsStakingContractDetails;
+};
@@ -1,13 +1,187 @@
 require('dotenv').config();
 
 export const batchSize = process.env.BATCH_SIZE
-  ? parseInt(process.env.BATCH_SIZE)
+  ? parseInt(process.env.BATCH_SIZE, 10)
   : 50;
 
 export const contractCallTimeout = process.env.CONTRACT_CALL_TIMEOUT
-    ? parseInt(process.env.CONTRACT_CALL_TIMEOUT)
+    ? parseInt(process.env.CONTRACT_CALL_TIMEOUT, 10)
     : 5;
 
+/**
+ * Interval in blocks between checks of indexed ERC20 total supply against
+ * on-chain "totalSupply()".
+ */
+export const fTokenSupplyCheckInterval = process.env
+  .FTOKEN_SUPPLY_CHECK_INTERVAL
+  ? parseInt(process.env.FTOKEN_SUPPLY_CHECK_INTERVAL, 10)
+  : 10000;
+
+/**
+ * Reconciliation of indexed ERC20/ERC1155 balances of EVM accounts against
+ * on-chain "balanceOf()"/"balanceOfBatch()". Balances are swept in order of
+ * the last check, not more than "balanceReconciliationBatchSize" of them per
+ * processor batch, and each one is re-checked not often than once per
+ * "balanceReconciliationInterval" blocks (0 disables reconciliation). Token
+ * is flagged as non-standard after "balanceDriftThreshold" corrections.
+ */
+export const balanceReconciliationInterval = process.env
+  .BALANCE_RECONCILIATION_INTERVAL
+  ? parseInt(process.env.BALANCE_RECONCILIATION_INTERVAL, 10)
+  : 50000;
+
+export const balanceReconciliationBatchSize = process.env
+  .BALANCE_RECONCILIATION_BATCH_SIZE
+  ? parseInt(process.env.BALANCE_RECONCILIATION_BATCH_SIZE, 10)
+  : 100;
+
+export const balanceDriftThreshold = process.env.BALANCE_DRIFT_THRESHOLD
+  ? parseInt(process.env.BALANCE_DRIFT_THRESHOLD, 10)
+  : 3;
+
+/**
+ * Number of regular transfers of each ERC20 token, which are checked against
+ * on-chain balance changes to detect fee-on-transfer and rebasing tokens
+ * (0 disables detection).
+ */
+export const fTokenBehaviourProbeCount = process.env
+  .FTOKEN_BEHAVIOUR_PROBE_COUNT
+  ? parseInt(process.env.FTOKEN_BEHAVIOUR_PROBE_COUNT, 10)
+  : 5;
+
+/**
+ * Max number of ERC20 allowances, which are re-read from the contract after
+ * "transferFrom" spending per batch. The rest is postponed to next batches.
+ */
+export const fTokenAllowanceSyncBatchSize = process.env
+  .FTOKEN_ALLOWANCE_SYNC_BATCH_SIZE
+  ? parseInt(process.env.FTOKEN_ALLOWANCE_SYNC_BATCH_SIZE, 10)
+  : 100;
+
+/**
+ * Off-chain NFT metadata resolution. Gateways can be pointed to a local mock
+ * server (e.g. "http://localhost:8080/ipfs/") for development.
+ */
+export const nfTokenMetadataFetchEnabled =
+  process.env.NFT_METADATA_FETCH_ENABLED !== 'false';
+
+export const nfTokenMetadataIpfsGateway =
+  process.env.NFT_METADATA_IPFS_GATEWAY || 'https://ipfs.io/ipfs/';
+
+export const nfTokenMetadataArweaveGateway =
+  process.env.NFT_METADATA_ARWEAVE_GATEWAY || 'https://arweave.net/';
+
+export const nfTokenMetadataFetchTimeout = process.env
+  .NFT_METADATA_FETCH_TIMEOUT
+  ? parseInt(process.env.NFT_METADATA_FETCH_TIMEOUT, 10)
+  : 10;
+
+export const nfTokenMetadataConcurrency = process.env.NFT_METADATA_CONCURRENCY
+  ? parseInt(process.env.NFT_METADATA_CONCURRENCY, 10)
+  : 10;
+
+/**
+ * Maximal number of metadata fetches, which wait in memory queue. Metadata
+ * over the limit stays pending in DB and is queued by next batches.
+ */
+export const nfTokenMetadataQueueSize = process.env.NFT_METADATA_QUEUE_SIZE
+  ? parseInt(process.env.NFT_METADATA_QUEUE_SIZE, 10)
+  : 100;
+
+export const nfTokenMetadataMaxAttempts = process.env
+  .NFT_METADATA_MAX_ATTEMPTS
+  ? parseInt(process.env.NFT_METADATA_MAX_ATTEMPTS, 10)
+  : 5;
+
+export const nfTokenMetadataRetryDelay = process.env.NFT_METADATA_RETRY_DELAY
+  ? parseInt(process.env.NFT_METADATA_RETRY_DELAY, 10)
+  : 600;
+
+/**
+ * Minimal interval in blocks between rarity score recalculations of the
+ * collection, which attributes have been changed.
+ */
+export const nfTokenRarityUpdateInterval = process.env
+  .NFT_RARITY_UPDATE_INTERVAL
+  ? parseInt(process.env.NFT_RARITY_UPDATE_INTERVAL, 10)
+  : 1000;
+
+/**
+ * Maximal number of collections, which rarity scores are recalculated per
+ * batch.
+ */
+export const nfTokenRarityUpdateBatchSize = process.env
+  .NFT_RARITY_UPDATE_BATCH_SIZE
+  ? parseInt(process.env.NFT_RARITY_UPDATE_BATCH_SIZE, 10)
+  : 10;
+
+/**
+ * Maximal number of indexed tokens, which URIs are re-read on EIP-4906
+ * "BatchMetadataUpdate" event.
+ */
+export const nfTokenMetadataUpdateBatchLimit = process.env
+  .NFT_METADATA_UPDATE_BATCH_LIMIT
+  ? parseInt(process.env.NFT_METADATA_UPDATE_BATCH_LIMIT, 10)
+  : 10000;
+
+/**
+ * Maximal number of tokens, which are indexed from a single EIP-2309
+ * "ConsecutiveTransfer" event.
+ */
+export const nfTokenConsecutiveTransferLimit = process.env
+  .NFT_CONSECUTIVE_TRANSFER_LIMIT
+  ? parseInt(process.env.NFT_CONSECUTIVE_TRANSFER_LIMIT, 10)
+  : 10000;
+
+/**
+ * Maximal number of token URIs, which are read per batch for tokens created
+ * without URI (tokens of EIP-2309 "ConsecutiveTransfer" range).
+ */
+export const nfTokenUriReadBatchSize = process.env.NFT_URI_READ_BATCH_SIZE
+  ? parseInt(process.env.NFT_URI_READ_BATCH_SIZE, 10)
+  : 1000;
+
+/**
+ * Minimal interval in blocks between refreshes of ERC2981 royalty info of
+ * the token or the collection, which are done on their transfers.
+ */
+export const nfTokenRoyaltyUpdateInterval = process.env
+  .NFT_ROYALTY_UPDATE_INTERVAL
+  ? parseInt(process.env.NFT_ROYALTY_UPDATE_INTERVAL, 10)
+  : 10000;
+
+/**
+ * Native token of the chain, which is indexed as pseudo ERC20 token.
+ */
+export const nativeTokenName = process.env.NATIVE_TOKEN_NAME || 'Astar';
+
+export const nativeTokenSymbol = process.env.NATIVE_TOKEN_SYMBOL || 'ASTR';
+
+export const nativeTokenDecimals = process.env.NATIVE_TOKEN_DECIMALS
+  ? parseInt(process.env.NATIVE_TOKEN_DECIMALS, 10)
+  : 18;
+
+/**
+ * WETH9-style wrapper token contracts (WASTR by default), which "Deposit"
+ * and "Withdrawal" events are indexed as mints and burns of the token.
+ * Comma separated list of addresses.
+ */
+export const wrappedTokenAddresses = (
+  process.env.WRAPPED_TOKEN_ADDRESSES ||
+  '0xaeaaf0e2c81af264101b9129c00f4440ccf0f720'
+)
+  .split(',')
+  .map((address) => address.trim().toLowerCase())
+  .filter((address) => address.length > 0);
+
+/**
+ * SS58 address format of the chain, which is used for Substrate addresses
+ * of accounts.
+ */
+export const ss58Prefix = process.env.SS58_PREFIX
+  ? parseInt(process.env.SS58_PREFIX, 10)
+  : 5;
+
 export const chainNode =
   process.env.CHAIN_NODE || 'wss://astar.api.onfinality.io/public-ws';
 
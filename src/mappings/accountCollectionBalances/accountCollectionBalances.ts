@@ -0,0 +1,24 @@
+import { Account, AccountCollectionBalance, Collection } from '../../model';
+import { blockContextManager } from '../utils/blockContextUtils';
+import { getAccountCollectionBalanceEntityId } from '../utils/common';
+
+export function createAccountCollectionBalance({
+  account,
+  collection,
+  amount
+}: {
+  account: Account;
+  collection: Collection;
+  amount: bigint;
+}): AccountCollectionBalance {
+  const block = blockContextManager.getCurrentBlock();
+
+  return new AccountCollectionBalance({
+    id: getAccountCollectionBalanceEntityId(account.id, collection.id),
+    account,
+    collection,
+    amount,
+    updatedAt: new Date(block.timestamp),
+    updatedAtBlock: BigInt(block.height)
+  });
+}
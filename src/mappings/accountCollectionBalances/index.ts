@@ -0,0 +1 @@
+export { createAccountCollectionBalance } from './accountCollectionBalances';
@@ -0,0 +1,29 @@
+import { Account, AccountFTokenBalanceHistory, FToken } from '../../model';
+import { blockContextManager } from '../utils/blockContextUtils';
+import { getAccountFTokenBalanceHistoryEntityId } from '../utils/common';
+
+export function createAccountFTokenBalanceHistory({
+  account,
+  token,
+  delta,
+  amount
+}: {
+  account: Account;
+  token: FToken;
+  delta: bigint;
+  amount: bigint;
+}): AccountFTokenBalanceHistory {
+  const block = blockContextManager.getCurrentBlock();
+  const event = blockContextManager.getCurrentSubstrateEvent();
+
+  return new AccountFTokenBalanceHistory({
+    id: getAccountFTokenBalanceHistoryEntityId(event.id, account.id),
+    account,
+    token,
+    blockNumber: BigInt(block.height),
+    timestamp: new Date(block.timestamp),
+    eventIndex: event.indexInBlock,
+    delta,
+    amount
+  });
+}
@@ -0,0 +1 @@
+export { createAccountFTokenBalanceHistory } from './accountFTokenBalanceHistories';
@@ -5,11 +5,13 @@ import { getAccountFTokenBalanceEntityId } from '../utils/common';
 export function createAccountFTokenBalances({
   account,
   token,
-  amount
+  amount,
+  reconciledAtBlock = null
 }: {
   account: Account;
   token: FToken;
   amount: bigint;
+  reconciledAtBlock?: bigint | null;
 }): AccountFTokenBalance {
   const block = utils.common.blockContextManager.getCurrentBlock();
 
@@ -19,6 +21,7 @@ export function createAccountFTokenBalances({
     account,
     amount,
     updatedAt: new Date(block.timestamp),
-    updatedAtBlock: BigInt(block.height.toString())
+    updatedAtBlock: BigInt(block.height.toString()),
+    reconciledAtBlock
   });
 }
@@ -0,0 +1,27 @@
+import { Account, AccountNfTokenBalance, NfToken } from '../../model';
+import { blockContextManager } from '../utils/blockContextUtils';
+import { getAccountNfTokenBalanceEntityId } from '../utils/common';
+
+export function createAccountNfTokenBalance({
+  account,
+  token,
+  amount,
+  reconciledAtBlock = null
+}: {
+  account: Account;
+  token: NfToken;
+  amount: bigint;
+  reconciledAtBlock?: bigint | null;
+}): AccountNfTokenBalance {
+  const block = blockContextManager.getCurrentBlock();
+
+  return new AccountNfTokenBalance({
+    id: getAccountNfTokenBalanceEntityId(account.id, token.id),
+    token,
+    account,
+    amount,
+    updatedAt: new Date(block.timestamp),
+    updatedAtBlock: BigInt(block.height.toString()),
+    reconciledAtBlock
+  });
+}
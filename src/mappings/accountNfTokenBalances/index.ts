@@ -0,0 +1 @@
+export { createAccountNfTokenBalance } from './accountNfTokenBalances';
@@ -1,7 +1,18 @@
 import { Account } from '../../model';
+import {
+  getEvmMappedAccountAddress,
+  getSs58Address,
+  isEvmAddress
+} from '../utils/common';
 
 export function createAccount(id: string): Account {
+  const substrateAccountId = isEvmAddress(id)
+    ? getEvmMappedAccountAddress(id)
+    : id;
+
   return new Account({
-    id
+    id,
+    substrateAccountId,
+    ss58Address: getSs58Address(substrateAccountId)
   });
 }
@@ -0,0 +1,48 @@
+import { Account, FToken, FTokenAllowance } from '../../model';
+import type { Context } from '../../processor';
+import * as utils from '../utils';
+import {
+  getFTokenAllowanceEntityId,
+  isUnlimitedAllowance
+} from '../utils/common';
+
+export function createFTokenAllowance({
+  owner,
+  spender,
+  token,
+  amount
+}: {
+  owner: Account;
+  spender: Account;
+  token: FToken;
+  amount: bigint;
+}): FTokenAllowance {
+  const block = utils.common.blockContextManager.getCurrentBlock();
+
+  return new FTokenAllowance({
+    id: getFTokenAllowanceEntityId(owner.id, spender.id, token.id),
+    owner,
+    spender,
+    token,
+    amount,
+    isUnlimited: isUnlimitedAllowance(amount),
+    updatedAt: new Date(block.timestamp),
+    updatedAtBlock: BigInt(block.height),
+    syncRequestedAtBlock: null
+  });
+}
+
+/**
+ * Allowances, which could be spent by "transferFrom" during the batch, are
+ * re-read in the end of the batch, so they match the state at the end of
+ * the last block of the batch.
+ */
+export async function syncAllowances(ctx: Context): Promise<void> {
+  if (ctx.blocks.length === 0) return;
+
+  utils.common.blockContextManager.init(
+    ctx.blocks[ctx.blocks.length - 1].header
+  );
+  await utils.entity.fTokenAllowancesManager.syncRequestedAllowances();
+  utils.common.blockContextManager.resetBlockContext();
+}
@@ -0,0 +1 @@
+export { createFTokenAllowance, syncAllowances } from './allowances';
@@ -0,0 +1,25 @@
+import * as erc20 from '../../../abi/erc20';
+import * as utils from '../../utils';
+
+export async function handleErc20Approval(): Promise<void> {
+  const event = utils.common.blockContextManager.getCurrentEvent();
+
+  const {
+    owner,
+    spender,
+    value: amount
+  } = erc20.events['Approval(address,address,uint256)'].decode(event.args);
+
+  const approval = await utils.entity.fTokenApprovalsManager.getOrCreate({
+    owner,
+    spender,
+    amount
+  });
+
+  await utils.entity.fTokenAllowancesManager.updateAllowance({
+    owner: approval.owner,
+    spender: approval.spender,
+    token: approval.token,
+    amount: approval.amount
+  });
+}
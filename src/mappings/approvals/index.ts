@@ -0,0 +1,3 @@
+export { handleErc20Approval } from './ftApprovals/erc20';
+export { handleErc721Approval } from './nftApprovals/erc721';
+export { handleApprovalForAll } from './nftApprovals/approvalForAll';
@@ -0,0 +1,50 @@
+import * as erc721 from '../../../abi/erc721';
+import * as utils from '../../utils';
+import { ContractStandard } from '../../../model';
+import type { Context } from '../../../processor';
+
+/**
+ * "ApprovalForAll(address,address,bool)" has the same topic and layout in
+ * ERC721 and ERC1155, so standard of the collection is taken from existing
+ * collection or contract classification.
+ */
+async function getCollectionStandard(
+  contractAddress: string
+): Promise<ContractStandard | null> {
+  const collection = await utils.entity.collectionManager.get(contractAddress);
+  if (collection) return collection.collectionType;
+
+  return utils.entity.contractClassificationsManager.resolveContractStandard(
+    contractAddress
+  );
+}
+
+export async function handleApprovalForAll(ctx: Context): Promise<void> {
+  const event = utils.common.blockContextManager.getCurrentEvent();
+  const contractAddress: string = event.args.address.toString();
+  const contractStandard = await getCollectionStandard(contractAddress);
+
+  if (
+    contractStandard !== ContractStandard.ERC721 &&
+    contractStandard !== ContractStandard.ERC1155
+  ) {
+    ctx.log.warn(
+      `ApprovalForAll log ${event.id} of contract ${contractAddress} cannot be classified as ERC721 or ERC1155. Log is skipped.`
+    );
+    return;
+  }
+
+  const { owner, operator, approved } = erc721.events[
+    'ApprovalForAll(address,address,bool)'
+  ].decode(event.args);
+
+  await utils.entity.operatorApprovalsManager.updateApproval({
+    owner: await utils.entity.accountsManager.getOrCreate(owner),
+    operator: await utils.entity.accountsManager.getOrCreate(operator),
+    collection: await utils.entity.collectionManager.getOrCreate({
+      id: contractAddress,
+      contractStandard
+    }),
+    approved
+  });
+}
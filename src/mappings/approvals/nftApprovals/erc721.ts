@@ -0,0 +1,30 @@
+import * as erc721 from '../../../abi/erc721';
+import * as utils from '../../utils';
+import {
+  EMPTY_ADDRESS,
+  getTokenEntityId,
+  normalizeAddress
+} from '../../utils/common';
+
+export async function handleErc721Approval(): Promise<void> {
+  const event = utils.common.blockContextManager.getCurrentEvent();
+
+  const { approved, tokenId } = erc721.events[
+    'Approval(address,address,uint256)'
+  ].decode(event.args);
+
+  const token = await utils.entity.nfTokenManager.get(
+    getTokenEntityId(event.args.address, tokenId.toString()),
+    {
+      currentOwner: true,
+      collection: true
+    }
+  );
+
+  if (!token) return;
+
+  token.approvedAddress =
+    approved === EMPTY_ADDRESS ? null : normalizeAddress(approved);
+
+  utils.entity.nfTokenManager.add(token);
+}
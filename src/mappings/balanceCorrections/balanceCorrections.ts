@@ -0,0 +1,50 @@
+import { Account, BalanceCorrection, FToken, NfToken } from '../../model';
+import type { Context } from '../../processor';
+import { balanceReconciliationInterval } from '../../config';
+import * as utils from '../utils';
+import { getBalanceCorrectionEntityId } from '../utils/common';
+
+export function createBalanceCorrection({
+  balanceId,
+  account,
+  fToken = null,
+  nfToken = null,
+  indexedAmount,
+  onChainAmount
+}: {
+  balanceId: string;
+  account: Account;
+  fToken?: FToken | null;
+  nfToken?: NfToken | null;
+  indexedAmount: bigint;
+  onChainAmount: bigint;
+}): BalanceCorrection {
+  const block = utils.common.blockContextManager.getCurrentBlock();
+
+  return new BalanceCorrection({
+    id: getBalanceCorrectionEntityId(balanceId, block.height),
+    account,
+    fToken,
+    nfToken,
+    indexedAmount,
+    onChainAmount,
+    blockNumber: BigInt(block.height),
+    timestamp: new Date(block.timestamp)
+  });
+}
+
+/**
+ * Reconciliation is done once per batch, after all its events have been
+ * applied, so indexed balances are compared with the state at the end of
+ * the last block of the batch.
+ */
+export async function reconcileBalances(ctx: Context): Promise<void> {
+  if (balanceReconciliationInterval <= 0 || ctx.blocks.length === 0) return;
+
+  utils.common.blockContextManager.init(
+    ctx.blocks[ctx.blocks.length - 1].header
+  );
+  await utils.entity.accountFTokenBalancesManager.reconcile();
+  await utils.entity.accountNfTokenBalancesManager.reconcile();
+  utils.common.blockContextManager.resetBlockContext();
+}
@@ -0,0 +1,4 @@
+export {
+  createBalanceCorrection,
+  reconcileBalances
+} from './balanceCorrections';
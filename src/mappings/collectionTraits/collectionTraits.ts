@@ -0,0 +1,21 @@
+import { Collection, CollectionTrait } from '../../model';
+import { getCollectionTraitEntityId } from '../utils/common';
+
+export function createCollectionTrait({
+  collection,
+  traitType,
+  value
+}: {
+  collection: Collection;
+  traitType: string;
+  value: string;
+}): CollectionTrait {
+  return new CollectionTrait({
+    id: getCollectionTraitEntityId(collection.id, traitType, value),
+    collection,
+    traitType,
+    value,
+    tokenCount: 0,
+    rarityScore: null
+  });
+}
@@ -0,0 +1 @@
+export { createCollectionTrait } from './collectionTraits';
@@ -1,19 +1,48 @@
-import { Collection, ContractStandard } from '../../model';
+import {
+  Collection,
+  ContractCapabilities,
+  ContractDeployment,
+  ContractStandard
+} from '../../model';
 import * as utils from '../utils';
 
 export function createCollection({
   id,
-  contractStandard
+  contractStandard,
+  name = null,
+  symbol = null,
+  deployment = null,
+  capabilities = null
 }: {
   id: string;
   contractStandard: ContractStandard;
+  name?: string | null;
+  symbol?: string | null;
+  deployment?: ContractDeployment | null;
+  capabilities?: ContractCapabilities | null;
 }): Collection {
   const block = utils.common.blockContextManager.getCurrentBlock();
 
   return new Collection({
     id,
     collectionType: contractStandard,
-    createdAtBlock: BigInt(block.height),
-    createdAt: new Date(block.timestamp)
+    name,
+    symbol,
+    totalMinted: BigInt(0),
+    totalBurned: BigInt(0),
+    currentSupply: BigInt(0),
+    holderCount: 0,
+    transferCount: BigInt(0),
+    firstActivityBlock: null,
+    lastActivityBlock: null,
+    attributedTokenCount: 0,
+    isRarityOutdated: false,
+    rarityUpdatedAtBlock: null,
+    balanceCorrectionCount: 0,
+    isNonStandard: false,
+    deployment,
+    capabilities,
+    createdAtBlock: deployment ? deployment.blockNumber : BigInt(block.height),
+    createdAt: deployment ? deployment.timestamp : new Date(block.timestamp)
   });
 }
@@ -0,0 +1,20 @@
+import { ContractCapabilities } from '../../model';
+import { ContractInterfacesDetails } from '../../common/types';
+import { blockContextManager } from '../utils/blockContextUtils';
+
+export function createContractCapabilities({
+  id,
+  interfaces
+}: {
+  id: string;
+  interfaces: ContractInterfacesDetails;
+}): ContractCapabilities {
+  const block = blockContextManager.getCurrentBlock();
+
+  return new ContractCapabilities({
+    id,
+    ...interfaces,
+    probedAtBlock: BigInt(block.height),
+    probedAt: new Date(block.timestamp)
+  });
+}
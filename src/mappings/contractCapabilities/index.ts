@@ -0,0 +1,2 @@
+export { createContractCapabilities } from './contractCapabilities';
+export { probeContractInterfaces } from './utils';
@@ -0,0 +1,40 @@
+import type { Context } from '../../processor';
+import { ContractInterfacesDetails } from '../../common/types';
+import { ERC165_INTERFACE_IDS } from '../utils/common';
+import { supportsInterface } from '../contractClassifications';
+
+import * as contracts from '../contracts';
+
+/**
+ * Detect interfaces of the contract with ERC-165 "supportsInterface" calls.
+ * Contracts, which don't implement ERC-165 properly, get all flags false.
+ */
+export async function probeContractInterfaces({
+  contractAddress,
+  ctx
+}: {
+  contractAddress: string;
+  ctx: Context;
+}): Promise<ContractInterfacesDetails> {
+  const contractInst = contracts.getContractErc721({
+    contractAddress,
+    ctx
+  });
+
+  const erc165 =
+    (await supportsInterface(contractInst, ERC165_INTERFACE_IDS.ERC165)) &&
+    !(await supportsInterface(contractInst, ERC165_INTERFACE_IDS.INVALID));
+  const probe = async (interfaceId: string): Promise<boolean> =>
+    erc165 && supportsInterface(contractInst, interfaceId);
+
+  return {
+    erc165,
+    erc721: await probe(ERC165_INTERFACE_IDS.ERC721),
+    erc721Metadata: await probe(ERC165_INTERFACE_IDS.ERC721_METADATA),
+    erc721Enumerable: await probe(ERC165_INTERFACE_IDS.ERC721_ENUMERABLE),
+    erc1155: await probe(ERC165_INTERFACE_IDS.ERC1155),
+    erc1155MetadataUri: await probe(ERC165_INTERFACE_IDS.ERC1155_METADATA_URI),
+    erc2981: await probe(ERC165_INTERFACE_IDS.ERC2981),
+    erc4906: await probe(ERC165_INTERFACE_IDS.ERC4906)
+  };
+}
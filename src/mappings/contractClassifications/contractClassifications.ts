@@ -0,0 +1,26 @@
+import {
+  ClassificationMethod,
+  ContractClassification,
+  ContractStandard
+} from '../../model';
+import { blockContextManager } from '../utils/blockContextUtils';
+
+export function createContractClassification({
+  id,
+  contractStandard,
+  method
+}: {
+  id: string;
+  contractStandard: ContractStandard;
+  method: ClassificationMethod;
+}): ContractClassification {
+  const block = blockContextManager.getCurrentBlock();
+
+  return new ContractClassification({
+    id,
+    contractStandard,
+    method,
+    createdAtBlock: BigInt(block.height),
+    createdAt: new Date(block.timestamp)
+  });
+}
@@ -0,0 +1,7 @@
+export { createContractClassification } from './contractClassifications';
+export {
+  getSharedTopicLogShape,
+  alignSharedTopicLogLayout,
+  probeContractStandard,
+  supportsInterface
+} from './utils';
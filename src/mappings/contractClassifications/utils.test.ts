@@ -0,0 +1,82 @@
+import { ContractStandard } from '../../model';
+import { alignSharedTopicLogLayout, getSharedTopicLogShape } from './utils';
+
+const TRANSFER_TOPIC =
+  '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+const FROM = `0x${'1'.padStart(64, '0')}`;
+const TO = `0x${'2'.padStart(64, '0')}`;
+const VALUE = `0x${'3'.padStart(64, '0')}`;
+
+const erc20Log = {
+  address: '0x0000000000000000000000000000000000000001',
+  topics: [TRANSFER_TOPIC, FROM, TO],
+  data: VALUE
+};
+const erc721Log = {
+  address: '0x0000000000000000000000000000000000000001',
+  topics: [TRANSFER_TOPIC, FROM, TO, VALUE],
+  data: '0x'
+};
+const legacyLog = {
+  address: '0x0000000000000000000000000000000000000001',
+  topics: [TRANSFER_TOPIC],
+  data: `0x${[FROM, TO, VALUE].map((word) => word.substring(2)).join('')}`
+};
+
+describe('getSharedTopicLogShape', () => {
+  it('detects ERC20 by two indexed arguments', () => {
+    expect(getSharedTopicLogShape(erc20Log)).toBe(ContractStandard.ERC20);
+  });
+
+  it('detects ERC721 by three indexed arguments', () => {
+    expect(getSharedTopicLogShape(erc721Log)).toBe(ContractStandard.ERC721);
+  });
+
+  it('is not conclusive for logs without indexed arguments', () => {
+    expect(getSharedTopicLogShape(legacyLog)).toBeNull();
+  });
+
+  it('is not conclusive for malformed data', () => {
+    expect(
+      getSharedTopicLogShape({ ...erc20Log, data: `${VALUE}00` })
+    ).toBeNull();
+    expect(getSharedTopicLogShape({ ...erc20Log, data: '0x' })).toBeNull();
+  });
+});
+
+describe('alignSharedTopicLogLayout', () => {
+  it('keeps layout of the resolved standard', () => {
+    expect(alignSharedTopicLogLayout(erc20Log, ContractStandard.ERC20)).toEqual(
+      { topics: erc20Log.topics, data: erc20Log.data }
+    );
+    expect(
+      alignSharedTopicLogLayout(erc721Log, ContractStandard.ERC721)
+    ).toEqual({ topics: erc721Log.topics, data: erc721Log.data });
+  });
+
+  it('moves arguments between topics and data', () => {
+    expect(
+      alignSharedTopicLogLayout(legacyLog, ContractStandard.ERC20)
+    ).toEqual({ topics: erc20Log.topics, data: erc20Log.data });
+    expect(
+      alignSharedTopicLogLayout(legacyLog, ContractStandard.ERC721)
+    ).toEqual({ topics: erc721Log.topics, data: erc721Log.data });
+    expect(
+      alignSharedTopicLogLayout(erc721Log, ContractStandard.ERC20)
+    ).toEqual({ topics: erc20Log.topics, data: erc20Log.data });
+  });
+
+  it('keeps log with unexpected number of arguments intact', () => {
+    const log = { ...erc20Log, data: '0x' };
+    expect(alignSharedTopicLogLayout(log, ContractStandard.ERC721)).toEqual({
+      topics: log.topics,
+      data: log.data
+    });
+  });
+
+  it('does not mutate the log', () => {
+    const topics = [...legacyLog.topics];
+    alignSharedTopicLogLayout(legacyLog, ContractStandard.ERC721);
+    expect(legacyLog.topics).toEqual(topics);
+  });
+});
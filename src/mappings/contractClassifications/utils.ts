@@ -0,0 +1,129 @@
+import { addTimeout } from '@subsquid/util-timeout';
+import { ContractStandard } from '../../model';
+import type { Context } from '../../processor';
+import { contractCallTimeout } from '../../config';
+import { EvmLogArgs } from '../../common/types';
+import { Contract as Erc721Contract } from '../../abi/erc721';
+import { ERC165_INTERFACE_IDS } from '../utils/common';
+
+import * as contracts from '../contracts';
+
+/**
+ * "Transfer(address,address,uint256)" and "Approval(address,address,uint256)"
+ * topics are shared by ERC20 and ERC721. Both events always have 3 arguments,
+ * ERC20 indexes two addresses, ERC721 indexes "tokenId" as well.
+ */
+const SHARED_TOPIC_ARGS_COUNT = 3;
+const WORD_HEX_LENGTH = 64;
+
+function getIndexedArgsCount(contractStandard: ContractStandard): number {
+  return contractStandard === ContractStandard.ERC20 ? 2 : 3;
+}
+
+function splitDataIntoWords(data: string): string[] | null {
+  const rawData = (data || '0x').replace(/^0x/, '');
+  if (rawData.length % WORD_HEX_LENGTH !== 0) return null;
+
+  const words: string[] = [];
+  for (let offset = 0; offset < rawData.length; offset += WORD_HEX_LENGTH) {
+    words.push(`0x${rawData.substring(offset, offset + WORD_HEX_LENGTH)}`);
+  }
+  return words;
+}
+
+/**
+ * Get contract standard of shared topic log by number of indexed topics and
+ * data length. Returns null if log shape is not
+ * conclusive (e.g. legacy contracts without indexed arguments).
+ */
+export function getSharedTopicLogShape(
+  log: EvmLogArgs
+): ContractStandard | null {
+  const dataWords = splitDataIntoWords(log.data);
+  const indexedArgsCount = log.topics.length - 1;
+
+  if (
+    !dataWords ||
+    indexedArgsCount + dataWords.length !== SHARED_TOPIC_ARGS_COUNT
+  )
+    return null;
+
+  switch (indexedArgsCount) {
+    case getIndexedArgsCount(ContractStandard.ERC20):
+      return ContractStandard.ERC20;
+    case getIndexedArgsCount(ContractStandard.ERC721):
+      return ContractStandard.ERC721;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Move shared topic log arguments between topics and data in the way it's
+ * expected by ABI of provided contract standard.
+ */
+export function alignSharedTopicLogLayout(
+  log: EvmLogArgs,
+  contractStandard: ContractStandard
+): Pick<EvmLogArgs, 'topics' | 'data'> {
+  const dataWords = splitDataIntoWords(log.data) || [];
+  const args = [...log.topics.slice(1), ...dataWords];
+  const indexedArgsCount = getIndexedArgsCount(contractStandard);
+
+  if (args.length !== SHARED_TOPIC_ARGS_COUNT)
+    return { topics: log.topics, data: log.data };
+
+  return {
+    topics: [log.topics[0], ...args.slice(0, indexedArgsCount)],
+    data: `0x${args
+      .slice(indexedArgsCount)
+      .map((word) => word.replace(/^0x/, ''))
+      .join('')}`
+  };
+}
+
+export async function supportsInterface(
+  contractInst: Erc721Contract,
+  interfaceId: string
+): Promise<boolean> {
+  try {
+    return await addTimeout(
+      contractInst.supportsInterface(interfaceId),
+      contractCallTimeout
+    );
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Detect contract standard with ERC-165 "supportsInterface" calls. Returns
+ * null for contracts, which don't implement ERC-165 properly.
+ */
+export async function probeContractStandard({
+  contractAddress,
+  ctx
+}: {
+  contractAddress: string;
+  ctx: Context;
+}): Promise<ContractStandard | null> {
+  const contractInst = contracts.getContractErc721({
+    contractAddress,
+    ctx
+  });
+
+  if (
+    !(await supportsInterface(contractInst, ERC165_INTERFACE_IDS.ERC165)) ||
+    (await supportsInterface(contractInst, ERC165_INTERFACE_IDS.INVALID))
+  )
+    return null;
+
+  if (await supportsInterface(contractInst, ERC165_INTERFACE_IDS.ERC721))
+    return ContractStandard.ERC721;
+  if (await supportsInterface(contractInst, ERC165_INTERFACE_IDS.ERC1155))
+    return ContractStandard.ERC1155;
+  if (await supportsInterface(contractInst, ERC165_INTERFACE_IDS.ERC20))
+    return ContractStandard.ERC20;
+
+  return null;
+}
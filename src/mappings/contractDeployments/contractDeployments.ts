@@ -0,0 +1,75 @@
+import { Account, ContractDeployment } from '../../model';
+import type { Context } from '../../processor';
+import { EvmTransactionDetails } from '../../common/types';
+import { decodeEvmCreated } from './utils';
+import * as utils from '../utils';
+
+export function createContractDeployment({
+  id,
+  deployer,
+  factory,
+  txnHash
+}: {
+  id: string;
+  deployer: Account | null;
+  factory: string | null;
+  txnHash: string;
+}): ContractDeployment {
+  const block = utils.common.blockContextManager.getCurrentBlock();
+
+  return new ContractDeployment({
+    id,
+    deployer,
+    factory,
+    txnHash,
+    blockNumber: BigInt(block.height),
+    timestamp: new Date(block.timestamp)
+  });
+}
+
+/**
+ * Deployer and hash of EVM transaction are taken from "Ethereum.Executed"
+ * event of the same extrinsic. Contracts created by "EVM.create" call have
+ * no deployer, and extrinsic hash is used as "txnHash".
+ */
+export async function handleContractCreated(
+  ctx: Context,
+  evmTransactions: Map<string, EvmTransactionDetails>
+): Promise<void> {
+  const block = utils.common.blockContextManager.getCurrentBlock();
+  const event = utils.common.blockContextManager.getCurrentSubstrateEvent();
+  const evmTransaction = event.extrinsic
+    ? evmTransactions.get(event.extrinsic.id)
+    : undefined;
+  const contractAddress = decodeEvmCreated(ctx, event);
+
+  let txnHash = block.hash;
+  if (evmTransaction) {
+    txnHash = evmTransaction.txnHash;
+  } else if (event.extrinsic) {
+    txnHash = event.extrinsic.hash;
+  }
+
+  const deployer =
+    evmTransaction && evmTransaction.from
+      ? await utils.entity.accountsManager.getOrCreate(evmTransaction.from)
+      : null;
+  const factory =
+    evmTransaction && evmTransaction.to && evmTransaction.to !== contractAddress
+      ? evmTransaction.to
+      : null;
+
+  const deployment = await utils.entity.contractDeploymentsManager.getOrCreate({
+    id: contractAddress,
+    deployer,
+    factory,
+    txnHash
+  });
+
+  /**
+   * Constructor of the contract can emit transfers before "EVM.Created"
+   * event, so token and collection can be already created.
+   */
+  await utils.entity.fTokenManager.setDeployment(deployment);
+  await utils.entity.collectionManager.setDeployment(deployment);
+}
@@ -0,0 +1,5 @@
+export {
+  createContractDeployment,
+  handleContractCreated
+} from './contractDeployments';
+export { decodeEvmCreated } from './utils';
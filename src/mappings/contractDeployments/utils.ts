@@ -0,0 +1,10 @@
+import { utils as ethersUtils } from 'ethers';
+import { EvmCreatedEvent } from '../../types/generated/events';
+import { ChainContext, Event } from '../../types/generated/support';
+import { normalizeAddress } from '../utils/common';
+
+export function decodeEvmCreated(ctx: ChainContext, event: Event): string {
+  return normalizeAddress(
+    ethersUtils.hexlify(new EvmCreatedEvent(ctx, event).asV1)
+  );
+}
@@ -1,6 +1,6 @@
 import { Contract as Erc1155Contract } from '../../abi/erc1155';
-import { Context } from '../../processor';
-import * as utils from '../utils';
+import type { Context } from '../../processor';
+import { blockContextManager } from '../utils/blockContextUtils';
 
 export function getContractErc1155({
   ctx,
@@ -9,7 +9,7 @@ export function getContractErc1155({
   ctx: Context;
   contractAddress: string;
 }): Erc1155Contract {
-  const block = utils.common.blockContextManager.getCurrentBlock();
+  const block = blockContextManager.getCurrentBlock();
   return new Erc1155Contract(
     { _chain: ctx._chain, block: { height: block.height } },
     contractAddress
@@ -1,18 +1,20 @@
 import { Contract as Erc20Contract } from '../../abi/erc20';
-import { Context } from '../../processor';
-import * as utils from "../utils";
+import type { Context } from '../../processor';
+import { blockContextManager } from '../utils/blockContextUtils';
 
 export function getContractErc20({
   ctx,
-  contractAddress
+  contractAddress,
+  blockHeight
 }: {
   ctx: Context;
   contractAddress: string;
+  blockHeight?: number;
 }): Erc20Contract {
-  const block = utils.common.blockContextManager.getCurrentBlock();
+  const block = blockContextManager.getCurrentBlock();
 
   return new Erc20Contract(
-    { _chain: ctx._chain, block: { height: block.height } },
+    { _chain: ctx._chain, block: { height: blockHeight ?? block.height } },
     contractAddress
   );
 }
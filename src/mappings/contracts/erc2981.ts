@@ -0,0 +1,17 @@
+import { Contract as Erc2981Contract } from '../../abi/erc2981';
+import type { Context } from '../../processor';
+import { blockContextManager } from '../utils/blockContextUtils';
+
+export function getContractErc2981({
+  ctx,
+  contractAddress
+}: {
+  ctx: Context;
+  contractAddress: string;
+}): Erc2981Contract {
+  const block = blockContextManager.getCurrentBlock();
+  return new Erc2981Contract(
+    { _chain: ctx._chain, block: { height: block.height } },
+    contractAddress
+  );
+}
@@ -1,6 +1,6 @@
 import { Contract as Erc721Contract } from '../../abi/erc721';
-import { Context } from '../../processor';
-import * as utils from '../utils';
+import type { Context } from '../../processor';
+import { blockContextManager } from '../utils/blockContextUtils';
 
 export function getContractErc721({
   ctx,
@@ -9,7 +9,7 @@ export function getContractErc721({
   ctx: Context;
   contractAddress: string;
 }): Erc721Contract {
-  const block = utils.common.blockContextManager.getCurrentBlock();
+  const block = blockContextManager.getCurrentBlock();
   return new Erc721Contract(
     { _chain: ctx._chain, block: { height: block.height } },
     contractAddress
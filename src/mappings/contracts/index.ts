@@ -1,3 +1,4 @@
 export { getContractErc20 } from './erc20';
 export { getContractErc721 } from './erc721';
 export { getContractErc1155 } from './erc1155';
+export { getContractErc2981 } from './erc2981';
@@ -0,0 +1,232 @@
+import {
+  Account,
+  Collection,
+  DappsStakingContract,
+  DappsStakingContractType,
+  DappsStakingNominationTransfer,
+  DappsStakingPosition,
+  DappsStakingReward,
+  FToken
+} from '../../model';
+import type { Context } from '../../processor';
+import { EvmTransactionDetails, TokenBalanceAction } from '../../common/types';
+import { getDappsStakingPositionEntityId } from '../utils/common';
+import {
+  decodeDappsStakingNewContract,
+  decodeDappsStakingNominationTransfer,
+  decodeDappsStakingReward,
+  decodeDappsStakingStake,
+  getEvmAttributedStaker
+} from './utils';
+import * as utils from '../utils';
+
+export function createDappsStakingContract({
+  id,
+  contractType,
+  fToken,
+  collection
+}: {
+  id: string;
+  contractType: DappsStakingContractType;
+  fToken: FToken | null;
+  collection: Collection | null;
+}): DappsStakingContract {
+  return new DappsStakingContract({
+    id,
+    contractType,
+    developer: null,
+    fToken,
+    collection,
+    totalStaked: BigInt(0),
+    stakerCount: 0,
+    registeredAtBlock: null,
+    registeredAt: null
+  });
+}
+
+export function createDappsStakingPosition({
+  account,
+  contract
+}: {
+  account: Account;
+  contract: DappsStakingContract;
+}): DappsStakingPosition {
+  const block = utils.common.blockContextManager.getCurrentBlock();
+
+  return new DappsStakingPosition({
+    id: getDappsStakingPositionEntityId(account.id, contract.id),
+    account,
+    contract,
+    amount: BigInt(0),
+    updatedAt: new Date(block.timestamp),
+    updatedAtBlock: BigInt(block.height)
+  });
+}
+
+export function createDappsStakingReward({
+  id,
+  account,
+  contract,
+  era,
+  amount
+}: {
+  id: string;
+  account: Account;
+  contract: DappsStakingContract;
+  era: number;
+  amount: bigint;
+}): DappsStakingReward {
+  const block = utils.common.blockContextManager.getCurrentBlock();
+
+  return new DappsStakingReward({
+    id,
+    account,
+    contract,
+    era,
+    amount,
+    blockNumber: BigInt(block.height),
+    timestamp: new Date(block.timestamp)
+  });
+}
+
+export function createDappsStakingNominationTransfer({
+  id,
+  account,
+  originContract,
+  targetContract,
+  amount
+}: {
+  id: string;
+  account: Account;
+  originContract: DappsStakingContract;
+  targetContract: DappsStakingContract;
+  amount: bigint;
+}): DappsStakingNominationTransfer {
+  const block = utils.common.blockContextManager.getCurrentBlock();
+
+  return new DappsStakingNominationTransfer({
+    id,
+    account,
+    originContract,
+    targetContract,
+    amount,
+    blockNumber: BigInt(block.height),
+    timestamp: new Date(block.timestamp)
+  });
+}
+
+export async function handleDappsStakingStake(
+  ctx: Context,
+  evmTransactions: Map<string, EvmTransactionDetails>
+): Promise<void> {
+  const event = utils.common.blockContextManager.getCurrentSubstrateEvent();
+  const { staker, contract, amount } = decodeDappsStakingStake(ctx, event);
+
+  const account = await utils.entity.accountsManager.getOrCreate(
+    utils.entity.accountsManager.getCanonicalAddress(
+      getEvmAttributedStaker(
+        staker,
+        event.extrinsic ? evmTransactions.get(event.extrinsic.id) : undefined
+      )
+    )
+  );
+  const stakingContract =
+    await utils.entity.dappsStakingContractsManager.getOrCreate(contract);
+
+  await utils.entity.dappsStakingPositionsManager.updatePosition({
+    account,
+    contract: stakingContract,
+    amount,
+    action:
+      event.name === 'DappsStaking.BondAndStake'
+        ? TokenBalanceAction.add
+        : TokenBalanceAction.sub
+  });
+}
+
+export async function handleDappsStakingNominationTransfer(
+  ctx: Context,
+  evmTransactions: Map<string, EvmTransactionDetails>
+): Promise<void> {
+  const event = utils.common.blockContextManager.getCurrentSubstrateEvent();
+  const { staker, originContract, targetContract, amount } =
+    decodeDappsStakingNominationTransfer(ctx, event);
+
+  const account = await utils.entity.accountsManager.getOrCreate(
+    utils.entity.accountsManager.getCanonicalAddress(
+      getEvmAttributedStaker(
+        staker,
+        event.extrinsic ? evmTransactions.get(event.extrinsic.id) : undefined
+      )
+    )
+  );
+  const originStakingContract =
+    await utils.entity.dappsStakingContractsManager.getOrCreate(originContract);
+  const targetStakingContract =
+    await utils.entity.dappsStakingContractsManager.getOrCreate(targetContract);
+
+  await utils.entity.dappsStakingNominationTransfersManager.getOrCreate({
+    id: event.id,
+    account,
+    originContract: originStakingContract,
+    targetContract: targetStakingContract,
+    amount
+  });
+
+  await utils.entity.dappsStakingPositionsManager.updatePosition({
+    account,
+    contract: originStakingContract,
+    amount,
+    action: TokenBalanceAction.sub
+  });
+  await utils.entity.dappsStakingPositionsManager.updatePosition({
+    account,
+    contract: targetStakingContract,
+    amount,
+    action: TokenBalanceAction.add
+  });
+}
+
+export async function handleDappsStakingReward(ctx: Context): Promise<void> {
+  const event = utils.common.blockContextManager.getCurrentSubstrateEvent();
+  const {
+    account: accountId,
+    contract,
+    era,
+    amount
+  } = decodeDappsStakingReward(ctx, event);
+
+  const account = await utils.entity.accountsManager.getOrCreate(
+    utils.entity.accountsManager.getCanonicalAddress(accountId)
+  );
+  const stakingContract =
+    await utils.entity.dappsStakingContractsManager.getOrCreate(contract);
+
+  await utils.entity.dappsStakingRewardsManager.getOrCreate({
+    id: event.id,
+    account,
+    contract: stakingContract,
+    era,
+    amount
+  });
+}
+
+export async function handleDappsStakingNewContract(
+  ctx: Context
+): Promise<void> {
+  const { developer, contract } = decodeDappsStakingNewContract(
+    ctx,
+    utils.common.blockContextManager.getCurrentSubstrateEvent()
+  );
+
+  const developerAccount = await utils.entity.accountsManager.getOrCreate(
+    utils.entity.accountsManager.getCanonicalAddress(developer)
+  );
+  const stakingContract =
+    await utils.entity.dappsStakingContractsManager.getOrCreate(contract);
+
+  utils.entity.dappsStakingContractsManager.register({
+    contract: stakingContract,
+    developer: developerAccount
+  });
+}
@@ -0,0 +1,17 @@
+export {
+  createDappsStakingContract,
+  createDappsStakingPosition,
+  createDappsStakingReward,
+  createDappsStakingNominationTransfer,
+  handleDappsStakingStake,
+  handleDappsStakingNominationTransfer,
+  handleDappsStakingReward,
+  handleDappsStakingNewContract
+} from './dappsStaking';
+export {
+  decodeDappsStakingStake,
+  decodeDappsStakingReward,
+  decodeDappsStakingNominationTransfer,
+  decodeDappsStakingNewContract,
+  getEvmAttributedStaker
+} from './utils';
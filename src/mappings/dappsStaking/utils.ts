@@ -0,0 +1,119 @@
+import { utils as ethersUtils } from 'ethers';
+import {
+  DappsStakingBondAndStakeEvent,
+  DappsStakingNewContractEvent,
+  DappsStakingNominationTransferEvent,
+  DappsStakingRewardEvent,
+  DappsStakingUnbondAndUnstakeEvent
+} from '../../types/generated/events';
+import { ChainContext, Event } from '../../types/generated/support';
+import { SmartContract } from '../../types/generated/v4';
+import { DappsStakingContractType } from '../../model';
+import {
+  EvmTransactionDetails,
+  DappsStakingContractDetails,
+  DappsStakingNewContractDetails,
+  DappsStakingNominationTransferDetails,
+  DappsStakingRewardDetails,
+  DappsStakingStakeDetails
+} from '../../common/types';
+import { getSubstrateAccountAddress, normalizeAddress } from '../utils/common';
+
+function getContractDetails(
+  contract: SmartContract
+): DappsStakingContractDetails {
+  return contract.__kind === 'Evm'
+    ? {
+        id: normalizeAddress(ethersUtils.hexlify(contract.value)),
+        contractType: DappsStakingContractType.EVM
+      }
+    : {
+        id: getSubstrateAccountAddress(contract.value),
+        contractType: DappsStakingContractType.WASM
+      };
+}
+
+export function decodeDappsStakingStake(
+  ctx: ChainContext,
+  event: Event
+): DappsStakingStakeDetails {
+  switch (event.name) {
+    case 'DappsStaking.BondAndStake': {
+      const [staker, contract, amount] = new DappsStakingBondAndStakeEvent(
+        ctx,
+        event
+      ).asV4;
+      return {
+        staker: getSubstrateAccountAddress(staker),
+        contract: getContractDetails(contract),
+        amount
+      };
+    }
+    case 'DappsStaking.UnbondAndUnstake': {
+      const [staker, contract, amount] = new DappsStakingUnbondAndUnstakeEvent(
+        ctx,
+        event
+      ).asV12;
+      return {
+        staker: getSubstrateAccountAddress(staker),
+        contract: getContractDetails(contract),
+        amount
+      };
+    }
+    default:
+      throw new Error(`Event ${event.name} is not dApps staking stake`);
+  }
+}
+
+/**
+ * EVM addresses stake through dApps Staking precompile with their mapped
+ * Substrate accounts, which are replaced by EVM addresses of the transaction.
+ */
+export function getEvmAttributedStaker(
+  staker: string,
+  transaction: EvmTransactionDetails | undefined
+): string {
+  return (transaction && transaction.accounts.get(staker)) ?? staker;
+}
+
+export function decodeDappsStakingReward(
+  ctx: ChainContext,
+  event: Event
+): DappsStakingRewardDetails {
+  const [account, contract, era, amount] = new DappsStakingRewardEvent(
+    ctx,
+    event
+  ).asV4;
+  return {
+    account: getSubstrateAccountAddress(account),
+    contract: getContractDetails(contract),
+    era,
+    amount
+  };
+}
+
+export function decodeDappsStakingNominationTransfer(
+  ctx: ChainContext,
+  event: Event
+): DappsStakingNominationTransferDetails {
+  const [staker, originContract, amount, targetContract] =
+    new DappsStakingNominationTransferEvent(ctx, event).asV17;
+  return {
+    staker: getSubstrateAccountAddress(staker),
+    originContract: getContractDetails(originContract),
+    targetContract: getContractDetails(targetContract),
+    amount
+  };
+}
+
+export function decodeDappsStakingNewContract(
+  ctx: ChainContext,
+  event: Event
+): DappsStakingNewContractDetails {
+  const [developer, contract] = new DappsStakingNewContractEvent(ctx, event)
+    .asV4;
+  return {
+    developer: getSubstrateAccountAddress(developer),
+    contract: getContractDetails(contract)
+  };
+}
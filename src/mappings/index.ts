@@ -1,7 +1,35 @@
 export {
   handleErc20Transfer,
+  handleWrappedTokenDeposit,
+  handleWrappedTokenWithdrawal,
   handleErc721Transfer,
+  handleErc721ConsecutiveTransfer,
   handleErc1155TransferBatch,
   handleErc1155TransferSingle
 } from './transfers';
-export { handleErc1155UriChanged } from './uriUpdateActions';
+export {
+  handleErc1155UriChanged,
+  handleMetadataUpdate,
+  handleBatchMetadataUpdate
+} from './uriUpdateActions';
+export {
+  handleErc20Approval,
+  handleErc721Approval,
+  handleApprovalForAll
+} from './approvals';
+export {
+  handleXc20AssetTransfer,
+  handleXc20AssetMetadataSet,
+  getEvmXc20TransferKeys
+} from './xc20Assets';
+export { handleNativeTransfer, getEvmTransactions } from './nativeToken';
+export { handleContractCreated } from './contractDeployments';
+export {
+  handleDappsStakingStake,
+  handleDappsStakingNominationTransfer,
+  handleDappsStakingReward,
+  handleDappsStakingNewContract
+} from './dappsStaking';
+export { reconcileBalances } from './balanceCorrections';
+export { syncAllowances } from './allowances';
+export { readRequestedTokenUris } from './nfTokenUris';
@@ -0,0 +1 @@
+export { createIndexingAnomaly } from './indexingAnomalies';
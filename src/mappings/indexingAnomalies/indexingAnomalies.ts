@@ -0,0 +1,56 @@
+import {
+  Account,
+  Collection,
+  FToken,
+  IndexingAnomaly,
+  IndexingAnomalyType,
+  NfToken
+} from '../../model';
+import { blockContextManager } from '../utils/blockContextUtils';
+import { getIndexingAnomalyEntityId } from '../utils/common';
+
+export function createIndexingAnomaly({
+  anomalyType,
+  account = null,
+  fToken = null,
+  nfToken = null,
+  collection = null,
+  previousAmount,
+  amount,
+  details
+}: {
+  anomalyType: IndexingAnomalyType;
+  account?: Account | null;
+  fToken?: FToken | null;
+  nfToken?: NfToken | null;
+  collection?: Collection | null;
+  previousAmount: bigint;
+  amount: bigint;
+  details: string;
+}): IndexingAnomaly {
+  const block = blockContextManager.getCurrentBlock();
+  const eventId = blockContextManager.getCurrentEventId();
+  const subjectIds = [account, fToken, nfToken, collection].flatMap((subject) =>
+    subject ? [subject.id] : []
+  );
+
+  return new IndexingAnomaly({
+    id: getIndexingAnomalyEntityId(
+      eventId ?? block.height.toString(),
+      anomalyType,
+      subjectIds
+    ),
+    anomalyType,
+    blockNumber: BigInt(block.height),
+    timestamp: new Date(block.timestamp),
+    eventId,
+    account,
+    fToken,
+    nfToken,
+    collection,
+    previousAmount,
+    amount,
+    computedAmount: previousAmount - amount,
+    details
+  });
+}
@@ -0,0 +1,2 @@
+export { handleNativeTransfer } from './nativeToken';
+export { getEvmTransactions } from './utils';
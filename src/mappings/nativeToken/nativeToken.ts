@@ -0,0 +1,68 @@
+import { BigNumber } from 'ethers';
+import * as utils from '../utils';
+import type { Context } from '../../processor';
+import { TransferDirection } from '../../model';
+import { EvmTransactionDetails, TokenBalanceAction } from '../../common/types';
+import { NATIVE_TOKEN_ADDRESS } from '../utils/common';
+import { decodeNativeTransfer, getEvmAttributedTransfer } from './utils';
+
+export async function handleNativeTransfer(
+  ctx: Context,
+  evmTransactions: Map<string, EvmTransactionDetails>
+): Promise<void> {
+  const block = utils.common.blockContextManager.getCurrentBlock();
+  const event = utils.common.blockContextManager.getCurrentSubstrateEvent();
+  const evmTransaction = event.extrinsic
+    ? evmTransactions.get(event.extrinsic.id)
+    : undefined;
+
+  const { from, to, amount } = getEvmAttributedTransfer(
+    decodeNativeTransfer(ctx, event),
+    evmTransaction
+  );
+  const fromAddress = utils.entity.accountsManager.getCanonicalAddress(from);
+  const toAddress = utils.entity.accountsManager.getCanonicalAddress(to);
+
+  let txnHash = block.hash;
+  if (evmTransaction) {
+    txnHash = evmTransaction.txnHash;
+  } else if (event.extrinsic) {
+    txnHash = event.extrinsic.hash;
+  }
+
+  const transfer = await utils.entity.ftTransferManager.getOrCreate({
+    amount: BigNumber.from(amount.toString()),
+    from: fromAddress,
+    to: toAddress,
+    contractAddress: NATIVE_TOKEN_ADDRESS,
+    txnHash
+  });
+
+  await utils.entity.accountsFtTransferManager.getOrCreate({
+    account: transfer.from,
+    direction: TransferDirection.From,
+    transfer
+  });
+
+  await utils.entity.accountFTokenBalancesManager.updateFTokenBalance({
+    account: transfer.from,
+    token: transfer.token,
+    contractAddress: NATIVE_TOKEN_ADDRESS,
+    amount,
+    action: TokenBalanceAction.sub
+  });
+
+  await utils.entity.accountsFtTransferManager.getOrCreate({
+    account: transfer.to,
+    direction: TransferDirection.To,
+    transfer
+  });
+
+  await utils.entity.accountFTokenBalancesManager.updateFTokenBalance({
+    account: transfer.to,
+    token: transfer.token,
+    contractAddress: NATIVE_TOKEN_ADDRESS,
+    amount,
+    action: TokenBalanceAction.add
+  });
+}
@@ -0,0 +1,179 @@
+import { utils as ethersUtils } from 'ethers';
+import {
+  BalancesDepositEvent,
+  BalancesTransferEvent,
+  BalancesWithdrawEvent,
+  EthereumExecutedEvent,
+  EvmBalanceDepositEvent,
+  EvmBalanceWithdrawEvent
+} from '../../types/generated/events';
+import { ChainContext, Event } from '../../types/generated/support';
+import type { Item } from '../../processor';
+import {
+  EvmTransactionDetails,
+  NativeTransferDetails
+} from '../../common/types';
+import {
+  EMPTY_ADDRESS,
+  getEvmMappedAccountAddress,
+  getSubstrateAccountAddress,
+  normalizeAddress
+} from '../utils/common';
+
+function getEvmAddress(address: Uint8Array): string {
+  return normalizeAddress(ethersUtils.hexlify(address));
+}
+
+export function decodeNativeTransfer(
+  ctx: ChainContext,
+  event: Event
+): NativeTransferDetails {
+  switch (event.name) {
+    case 'Balances.Transfer': {
+      const transferEvent = new BalancesTransferEvent(ctx, event);
+      const [from, to, amount] = transferEvent.isV1
+        ? transferEvent.asV1
+        : [
+            transferEvent.asV3.from,
+            transferEvent.asV3.to,
+            transferEvent.asV3.amount
+          ];
+      return {
+        from: getSubstrateAccountAddress(from),
+        to: getSubstrateAccountAddress(to),
+        amount
+      };
+    }
+    case 'Balances.Deposit': {
+      const depositEvent = new BalancesDepositEvent(ctx, event);
+      const [who, amount] = depositEvent.isV1
+        ? depositEvent.asV1
+        : [depositEvent.asV3.who, depositEvent.asV3.amount];
+      return {
+        from: EMPTY_ADDRESS,
+        to: getSubstrateAccountAddress(who),
+        amount
+      };
+    }
+    case 'Balances.Withdraw': {
+      const { who, amount } = new BalancesWithdrawEvent(ctx, event).asV3;
+      return {
+        from: getSubstrateAccountAddress(who),
+        to: EMPTY_ADDRESS,
+        amount
+      };
+    }
+    default:
+      throw new Error(`Event ${event.name} is not native token transfer`);
+  }
+}
+
+function decodeEthereumExecuted(
+  ctx: ChainContext,
+  event: Event
+): { from: string; to: string; txnHash: string } {
+  const executedEvent = new EthereumExecutedEvent(ctx, event);
+  let data = null;
+
+  if (executedEvent.isV1) {
+    data = executedEvent.asV1;
+  } else if (executedEvent.isV9) {
+    data = executedEvent.asV9;
+  } else if (executedEvent.isV15) {
+    data = executedEvent.asV15;
+  } else if (executedEvent.isV23) {
+    data = executedEvent.asV23;
+  } else {
+    data = executedEvent.asV30;
+  }
+  const [from, to, txnHash] = data;
+
+  return {
+    from: getEvmAddress(from),
+    to: getEvmAddress(to),
+    txnHash: ethersUtils.hexlify(txnHash)
+  };
+}
+
+/**
+ * Native token of EVM address is held by its mapped Substrate account, so
+ * Balances pallet events of EVM transactions contain mapped accounts only.
+ * Returned details of EVM transactions by extrinsic id are used for
+ * attribution of these events to EVM addresses and transaction hashes.
+ */
+export function getEvmTransactions(
+  ctx: ChainContext,
+  items: Item[]
+): Map<string, EvmTransactionDetails> {
+  const transactions = new Map<string, EvmTransactionDetails>();
+  const getTransaction = (
+    extrinsicId: string,
+    txnHash: string
+  ): EvmTransactionDetails => {
+    const transaction = transactions.get(extrinsicId) ?? {
+      txnHash,
+      from: null,
+      to: null,
+      accounts: new Map<string, string>()
+    };
+    transactions.set(extrinsicId, transaction);
+    return transaction;
+  };
+  const addAccount = (
+    transaction: EvmTransactionDetails,
+    address: string
+  ): void => {
+    transaction.accounts.set(getEvmMappedAccountAddress(address), address);
+  };
+
+  for (const item of items) {
+    switch (item.name) {
+      case 'Ethereum.Executed': {
+        if (item.event.extrinsic) {
+          const { from, to, txnHash } = decodeEthereumExecuted(ctx, item.event);
+          const transaction = getTransaction(item.event.extrinsic.id, txnHash);
+          transaction.txnHash = txnHash;
+          transaction.from = from;
+          transaction.to = to;
+          addAccount(transaction, from);
+          addAccount(transaction, to);
+        }
+        break;
+      }
+      case 'EVM.BalanceDeposit':
+      case 'EVM.BalanceWithdraw': {
+        if (item.event.extrinsic) {
+          const [, address] =
+            item.name === 'EVM.BalanceDeposit'
+              ? new EvmBalanceDepositEvent(ctx, item.event).asV1
+              : new EvmBalanceWithdrawEvent(ctx, item.event).asV1;
+          addAccount(
+            getTransaction(item.event.extrinsic.id, item.event.extrinsic.hash),
+            getEvmAddress(address)
+          );
+        }
+        break;
+      }
+      default:
+    }
+  }
+
+  return transactions;
+}
+
+/**
+ * Replace mapped Substrate accounts of the transfer by EVM addresses of
+ * the transaction.
+ */
+export function getEvmAttributedTransfer(
+  transfer: NativeTransferDetails,
+  transaction: EvmTransactionDetails | undefined
+): NativeTransferDetails {
+  if (!transaction) return transfer;
+
+  return {
+    from: transaction.accounts.get(transfer.from) ?? transfer.from,
+    to: transaction.accounts.get(transfer.to) ?? transfer.to,
+    amount: transfer.amount
+  };
+}
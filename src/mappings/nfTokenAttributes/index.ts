@@ -0,0 +1,2 @@
+export { createNfTokenAttribute } from './nfTokenAttributes';
+export { normalizeNfTokenAttributes } from './utils';
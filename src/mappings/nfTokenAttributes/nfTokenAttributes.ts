@@ -0,0 +1,31 @@
+import {
+  Collection,
+  CollectionTrait,
+  NfToken,
+  NfTokenAttribute
+} from '../../model';
+import { getNfTokenAttributeEntityId } from '../utils/common';
+
+export function createNfTokenAttribute({
+  token,
+  collection,
+  trait,
+  index,
+  displayType
+}: {
+  token: NfToken;
+  collection: Collection;
+  trait: CollectionTrait;
+  index: number;
+  displayType: string | null;
+}): NfTokenAttribute {
+  return new NfTokenAttribute({
+    id: getNfTokenAttributeEntityId(token.id, index),
+    token,
+    collection,
+    trait,
+    traitType: trait.traitType,
+    value: trait.value,
+    displayType
+  });
+}
@@ -0,0 +1,72 @@
+import { NfTokenAttributeDetails } from '../../common/types';
+import { getNfTokenAttributeKey } from '../utils/common';
+
+const MAX_ATTRIBUTES_NUMBER = 100;
+const MAX_ATTRIBUTE_FIELD_LENGTH = 200;
+
+function getAttributeField(value: unknown): string | null {
+  if (
+    typeof value !== 'string' &&
+    typeof value !== 'number' &&
+    typeof value !== 'boolean'
+  )
+    return null;
+
+  const field = String(value).trim();
+
+  return field.length > 0 && field.length <= MAX_ATTRIBUTE_FIELD_LENGTH
+    ? field
+    : null;
+}
+
+/**
+ * Convert metadata "attributes" into the list of unique trait type/value
+ * pairs. Both OpenSea style list of "{trait_type, value, display_type}"
+ * objects and plain "{<trait_type>: <value>}" object are supported.
+ */
+export function normalizeNfTokenAttributes(
+  rawAttributes: unknown
+): NfTokenAttributeDetails[] {
+  let items: { traitType: unknown; value: unknown; displayType: unknown }[] =
+    [];
+
+  if (Array.isArray(rawAttributes)) {
+    items = rawAttributes
+      .filter(
+        (item): item is Record<string, unknown> =>
+          !!item && typeof item === 'object' && !Array.isArray(item)
+      )
+      .map((item) => ({
+        traitType: item.trait_type ?? item.traitType,
+        value: item.value,
+        displayType: item.display_type ?? null
+      }));
+  } else if (rawAttributes && typeof rawAttributes === 'object') {
+    items = Object.entries(rawAttributes).map(([traitType, value]) => ({
+      traitType,
+      value,
+      displayType: null
+    }));
+  }
+
+  const attributes = new Map<string, NfTokenAttributeDetails>();
+
+  for (const item of items) {
+    const traitType = getAttributeField(item.traitType);
+    const value = getAttributeField(item.value);
+
+    if (
+      traitType &&
+      value &&
+      !attributes.has(getNfTokenAttributeKey(traitType, value))
+    ) {
+      attributes.set(getNfTokenAttributeKey(traitType, value), {
+        traitType,
+        value,
+        displayType: getAttributeField(item.displayType)
+      });
+    }
+  }
+
+  return [...attributes.values()].slice(0, MAX_ATTRIBUTES_NUMBER);
+}
@@ -0,0 +1,6 @@
+export { createNfTokenMetadata } from './nfTokenMetadata';
+export {
+  normalizeTokenUri,
+  fetchNfTokenMetadata,
+  getNfTokenMetadataErrorCode
+} from './utils';
@@ -0,0 +1,30 @@
+import { NfToken, NfTokenMetadata, NfTokenMetadataStatus } from '../../model';
+
+export function createNfTokenMetadata({
+  token,
+  rawUri,
+  uri
+}: {
+  token: NfToken;
+  rawUri: string | null;
+  uri: string | null;
+}): NfTokenMetadata {
+  const now = new Date();
+
+  return new NfTokenMetadata({
+    id: token.id,
+    token,
+    rawUri,
+    uri,
+    name: null,
+    description: null,
+    image: null,
+    animationUrl: null,
+    attributes: null,
+    status: NfTokenMetadataStatus.PENDING,
+    attempts: 0,
+    error: null,
+    nextAttemptAt: now,
+    updatedAt: now
+  });
+}
@@ -0,0 +1,89 @@
+import { NfTokenMetadataError } from '../../common/types';
+import {
+  getNfTokenMetadataErrorCode,
+  isPrivateAddress,
+  NfTokenMetadataFetchError,
+  normalizeTokenUri
+} from './utils';
+
+jest.mock('../../config', () => ({
+  ...jest.requireActual<Record<string, unknown>>('../../config'),
+  nfTokenMetadataIpfsGateway: 'https://ipfs.io/ipfs/',
+  nfTokenMetadataArweaveGateway: 'https://arweave.net'
+}));
+
+describe('normalizeTokenUri', () => {
+  it('resolves IPFS and Arweave URIs with gateways', () => {
+    expect(normalizeTokenUri('ipfs://QmHash/1.json', '1')).toBe(
+      'https://ipfs.io/ipfs/QmHash/1.json'
+    );
+    expect(normalizeTokenUri('ipfs://ipfs/QmHash/1.json', '1')).toBe(
+      'https://ipfs.io/ipfs/QmHash/1.json'
+    );
+    expect(normalizeTokenUri(' ar://TxId ', '1')).toBe(
+      'https://arweave.net/TxId'
+    );
+  });
+
+  it('keeps HTTP and data URIs', () => {
+    expect(normalizeTokenUri('https://example.com/1.json', '1')).toBe(
+      'https://example.com/1.json'
+    );
+    expect(normalizeTokenUri('data:application/json,{}', '1')).toBe(
+      'data:application/json,{}'
+    );
+  });
+
+  it('substitutes ERC1155 "{id}" placeholder with padded hex ID', () => {
+    expect(normalizeTokenUri('https://example.com/{id}.json', '255')).toBe(
+      `https://example.com/${'ff'.padStart(64, '0')}.json`
+    );
+  });
+
+  it('rejects unsupported schemes', () => {
+    expect(normalizeTokenUri('file:///etc/passwd', '1')).toBeNull();
+    expect(normalizeTokenUri('QmHash', '1')).toBeNull();
+  });
+});
+
+describe('isPrivateAddress', () => {
+  it('detects private and reserved IPv4 addresses', () => {
+    [
+      '0.0.0.0',
+      '10.1.2.3',
+      '100.64.0.1',
+      '127.0.0.1',
+      '169.254.169.254',
+      '172.16.0.1',
+      '192.168.1.1'
+    ].forEach((address) => expect(isPrivateAddress(address)).toBe(true));
+  });
+
+  it('detects private IPv6 and IPv4-mapped addresses', () => {
+    ['::1', 'fc00::1', 'fe80::1', '::ffff:127.0.0.1'].forEach((address) =>
+      expect(isPrivateAddress(address)).toBe(true)
+    );
+  });
+
+  it('allows public addresses', () => {
+    ['1.1.1.1', '8.8.8.8', '2606:4700:4700::1111', '::ffff:8.8.8.8'].forEach(
+      (address) => expect(isPrivateAddress(address)).toBe(false)
+    );
+  });
+});
+
+describe('getNfTokenMetadataErrorCode', () => {
+  it('maps errors to generic codes', () => {
+    expect(
+      getNfTokenMetadataErrorCode(
+        new NfTokenMetadataFetchError(NfTokenMetadataError.timeout, 'timeout')
+      )
+    ).toBe(NfTokenMetadataError.timeout);
+    expect(getNfTokenMetadataErrorCode(new SyntaxError('Unexpected'))).toBe(
+      NfTokenMetadataError.invalidJson
+    );
+    expect(getNfTokenMetadataErrorCode(new Error('ECONNRESET'))).toBe(
+      NfTokenMetadataError.requestFailed
+    );
+  });
+});
@@ -0,0 +1,346 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { BigNumber } from 'ethers';
+import {
+  nfTokenMetadataArweaveGateway,
+  nfTokenMetadataFetchTimeout,
+  nfTokenMetadataIpfsGateway
+} from '../../config';
+import {
+  NfTokenMetadataDetails,
+  NfTokenMetadataError
+} from '../../common/types';
+
+const MAX_RESPONSE_SIZE = 1024 * 1024;
+const MAX_REDIRECTS = 3;
+
+/**
+ * Token URIs are set by contract owners, so hosts of arbitrary URIs must not
+ * resolve to loopback, private or link-local addresses of the indexer
+ * network. Configured gateways are trusted, as they may be a local mock.
+ */
+const PRIVATE_ADDRESSES = new net.BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3]
+].forEach(([prefix, length]) =>
+  PRIVATE_ADDRESSES.addSubnet(prefix as string, length as number, 'ipv4')
+);
+[
+  ['::', 127],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+].forEach(([prefix, length]) =>
+  PRIVATE_ADDRESSES.addSubnet(prefix as string, length as number, 'ipv6')
+);
+
+const TRUSTED_HOSTS = new Set(
+  [nfTokenMetadataIpfsGateway, nfTokenMetadataArweaveGateway].map(
+    (gateway) => new URL(gateway).host
+  )
+);
+
+export class NfTokenMetadataFetchError extends Error {
+  code: NfTokenMetadataError;
+
+  constructor(code: NfTokenMetadataError, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+/**
+ * Error code to be stored instead of the error message.
+ */
+export function getNfTokenMetadataErrorCode(
+  error: unknown
+): NfTokenMetadataError {
+  if (error instanceof NfTokenMetadataFetchError) return error.code;
+  if (error instanceof SyntaxError) return NfTokenMetadataError.invalidJson;
+  return NfTokenMetadataError.requestFailed;
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const ipv4Mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (ipv4Mapped) return PRIVATE_ADDRESSES.check(ipv4Mapped[1], 'ipv4');
+
+  return PRIVATE_ADDRESSES.check(
+    address,
+    net.isIPv6(address) ? 'ipv6' : 'ipv4'
+  );
+}
+
+/**
+ * DNS lookup of request socket, which rejects private addresses. Resolved
+ * address is checked right before connection, so a host can't pass
+ * the check and then be re-resolved to a different address.
+ */
+function lookupPublicAddress(
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (...args: unknown[]) => void
+): void {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error);
+      return;
+    }
+    const privateAddress = addresses.find(({ address }) =>
+      isPrivateAddress(address)
+    );
+    if (privateAddress) {
+      callback(
+        new NfTokenMetadataFetchError(
+          NfTokenMetadataError.blockedHost,
+          `${hostname} resolves to private address ${privateAddress.address}`
+        )
+      );
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+      return;
+    }
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+/**
+ * ERC1155 clients must replace "{id}" with lowercase hex token ID, padded
+ * with zeros to 64 characters.
+ */
+function substituteTokenIdPlaceholder(uri: string, nativeId: string): string {
+  if (!uri.includes('{id}')) return uri;
+
+  return uri.replace(
+    /{id}/g,
+    BigNumber.from(nativeId).toHexString().substring(2).padStart(64, '0')
+  );
+}
+
+function withGateway(gateway: string, path: string): string {
+  return `${gateway.endsWith('/') ? gateway : `${gateway}/`}${path}`;
+}
+
+/**
+ * Convert raw token URI into the URI which can be fetched or decoded.
+ * Returns null for unsupported schemes.
+ */
+export function normalizeTokenUri(
+  rawUri: string,
+  nativeId: string
+): string | null {
+  const uri = substituteTokenIdPlaceholder(rawUri.trim(), nativeId);
+
+  if (uri.startsWith('ipfs://')) {
+    return withGateway(
+      nfTokenMetadataIpfsGateway,
+      uri.substring('ipfs://'.length).replace(/^ipfs\//, '')
+    );
+  }
+  if (uri.startsWith('ar://')) {
+    return withGateway(
+      nfTokenMetadataArweaveGateway,
+      uri.substring('ar://'.length)
+    );
+  }
+  if (
+    uri.startsWith('http://') ||
+    uri.startsWith('https://') ||
+    uri.startsWith('data:application/json')
+  ) {
+    return uri;
+  }
+
+  return null;
+}
+
+function decodeDataUri(uri: string): unknown {
+  const separatorIndex = uri.indexOf(',');
+  if (separatorIndex < 0)
+    throw new NfTokenMetadataFetchError(
+      NfTokenMetadataError.invalidJson,
+      'Malformed data URI'
+    );
+
+  const mediaType = uri.substring(0, separatorIndex);
+  const payload = uri.substring(separatorIndex + 1);
+
+  return JSON.parse(
+    mediaType.endsWith(';base64')
+      ? Buffer.from(payload, 'base64').toString('utf8')
+      : decodeURIComponent(payload)
+  );
+}
+
+function requestJson(url: string, redirectsLeft: number): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const { protocol, host, hostname } = new URL(url);
+    const isTrustedHost = TRUSTED_HOSTS.has(host);
+    const ipHostname = hostname.replace(/^\[(.*)\]$/, '$1');
+
+    if (
+      !['http:', 'https:'].includes(protocol) ||
+      (!isTrustedHost &&
+        net.isIP(ipHostname) !== 0 &&
+        isPrivateAddress(ipHostname))
+    ) {
+      reject(
+        new NfTokenMetadataFetchError(
+          NfTokenMetadataError.blockedHost,
+          `Request to ${url} is not allowed`
+        )
+      );
+      return;
+    }
+
+    const client = protocol === 'https:' ? https : http;
+    const request = client.get(
+      url,
+      {
+        timeout: nfTokenMetadataFetchTimeout * 1000,
+        headers: { accept: 'application/json' },
+        lookup: isTrustedHost
+          ? undefined
+          : (lookupPublicAddress as unknown as net.LookupFunction)
+      },
+      (response) => {
+        const { statusCode = 0, headers } = response;
+
+        if (statusCode >= 300 && statusCode < 400 && headers.location) {
+          response.resume();
+          if (redirectsLeft <= 0) {
+            reject(
+              new NfTokenMetadataFetchError(
+                NfTokenMetadataError.tooManyRedirects,
+                `Too many redirects for ${url}`
+              )
+            );
+            return;
+          }
+          requestJson(
+            new URL(headers.location, url).toString(),
+            redirectsLeft - 1
+          )
+            .then(resolve)
+            .catch(reject);
+          return;
+        }
+        if (statusCode !== 200) {
+          response.resume();
+          reject(
+            new NfTokenMetadataFetchError(
+              NfTokenMetadataError.httpStatus,
+              `Request to ${url} failed with status ${statusCode}`
+            )
+          );
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        let size = 0;
+        response.on('data', (chunk: Buffer) => {
+          size += chunk.length;
+          if (size > MAX_RESPONSE_SIZE) {
+            request.destroy(
+              new NfTokenMetadataFetchError(
+                NfTokenMetadataError.responseTooLarge,
+                `Response of ${url} exceeds ${MAX_RESPONSE_SIZE} bytes`
+              )
+            );
+            return;
+          }
+          chunks.push(chunk);
+        });
+        response.on('end', () => {
+          try {
+            resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+          } catch (error) {
+            reject(error);
+          }
+        });
+        response.on('error', reject);
+      }
+    );
+
+    request.on('timeout', () => {
+      request.destroy(
+        new NfTokenMetadataFetchError(
+          NfTokenMetadataError.timeout,
+          `Request to ${url} timed out`
+        )
+      );
+    });
+    request.on('error', reject);
+  });
+}
+
+/**
+ * Postgres rejects null bytes in both "text" and "jsonb" values.
+ */
+function clearNullBytes(value: unknown): unknown {
+  if (typeof value === 'string') return value.replace(/\0/g, '');
+  if (Array.isArray(value)) return value.map(clearNullBytes);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        clearNullBytes(key),
+        clearNullBytes(item)
+      ])
+    );
+  }
+  return value;
+}
+
+function getStringField(
+  metadata: Record<string, unknown>,
+  ...keys: string[]
+): string | null {
+  for (const key of keys) {
+    const value = metadata[key];
+    if (typeof value === 'string') return value;
+  }
+  return null;
+}
+
+/**
+ * Fetch (or decode) metadata JSON by normalised URI and pick known fields.
+ */
+export async function fetchNfTokenMetadata(
+  uri: string
+): Promise<NfTokenMetadataDetails> {
+  const rawMetadata = uri.startsWith('data:')
+    ? decodeDataUri(uri)
+    : await requestJson(uri, MAX_REDIRECTS);
+
+  if (
+    !rawMetadata ||
+    typeof rawMetadata !== 'object' ||
+    Array.isArray(rawMetadata)
+  )
+    throw new NfTokenMetadataFetchError(
+      NfTokenMetadataError.invalidJson,
+      'Metadata is not a JSON object'
+    );
+
+  const metadata = clearNullBytes(rawMetadata) as Record<string, unknown>;
+
+  return {
+    name: getStringField(metadata, 'name'),
+    description: getStringField(metadata, 'description'),
+    image: getStringField(metadata, 'image', 'image_url'),
+    animationUrl: getStringField(metadata, 'animation_url'),
+    attributes: metadata.attributes ?? metadata.properties ?? null
+  };
+}
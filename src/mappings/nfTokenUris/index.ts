@@ -0,0 +1 @@
+export { readRequestedTokenUris } from './nfTokenUris';
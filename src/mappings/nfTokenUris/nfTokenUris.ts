@@ -0,0 +1,17 @@
+import type { Context } from '../../processor';
+import * as utils from '../utils';
+
+/**
+ * URIs of tokens, which have been created without URI, are read in the end
+ * of the batch, so they match the state at the end of the last block of the
+ * batch.
+ */
+export async function readRequestedTokenUris(ctx: Context): Promise<void> {
+  if (ctx.blocks.length === 0) return;
+
+  utils.common.blockContextManager.init(
+    ctx.blocks[ctx.blocks.length - 1].header
+  );
+  await utils.entity.nfTokenMetadataManager.readRequestedUris();
+  utils.common.blockContextManager.resetBlockContext();
+}
@@ -0,0 +1 @@
+export { createOperatorApproval } from './operatorApprovals';
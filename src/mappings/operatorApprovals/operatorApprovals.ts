@@ -0,0 +1,27 @@
+import { Account, Collection, OperatorApproval } from '../../model';
+import { blockContextManager } from '../utils/blockContextUtils';
+import { getOperatorApprovalEntityId } from '../utils/common';
+
+export function createOperatorApproval({
+  owner,
+  operator,
+  collection,
+  approved
+}: {
+  owner: Account;
+  operator: Account;
+  collection: Collection;
+  approved: boolean;
+}): OperatorApproval {
+  const block = blockContextManager.getCurrentBlock();
+
+  return new OperatorApproval({
+    id: getOperatorApprovalEntityId(collection.id, owner.id, operator.id),
+    owner,
+    operator,
+    collection,
+    approved,
+    updatedAt: new Date(block.timestamp),
+    updatedAtBlock: BigInt(block.height)
+  });
+}
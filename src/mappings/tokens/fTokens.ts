@@ -1,26 +1,100 @@
-import { ContractStandard, FToken } from '../../model';
-import { Context } from '../../processor';
-import { getTokenDetails } from './utils';
+import {
+  ContractCapabilities,
+  ContractDeployment,
+  ContractStandard,
+  FToken,
+  FTokenBehaviour
+} from '../../model';
+import type { Context } from '../../processor';
+import {
+  getFTokenTotalSupply,
+  getNativeTokenTotalSupply,
+  getTokenDetails
+} from './utils';
+import {
+  nativeTokenDecimals,
+  nativeTokenName,
+  nativeTokenSymbol
+} from '../../config';
+import { NATIVE_TOKEN_ADDRESS } from '../utils/common';
+import * as utils from '../utils';
 
 export async function createFToken({
   contractAddress,
   contractStandard,
+  deployment = null,
+  capabilities = null,
   ctx
 }: {
   contractAddress: string;
   contractStandard: ContractStandard;
+  deployment?: ContractDeployment | null;
+  capabilities?: ContractCapabilities | null;
   ctx: Context;
 }): Promise<FToken> {
+  const block = utils.common.blockContextManager.getCurrentBlock();
   const { name, symbol, decimals } = await getTokenDetails({
     contractAddress,
     contractStandard,
     ctx
   });
+  /**
+   * Token can be created by squid after some transfers have been missed
+   * (e.g. squid is not started from the first block), so initial supply is
+   * taken from the state before current block. Transfers of current block
+   * are applied on top of it.
+   */
+  const totalSupply = await getFTokenTotalSupply({
+    contractAddress,
+    blockHeight: Math.max(block.height - 1, 0),
+    ctx
+  });
 
   return new FToken({
     id: contractAddress,
     name,
     symbol,
-    decimals
+    decimals,
+    totalSupply: totalSupply ?? BigInt(0),
+    holderCount: 0,
+    transferCount: BigInt(0),
+    mintedTotal: BigInt(0),
+    burnedTotal: BigInt(0),
+    supplyCheckedAtBlock: totalSupply !== null ? BigInt(block.height) : null,
+    balanceCorrectionCount: 0,
+    isNonStandard: false,
+    behaviour: FTokenBehaviour.STANDARD,
+    behaviourProbeCount: 0,
+    deployment,
+    capabilities
+  });
+}
+
+export async function createNativeFToken({
+  ctx
+}: {
+  ctx: Context;
+}): Promise<FToken> {
+  const block = utils.common.blockContextManager.getCurrentBlock();
+  const totalSupply = await getNativeTokenTotalSupply({
+    blockHash: block.parentHash,
+    ctx
+  });
+
+  return new FToken({
+    id: NATIVE_TOKEN_ADDRESS,
+    name: nativeTokenName,
+    symbol: nativeTokenSymbol,
+    decimals: nativeTokenDecimals,
+    totalSupply: totalSupply ?? BigInt(0),
+    holderCount: 0,
+    transferCount: BigInt(0),
+    mintedTotal: BigInt(0),
+    burnedTotal: BigInt(0),
+    supplyCheckedAtBlock: totalSupply !== null ? BigInt(block.height) : null,
+    balanceCorrectionCount: 0,
+    isNonStandard: false,
+    behaviour: FTokenBehaviour.STANDARD,
+    behaviourProbeCount: 0
   });
-}
\ No newline at end of file
+}
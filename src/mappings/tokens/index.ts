@@ -1,2 +1,2 @@
-export { createFToken } from './fTokens';
-export { createNfToken } from './nfTokens';
+export { createFToken, createNativeFToken } from './fTokens';
+export { createNfToken, createConsecutiveNfTokens } from './nfTokens';
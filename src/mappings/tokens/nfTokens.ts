@@ -1,6 +1,6 @@
 import { BigNumber } from 'ethers';
 import { ContractStandard, NfToken, Account } from '../../model';
-import { Context } from '../../processor';
+import type { Context } from '../../processor';
 import * as utils from '../utils';
 
 import { getTokenDetails } from './utils';
@@ -41,8 +41,57 @@ export async function createNfToken({
     name,
     symbol,
     uri,
-    collection
+    collection,
+    rarityScore: null
   });
 }
 
+/**
+ * Create ERC721 tokens of EIP-2309 "ConsecutiveTransfer" range. Name and
+ * symbol are requested once for the whole range. Tokens are created without
+ * URI, it's read later, when token metadata is resolved.
+ */
+export async function createConsecutiveNfTokens({
+  ids,
+  contractAddress,
+  owner,
+  ctx
+}: {
+  ids: { id: string; nativeId: BigNumber }[];
+  contractAddress: string;
+  owner: Account;
+  ctx: Context;
+}): Promise<NfToken[]> {
+  if (ids.length === 0) return [];
 
+  const { name, symbol } = await getTokenDetails({
+    contractAddress,
+    contractStandard: ContractStandard.ERC721,
+    ctx
+  });
+
+  const collection = await utils.entity.collectionManager.getOrCreate({
+    id: contractAddress,
+    contractStandard: ContractStandard.ERC721
+  });
+
+  const tokens: NfToken[] = [];
+  for (const { id, nativeId } of ids) {
+    tokens.push(
+      new NfToken({
+        nativeId: nativeId.toString(),
+        currentOwner: owner,
+        isBurned: false,
+        amount: BigInt(0),
+        id,
+        name,
+        symbol,
+        uri: null,
+        collection,
+        rarityScore: null
+      })
+    );
+  }
+
+  return tokens;
+}
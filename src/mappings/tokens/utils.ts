@@ -1,14 +1,23 @@
 import { BigNumber } from 'ethers';
 import assert from 'assert';
-import { ContractStandard, FToken } from '../../model';
-import { Context } from '../../processor';
 import { addTimeout } from '@subsquid/util-timeout';
-import { contractCallTimeout } from '../../config';
-import { TokenDetails } from '../../common/types';
+import { ContractStandard } from '../../model';
+import type { Context } from '../../processor';
+import {
+  contractCallTimeout,
+  nfTokenRoyaltyUpdateInterval
+} from '../../config';
+import { RoyaltyDetails, TokenDetails } from '../../common/types';
+import {
+  getEvmMappedAccountAddress,
+  isEvmAddress,
+  normalizeAddress
+} from '../utils/common';
 
 import * as contracts from '../contracts';
+import * as utils from '../utils';
 
-function clearNullBytes(rawStr: string): string {
+export function clearNullBytes(rawStr: string): string {
   /**
    * We need replace null byte in string value to prevent error:
    * "QueryFailedError: invalid byte sequence for encoding \"UTF8\": 0x00\n    at PostgresQueryRunner.query ..."
@@ -32,6 +41,32 @@ function getDecoratedCallResult(rawValue: string | null): string | null {
   return decoratedValue ? clearNullBytes(decoratedValue) : decoratedValue;
 }
 
+/**
+ * Metadata calls are skipped for ERC721/ERC1155 contracts, which implement
+ * ERC-165 but don't support metadata extension of their standard.
+ */
+export async function isTokenMetadataSupported({
+  contractAddress,
+  contractStandard
+}: {
+  contractAddress: string;
+  contractStandard: ContractStandard;
+}): Promise<boolean> {
+  const capabilities =
+    contractStandard === ContractStandard.ERC20
+      ? null
+      : await utils.entity.contractCapabilitiesManager.getOrCreate(
+          contractAddress
+        );
+  return (
+    !capabilities ||
+    !capabilities.erc165 ||
+    (contractStandard === ContractStandard.ERC721
+      ? capabilities.erc721Metadata
+      : capabilities.erc1155MetadataUri)
+  );
+}
+
 export async function getTokenDetails({
   tokenId = null,
   contractAddress,
@@ -68,6 +103,11 @@ export async function getTokenDetails({
 
   if (!contractInst) throw new Error('contractInst is null');
 
+  const isMetadataSupported = await isTokenMetadataSupported({
+    contractAddress,
+    contractStandard
+  });
+
   let name: string | null = null;
   let symbol: string | null = null;
   let decimals: number | null = null;
@@ -75,7 +115,7 @@ export async function getTokenDetails({
 
   try {
     name =
-      'name' in contractInst
+      isMetadataSupported && 'name' in contractInst
         ? await addTimeout(contractInst.name(), contractCallTimeout)
         : null;
   } catch (e) {
@@ -83,7 +123,7 @@ export async function getTokenDetails({
   }
   try {
     symbol =
-      'symbol' in contractInst
+      isMetadataSupported && 'symbol' in contractInst
         ? await addTimeout(contractInst.symbol(), contractCallTimeout)
         : null;
   } catch (e) {
@@ -98,11 +138,11 @@ export async function getTokenDetails({
     console.log(e);
   }
   try {
-    if ('uri' in contractInst && tokenId) {
+    if (isMetadataSupported && 'uri' in contractInst && tokenId) {
       uri = clearNullBytes(
         await addTimeout(contractInst.uri(tokenId), contractCallTimeout)
       );
-    } else if ('tokenURI' in contractInst && tokenId) {
+    } else if (isMetadataSupported && 'tokenURI' in contractInst && tokenId) {
       uri = clearNullBytes(
         await addTimeout(contractInst.tokenURI(tokenId), contractCallTimeout)
       );
@@ -119,6 +159,94 @@ export async function getTokenDetails({
   };
 }
 
+/**
+ * Returns current URI of ERC721 ("tokenURI") or ERC1155 ("uri") token or
+ * null, if contract call is not available.
+ */
+export async function getNfTokenUri({
+  tokenId,
+  contractAddress,
+  contractStandard,
+  ctx
+}: {
+  tokenId: BigNumber;
+  contractAddress: string;
+  contractStandard: ContractStandard;
+  ctx: Context;
+}): Promise<string | null> {
+  try {
+    const uri =
+      contractStandard === ContractStandard.ERC1155
+        ? await addTimeout(
+            contracts.getContractErc1155({ contractAddress, ctx }).uri(tokenId),
+            contractCallTimeout
+          )
+        : await addTimeout(
+            contracts
+              .getContractErc721({ contractAddress, ctx })
+              .tokenURI(tokenId),
+            contractCallTimeout
+          );
+    return clearNullBytes(uri);
+  } catch (error) {
+    console.log(error);
+    return null;
+  }
+}
+
+/**
+ * Sale price, for which royalty amount is equal to royalty in basis points.
+ */
+const ROYALTY_BASIS_POINTS_SALE_PRICE = 10000;
+
+/**
+ * Returns ERC2981 royalty of the token or null, if contract call is not
+ * available or royalty exceeds the sale price.
+ */
+export async function getRoyaltyDetails({
+  tokenId,
+  contractAddress,
+  ctx
+}: {
+  tokenId: BigNumber;
+  contractAddress: string;
+  ctx: Context;
+}): Promise<RoyaltyDetails | null> {
+  try {
+    const { receiver, royaltyAmount } = await addTimeout(
+      contracts
+        .getContractErc2981({ contractAddress, ctx })
+        .royaltyInfo(tokenId, BigNumber.from(ROYALTY_BASIS_POINTS_SALE_PRICE)),
+      contractCallTimeout
+    );
+    if (royaltyAmount.gt(ROYALTY_BASIS_POINTS_SALE_PRICE)) return null;
+
+    return {
+      receiver: normalizeAddress(receiver),
+      basisPoints: royaltyAmount.toNumber()
+    };
+  } catch (error) {
+    console.log(error);
+    return null;
+  }
+}
+
+/**
+ * Royalty is refreshed not often than once per "nfTokenRoyaltyUpdateInterval"
+ * blocks.
+ */
+export function isRoyaltyOutdated(
+  royaltyUpdatedAtBlock: bigint | null | undefined
+): boolean {
+  const block = utils.common.blockContextManager.getCurrentBlock();
+  return (
+    royaltyUpdatedAtBlock === null ||
+    royaltyUpdatedAtBlock === undefined ||
+    BigInt(block.height) - royaltyUpdatedAtBlock >=
+      BigInt(nfTokenRoyaltyUpdateInterval)
+  );
+}
+
 export async function getTokenBalanceOf({
   tokenId,
   accountAddress,
@@ -175,3 +303,152 @@ export async function getTokenBalanceOf({
 
   return BigInt(balance.toString());
 }
+
+/**
+ * Returns on-chain ERC20 "totalSupply()" as of the end of the block
+ * "blockHeight" or null, if contract call is not available.
+ */
+export async function getFTokenTotalSupply({
+  contractAddress,
+  blockHeight,
+  ctx
+}: {
+  contractAddress: string;
+  blockHeight: number;
+  ctx: Context;
+}): Promise<bigint | null> {
+  try {
+    const totalSupply = await addTimeout(
+      contracts
+        .getContractErc20({ contractAddress, blockHeight, ctx })
+        .totalSupply(),
+      contractCallTimeout
+    );
+    return BigInt(totalSupply.toString());
+  } catch (error) {
+    console.log(error);
+    return null;
+  }
+}
+
+/**
+ * Returns on-chain ERC20 "balanceOf()" of the account as of the end of the
+ * block "blockHeight" (current block by default) or null, if contract call
+ * is not available.
+ */
+export async function getFTokenBalanceOf({
+  accountAddress,
+  contractAddress,
+  blockHeight,
+  ctx
+}: {
+  accountAddress: string;
+  contractAddress: string;
+  blockHeight?: number;
+  ctx: Context;
+}): Promise<bigint | null> {
+  try {
+    const balance = await addTimeout(
+      contracts
+        .getContractErc20({ contractAddress, blockHeight, ctx })
+        .balanceOf(accountAddress),
+      contractCallTimeout
+    );
+    return BigInt(balance.toString());
+  } catch (error) {
+    console.log(error);
+    return null;
+  }
+}
+
+/**
+ * Returns on-chain ERC1155 "balanceOfBatch()" of account and token ID pairs
+ * as of the end of the current block or null, if contract call is not
+ * available.
+ */
+export async function getNfTokenBalancesOfBatch({
+  accountAddresses,
+  tokenIds,
+  contractAddress,
+  ctx
+}: {
+  accountAddresses: string[];
+  tokenIds: BigNumber[];
+  contractAddress: string;
+  ctx: Context;
+}): Promise<bigint[] | null> {
+  try {
+    const balances = await addTimeout(
+      contracts
+        .getContractErc1155({ contractAddress, ctx })
+        .balanceOfBatch(accountAddresses, tokenIds),
+      contractCallTimeout
+    );
+    return balances.map((balance) => BigInt(balance.toString()));
+  } catch (error) {
+    console.log(error);
+    return null;
+  }
+}
+
+/**
+ * Returns native token balance (free and reserved) of the account as of the
+ * block "blockHash" or zero, if storage is not available. Balance of EVM
+ * address is held by its mapped Substrate account.
+ */
+export async function getNativeTokenBalance({
+  accountAddress,
+  blockHash,
+  ctx
+}: {
+  accountAddress: string;
+  blockHash: string;
+  ctx: Context;
+}): Promise<bigint> {
+  const accountId = isEvmAddress(accountAddress)
+    ? getEvmMappedAccountAddress(accountAddress)
+    : accountAddress;
+  try {
+    const accountInfo: {
+      data: { free: bigint; reserved: bigint };
+    } | null = await addTimeout(
+      ctx._chain.getStorage(
+        blockHash,
+        'System',
+        'Account',
+        Buffer.from(accountId.substring(2), 'hex')
+      ),
+      contractCallTimeout
+    );
+
+    return accountInfo
+      ? accountInfo.data.free + accountInfo.data.reserved
+      : BigInt(0);
+  } catch (error) {
+    console.log(error);
+    return BigInt(0);
+  }
+}
+
+/**
+ * Returns native token total issuance as of the block "blockHash" or null,
+ * if storage is not available.
+ */
+export async function getNativeTokenTotalSupply({
+  blockHash,
+  ctx
+}: {
+  blockHash: string;
+  ctx: Context;
+}): Promise<bigint | null> {
+  try {
+    const totalIssuance: bigint = await addTimeout(
+      ctx._chain.getStorage(blockHash, 'Balances', 'TotalIssuance'),
+      contractCallTimeout
+    );
+    return totalIssuance;
+  } catch (error) {
+    console.log(error);
+    return null;
+  }
+}
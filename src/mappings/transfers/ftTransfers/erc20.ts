@@ -1,23 +1,42 @@
+import { BigNumber } from 'ethers';
 import * as erc20 from '../../../abi/erc20';
 import * as utils from '../../utils';
-import { TransferDirection } from '../../../model';
-import { FTokenBalanceAction } from '../../../common/types';
+import { TransferDirection, TransferType } from '../../../model';
+import { TokenBalanceAction } from '../../../common/types';
 
-export async function handleErc20Transfer(): Promise<void> {
+/**
+ * Transfer of ERC20 token of the current event contract. It's shared by
+ * "Transfer" events and events of wrapper tokens, which mint and burn
+ * without "Transfer" event.
+ */
+export async function processErc20Transfer({
+  from,
+  to,
+  amount
+}: {
+  from: string;
+  to: string;
+  amount: BigNumber;
+}): Promise<void> {
   const event = utils.common.blockContextManager.getCurrentEvent();
 
-  const {
-    from,
-    to,
-    value: amount
-  } = erc20.events['Transfer(address,address,uint256)'].decode(event.args);
-
   const transfer = await utils.entity.ftTransferManager.getOrCreate({
     amount,
     from,
-    to
+    to,
+    contractAddress: event.args.address,
+    txnHash: event.evmTxHash
   });
 
+  if (transfer.transferType === TransferType.TRANSFER) {
+    await utils.entity.fTokenManager.probeBehaviour({
+      token: transfer.token,
+      from: transfer.from.id,
+      to: transfer.to.id,
+      amount: BigInt(amount.toString())
+    });
+  }
+
   await utils.entity.accountsFtTransferManager.getOrCreate({
     account: transfer.from,
     direction: TransferDirection.From,
@@ -29,7 +48,7 @@ export async function handleErc20Transfer(): Promise<void> {
     token: transfer.token,
     contractAddress: event.args.address,
     amount: BigInt(amount.toString()),
-    action: FTokenBalanceAction.sub
+    action: TokenBalanceAction.sub
   });
 
   await utils.entity.accountsFtTransferManager.getOrCreate({
@@ -43,6 +62,25 @@ export async function handleErc20Transfer(): Promise<void> {
     token: transfer.token,
     contractAddress: event.args.address,
     amount: BigInt(amount.toString()),
-    action: FTokenBalanceAction.add
+    action: TokenBalanceAction.add
   });
+
+  if (transfer.transferType !== TransferType.MINT) {
+    utils.entity.fTokenAllowancesManager.requestOwnerAllowancesSync({
+      owner: transfer.from,
+      token: transfer.token
+    });
+  }
+}
+
+export async function handleErc20Transfer(): Promise<void> {
+  const event = utils.common.blockContextManager.getCurrentEvent();
+
+  const {
+    from,
+    to,
+    value: amount
+  } = erc20.events['Transfer(address,address,uint256)'].decode(event.args);
+
+  await processErc20Transfer({ from, to, amount });
 }
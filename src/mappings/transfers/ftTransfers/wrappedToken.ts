@@ -0,0 +1,37 @@
+import * as weth from '../../../abi/weth';
+import { blockContextManager } from '../../utils/blockContextUtils';
+import { EMPTY_ADDRESS, normalizeAddress } from '../../utils/common';
+import { wrappedTokenAddresses } from '../../../config';
+import { processErc20Transfer } from './erc20';
+
+function isWrappedToken(address: string): boolean {
+  return wrappedTokenAddresses.includes(normalizeAddress(address));
+}
+
+/**
+ * Wrap of native token is indexed as mint of the wrapper token.
+ */
+export async function handleWrappedTokenDeposit(): Promise<void> {
+  const event = blockContextManager.getCurrentEvent();
+  if (!isWrappedToken(event.args.address)) return;
+
+  const { dst, wad } = weth.events['Deposit(address,uint256)'].decode(
+    event.args
+  );
+
+  await processErc20Transfer({ from: EMPTY_ADDRESS, to: dst, amount: wad });
+}
+
+/**
+ * Unwrap of native token is indexed as burn of the wrapper token.
+ */
+export async function handleWrappedTokenWithdrawal(): Promise<void> {
+  const event = blockContextManager.getCurrentEvent();
+  if (!isWrappedToken(event.args.address)) return;
+
+  const { src, wad } = weth.events['Withdrawal(address,uint256)'].decode(
+    event.args
+  );
+
+  await processErc20Transfer({ from: src, to: EMPTY_ADDRESS, amount: wad });
+}
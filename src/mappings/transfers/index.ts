@@ -1,5 +1,12 @@
 export { handleErc20Transfer } from './ftTransfers/erc20';
-export { handleErc721Transfer } from './nftTransfers/erc721';
+export {
+  handleWrappedTokenDeposit,
+  handleWrappedTokenWithdrawal
+} from './ftTransfers/wrappedToken';
+export {
+  handleErc721Transfer,
+  handleErc721ConsecutiveTransfer
+} from './nftTransfers/erc721';
 export {
   handleErc1155TransferBatch,
   handleErc1155TransferSingle
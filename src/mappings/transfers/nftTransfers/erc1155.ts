@@ -1,6 +1,7 @@
 import * as erc1155 from '../../../abi/erc1155';
 import * as utils from '../../utils';
 import { ContractStandard, TransferDirection } from '../../../model';
+import { TokenBalanceAction } from '../../../common/types';
 
 export async function handleErc1155TransferSingle(): Promise<void> {
   const event = utils.common.blockContextManager.getCurrentEvent();
@@ -31,11 +32,29 @@ export async function handleErc1155TransferSingle(): Promise<void> {
     transfer
   });
 
+  await utils.entity.accountNfTokenBalancesManager.updateNfTokenBalance({
+    account: transfer.from,
+    token: transfer.token,
+    tokenId,
+    contractAddress: event.args.address,
+    amount: BigInt(amount.toString()),
+    action: TokenBalanceAction.sub
+  });
+
   await utils.entity.accountsNftTransferManager.getOrCreate({
     account: transfer.to,
     direction: TransferDirection.To,
     transfer
   });
+
+  await utils.entity.accountNfTokenBalancesManager.updateNfTokenBalance({
+    account: transfer.to,
+    token: transfer.token,
+    tokenId,
+    contractAddress: event.args.address,
+    amount: BigInt(amount.toString()),
+    action: TokenBalanceAction.add
+  });
 }
 
 export async function handleErc1155TransferBatch(): Promise<void> {
@@ -62,10 +81,28 @@ export async function handleErc1155TransferBatch(): Promise<void> {
       transfer
     });
 
+    await utils.entity.accountNfTokenBalancesManager.updateNfTokenBalance({
+      account: transfer.from,
+      token: transfer.token,
+      tokenId: ids[i],
+      contractAddress: event.args.address,
+      amount: BigInt(values[i].toString()),
+      action: TokenBalanceAction.sub
+    });
+
     await utils.entity.accountsNftTransferManager.getOrCreate({
       account: transfer.to,
       direction: TransferDirection.To,
       transfer
     });
+
+    await utils.entity.accountNfTokenBalancesManager.updateNfTokenBalance({
+      account: transfer.to,
+      token: transfer.token,
+      tokenId: ids[i],
+      contractAddress: event.args.address,
+      amount: BigInt(values[i].toString()),
+      action: TokenBalanceAction.add
+    });
   }
 }
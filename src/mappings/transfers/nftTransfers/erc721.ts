@@ -1,7 +1,13 @@
 import { BigNumber } from 'ethers';
 import * as erc721 from '../../../abi/erc721';
-import { ContractStandard, TransferDirection } from '../../../model';
+import * as erc2309 from '../../../abi/erc2309';
+import {
+  ContractStandard,
+  IndexingAnomalyType,
+  TransferDirection
+} from '../../../model';
 import * as utils from '../../utils';
+import { nfTokenConsecutiveTransferLimit } from '../../../config';
 
 export async function handleErc721Transfer(): Promise<void> {
   const event = utils.common.blockContextManager.getCurrentEvent();
@@ -30,4 +36,62 @@ export async function handleErc721Transfer(): Promise<void> {
     direction: TransferDirection.To,
     transfer
   });
-}
\ No newline at end of file
+}
+export async function handleErc721ConsecutiveTransfer(): Promise<void> {
+  const event = utils.common.blockContextManager.getCurrentEvent();
+
+  const { fromTokenId, toTokenId, fromAddress, toAddress } = erc2309.events[
+    'ConsecutiveTransfer(uint256,uint256,address,address)'
+  ].decode(event.args);
+
+  if (toTokenId.lt(fromTokenId)) return;
+
+  const rangeSize = toTokenId.sub(fromTokenId).add(1);
+  const tokenIds: BigNumber[] = [];
+  for (
+    let tokenId = fromTokenId;
+    tokenId.lte(toTokenId) && tokenIds.length < nfTokenConsecutiveTransferLimit;
+    tokenId = tokenId.add(1)
+  ) {
+    tokenIds.push(tokenId);
+  }
+
+  const transfers = await utils.entity.nftTransferManager.createConsecutive({
+    from: fromAddress,
+    to: toAddress,
+    tokenIds
+  });
+
+  /**
+   * Tokens over the limit are not indexed, the skipped part of the range is
+   * recorded as anomaly.
+   */
+  if (rangeSize.gt(tokenIds.length)) {
+    utils.entity.indexingAnomaliesManager.record({
+      anomalyType: IndexingAnomalyType.SKIPPED_CONSECUTIVE_TOKENS,
+      collection: await utils.entity.collectionManager.getOrCreate({
+        id: event.args.address,
+        contractStandard: ContractStandard.ERC721
+      }),
+      previousAmount: rangeSize.toBigInt(),
+      amount: rangeSize.sub(tokenIds.length).toBigInt(),
+      details: `ConsecutiveTransfer covers ${rangeSize.toString()} tokens, only first ${
+        tokenIds.length
+      } are indexed.`
+    });
+  }
+
+  for (const transfer of transfers) {
+    await utils.entity.accountsNftTransferManager.getOrCreate({
+      account: transfer.from,
+      direction: TransferDirection.From,
+      transfer
+    });
+
+    await utils.entity.accountsNftTransferManager.getOrCreate({
+      account: transfer.to,
+      direction: TransferDirection.To,
+      transfer
+    });
+  }
+}
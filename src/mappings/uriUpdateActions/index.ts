@@ -1 +1,6 @@
-export { createUriUpdateActions, handleErc1155UriChanged } from './uriUpdateActions';
+export {
+  createUriUpdateActions,
+  handleErc1155UriChanged,
+  handleMetadataUpdate,
+  handleBatchMetadataUpdate
+} from './uriUpdateActions';
@@ -1,7 +1,10 @@
 import { NfToken, UriUpdateAction } from '../../model';
 import * as utils from '../utils';
 import * as erc1155 from '../../abi/erc1155';
+import * as erc4906 from '../../abi/erc4906';
 import { getTokenEntityId } from '../utils/common';
+import * as config from '../../config';
+import type { Context } from '../../processor';
 
 export function createUriUpdateActions({
   id,
@@ -56,4 +59,80 @@ export async function handleErc1155UriChanged(): Promise<void> {
   );
 
   utils.entity.nfTokenManager.add(token);
+
+  await utils.entity.nfTokenMetadataManager.enqueue(token);
+}
+
+/**
+ * Re-read URI of the token and force its metadata resolution, as contract
+ * has notified about metadata change (EIP-4906).
+ */
+async function refreshTokenUri(token: NfToken, id: string): Promise<void> {
+  const event = utils.common.blockContextManager.getCurrentEvent();
+
+  const oldUriVal = token.uri || null;
+  await utils.entity.nfTokenManager.refreshUri({
+    token,
+    contractAddress: event.args.address
+  });
+
+  await utils.entity.uriUpdateActionsManager.getOrCreate(
+    id,
+    token,
+    token.uri || null,
+    oldUriVal
+  );
+
+  utils.entity.nfTokenManager.add(token);
+
+  await utils.entity.nfTokenMetadataManager.enqueue(token, true);
+}
+
+export async function handleMetadataUpdate(): Promise<void> {
+  const event = utils.common.blockContextManager.getCurrentEvent();
+
+  const { _tokenId: tokenId } = erc4906.events[
+    'MetadataUpdate(uint256)'
+  ].decode(event.args);
+
+  const token = await utils.entity.nfTokenManager.get(
+    getTokenEntityId(event.args.address, tokenId.toString()),
+    {
+      currentOwner: true,
+      collection: true
+    }
+  );
+
+  if (!token) return;
+
+  await refreshTokenUri(token, event.id);
+}
+
+export async function handleBatchMetadataUpdate(ctx: Context): Promise<void> {
+  const event = utils.common.blockContextManager.getCurrentEvent();
+
+  const { _fromTokenId: fromTokenId, _toTokenId: toTokenId } = erc4906.events[
+    'BatchMetadataUpdate(uint256,uint256)'
+  ].decode(event.args);
+
+  const tokens = await utils.entity.nfTokenManager.getCollectionTokensInRange({
+    contractAddress: event.args.address,
+    fromTokenId: fromTokenId.toBigInt(),
+    toTokenId: toTokenId.toBigInt(),
+    limit: config.nfTokenMetadataUpdateBatchLimit + 1
+  });
+
+  if (tokens.length > config.nfTokenMetadataUpdateBatchLimit) {
+    ctx.log.warn(
+      `BatchMetadataUpdate of ${String(event.args.address)} in event ${
+        event.id
+      } affects more than ${
+        config.nfTokenMetadataUpdateBatchLimit
+      } tokens, only ${config.nfTokenMetadataUpdateBatchLimit} are refreshed`
+    );
+  }
+
+  for (const token of tokens.slice(0, config.nfTokenMetadataUpdateBatchLimit)) {
+    await refreshTokenUri(token, `${event.id}-${token.nativeId}`);
+  }
 }
@@ -1,21 +1,94 @@
+import { FindOptionsWhere, Not } from 'typeorm';
 import { Account } from '../../../model';
 import { createAccount } from '../../accounts';
 import { EntitiesManager } from './common';
+import { isEvmAddress, splitIntoBatches } from '../common';
 
 export class AccountsManager extends EntitiesManager<Account> {
+  mappedAccountPrefetchList: string[] = [];
+
+  /**
+   * EVM addresses of known accounts by their mapped Substrate accounts.
+   */
+  evmAddressesByMappedAccount: Map<string, string> = new Map();
+
   constructor(entity: typeof Account) {
-    super({ entity });
+    super({ entity, isAddressId: true });
+  }
+
+  add(entity: Account): void {
+    super.add(entity);
+    if (isEvmAddress(entity.id))
+      this.evmAddressesByMappedAccount.set(
+        entity.substrateAccountId,
+        entity.id
+      );
   }
 
   async getOrCreate(id: string): Promise<Account> {
     if (!this.context) throw new Error('context is not defined');
-    let account = await this.get(id);
+    const accountId = this.normalizeId(id);
+    let account = await this.get(accountId);
 
     if (!account) {
-      account = createAccount(id);
+      account = createAccount(accountId);
     }
     this.add(account);
 
     return account;
   }
+
+  /**
+   * Add Substrate account ids of pallet events to the list for prefetch of
+   * EVM accounts, which are mapped to them.
+   */
+  addMappedAccountPrefetchItemId(substrateAccountIds: string[]): void {
+    this.mappedAccountPrefetchList.push(
+      ...substrateAccountIds
+        .filter((id) => !isEvmAddress(id))
+        .map((id) => this.normalizeId(id))
+    );
+  }
+
+  async prefetchMappedAccounts(): Promise<void> {
+    if (!this.context) throw new Error('context is not defined');
+    if (this.mappedAccountPrefetchList.length === 0) return;
+
+    for (const chunk of splitIntoBatches(
+      this.mappedAccountPrefetchList,
+      1000
+    )) {
+      const chunkRes = await this.context.store.find(Account, {
+        where: chunk.map(
+          (substrateAccountId): FindOptionsWhere<Account> => ({
+            substrateAccountId,
+            id: Not(substrateAccountId)
+          })
+        )
+      });
+
+      for (const chunkResItem of chunkRes) {
+        if (!this.entitiesMap.has(chunkResItem.id)) this.add(chunkResItem);
+      }
+    }
+
+    this.mappedAccountPrefetchList = [];
+  }
+
+  /**
+   * Returns EVM address of the account, if it's known mapped Substrate
+   * account, or account id as is.
+   */
+  getCanonicalAddress(accountId: string): string {
+    const normalizedAccountId = this.normalizeId(accountId);
+    return (
+      this.evmAddressesByMappedAccount.get(normalizedAccountId) ??
+      normalizedAccountId
+    );
+  }
+
+  async saveAll(): Promise<void> {
+    await super.saveAll();
+    this.evmAddressesByMappedAccount.clear();
+  }
 }
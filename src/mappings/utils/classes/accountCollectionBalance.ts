@@ -0,0 +1,84 @@
+import {
+  Account,
+  AccountCollectionBalance,
+  Collection,
+  IndexingAnomalyType
+} from '../../../model';
+import { EntitiesManager } from './common';
+import { createAccountCollectionBalance } from '../../accountCollectionBalances';
+import { EMPTY_ADDRESS, getAccountCollectionBalanceEntityId } from '../common';
+import { TokenBalanceAction } from '../../../common/types';
+import * as utils from '../index';
+
+/**
+ * ::::::::::::: ERC721/ERC1155 COLLECTION BALANCES :::::::::::::
+ */
+export class AccountCollectionBalancesManager extends EntitiesManager<AccountCollectionBalance> {
+  constructor(entity: typeof AccountCollectionBalance) {
+    super({ entity });
+  }
+
+  async updateCollectionBalance({
+    account,
+    collection,
+    amount,
+    action
+  }: {
+    account: Account;
+    collection: Collection;
+    amount: bigint;
+    action: TokenBalanceAction;
+  }): Promise<void> {
+    if (!this.context) throw new Error('context is not defined');
+    if (account.id === EMPTY_ADDRESS) return;
+
+    const block = utils.common.blockContextManager.getCurrentBlock();
+    let collectionBalance = await this.get(
+      getAccountCollectionBalanceEntityId(account.id, collection.id)
+    );
+
+    if (!collectionBalance) {
+      collectionBalance = createAccountCollectionBalance({
+        account,
+        collection,
+        amount: BigInt(0)
+      });
+    }
+    const prevAmount = collectionBalance.amount;
+
+    switch (action) {
+      case TokenBalanceAction.add:
+        collectionBalance.amount += amount;
+        break;
+      case TokenBalanceAction.sub:
+        collectionBalance.amount -= amount;
+        break;
+      default:
+    }
+    /**
+     * Balance is counted from indexed transfers only, so it can be less than
+     * transferred amount, if squid missed some transfers to the account.
+     * Only the transfer which crosses zero is recorded.
+     */
+    if (collectionBalance.amount < BigInt(0) && prevAmount >= BigInt(0)) {
+      utils.entity.indexingAnomaliesManager.record({
+        anomalyType: IndexingAnomalyType.NEGATIVE_BALANCE,
+        account,
+        collection,
+        previousAmount: prevAmount,
+        amount,
+        details: 'Collection balance is decreased below zero.'
+      });
+    }
+    collectionBalance.updatedAt = new Date(block.timestamp);
+    collectionBalance.updatedAtBlock = BigInt(block.height);
+
+    this.add(collectionBalance);
+
+    utils.entity.collectionManager.updateHolderCount({
+      collection,
+      prevAmount,
+      newAmount: collectionBalance.amount
+    });
+  }
+}
@@ -1,14 +1,32 @@
+import { And, IsNull, LessThanOrEqual, Like, Not } from 'typeorm';
 import {
   Account,
   AccountFTokenBalance,
   ContractStandard,
-  FToken
+  FToken,
+  FTokenBehaviour,
+  IndexingAnomalyType
 } from '../../../model';
 import { EntitiesManager } from './common';
 import { createAccountFTokenBalances } from '../../accountFTokenBalances';
-import { getAccountFTokenBalanceEntityId } from '../common';
-import { FTokenBalanceAction } from '../../../common/types';
-import { getTokenBalanceOf } from '../../tokens/utils';
+import {
+  EMPTY_ADDRESS,
+  EVM_ADDRESS_LIKE_PATTERN,
+  NATIVE_TOKEN_ADDRESS,
+  getAccountFTokenBalanceEntityId,
+  isEvmAddress
+} from '../common';
+import { TokenBalanceAction } from '../../../common/types';
+import {
+  getFTokenBalanceOf,
+  getNativeTokenBalance,
+  getTokenBalanceOf
+} from '../../tokens/utils';
+import {
+  balanceReconciliationBatchSize,
+  balanceReconciliationInterval
+} from '../../../config';
+import * as utils from '../index';
 
 export class AccountFTokenBalancesManager extends EntitiesManager<AccountFTokenBalance> {
   constructor(entity: typeof AccountFTokenBalance) {
@@ -26,8 +44,9 @@ export class AccountFTokenBalancesManager extends EntitiesManager<AccountFTokenB
     token: FToken;
     contractAddress: string;
     amount: bigint;
-    action: FTokenBalanceAction;
+    action: TokenBalanceAction;
   }): Promise<void> {
+    const block = utils.common.blockContextManager.getCurrentBlock();
     const accountBalanceId = getAccountFTokenBalanceEntityId(
       account.id,
       token.id
@@ -37,6 +56,26 @@ export class AccountFTokenBalancesManager extends EntitiesManager<AccountFTokenB
       token: true,
       account: true
     });
+    const prevAmount = existingAccountBalance
+      ? existingAccountBalance.amount
+      : BigInt(0);
+
+    /**
+     * New balance of EVM account is fetched from the contract and already
+     * includes current transfer. Balance of Substrate account can't be
+     * fetched this way, so it starts from zero and is counted by indexed
+     * transfers. Native token balance is fetched from the state before
+     * current block, so current transfer is applied on top of it. Balances
+     * of non-standard (fee-on-transfer, rebasing) tokens can't be counted by
+     * transfer amounts, so they are re-fetched on each transfer.
+     */
+    const isOnChainBalance =
+      token.behaviour !== FTokenBehaviour.STANDARD &&
+      this.isReconcilable(account.id, contractAddress);
+    const isFetchedBalance =
+      (!existingAccountBalance || isOnChainBalance) &&
+      isEvmAddress(account.id) &&
+      token.id !== NATIVE_TOKEN_ADDRESS;
 
     if (!existingAccountBalance) {
       existingAccountBalance = await this.getOrCreate({
@@ -45,19 +84,64 @@ export class AccountFTokenBalancesManager extends EntitiesManager<AccountFTokenB
         token,
         contractAddress
       });
-    } else {
+    } else if (isOnChainBalance) {
+      existingAccountBalance.amount = await this.getInitialAmount({
+        accountAddress: account.id,
+        contractAddress
+      });
+      existingAccountBalance.updatedAt = new Date(block.timestamp);
+      existingAccountBalance.updatedAtBlock = BigInt(block.height);
+      existingAccountBalance.reconciledAtBlock = BigInt(block.height);
+    }
+    if (!isFetchedBalance) {
+      const countedFromAmount = existingAccountBalance.amount;
+
       switch (action) {
-        case FTokenBalanceAction.add:
+        case TokenBalanceAction.add:
           existingAccountBalance.amount += amount;
           break;
-        case FTokenBalanceAction.sub:
+        case TokenBalanceAction.sub:
           existingAccountBalance.amount -= amount;
           break;
         default:
       }
+      /**
+       * Only the transfer which crosses zero is recorded. Zero address is
+       * a source of mints, so its balance is negative by design.
+       */
+      if (
+        existingAccountBalance.amount < BigInt(0) &&
+        countedFromAmount >= BigInt(0) &&
+        account.id !== EMPTY_ADDRESS
+      ) {
+        utils.entity.indexingAnomaliesManager.record({
+          anomalyType: IndexingAnomalyType.NEGATIVE_BALANCE,
+          account,
+          fToken: token,
+          previousAmount: countedFromAmount,
+          amount,
+          details: 'Balance is decreased below zero.'
+        });
+      }
+      existingAccountBalance.updatedAt = new Date(block.timestamp);
+      existingAccountBalance.updatedAtBlock = BigInt(block.height);
     }
 
     this.add(existingAccountBalance);
+
+    utils.entity.fTokenManager.updateHolderCount({
+      token,
+      accountId: account.id,
+      prevAmount,
+      newAmount: existingAccountBalance.amount
+    });
+
+    utils.entity.accountFTokenBalanceHistoriesManager.record({
+      account,
+      token,
+      delta: action === TokenBalanceAction.sub ? -amount : amount,
+      amount: existingAccountBalance.amount
+    });
   }
 
   async getOrCreate({
@@ -79,15 +163,134 @@ export class AccountFTokenBalancesManager extends EntitiesManager<AccountFTokenB
       accountFTokenBalance = createAccountFTokenBalances({
         account,
         token,
-        amount: await getTokenBalanceOf({
+        amount: await this.getInitialAmount({
           accountAddress: account.id,
-          contractAddress,
-          contractStandard: ContractStandard.ERC20,
-          ctx: this.context
-        })
+          contractAddress
+        }),
+        reconciledAtBlock: this.isReconcilable(account.id, contractAddress)
+          ? BigInt(utils.common.blockContextManager.getCurrentBlock().height)
+          : null
       });
     }
 
     return accountFTokenBalance;
   }
+
+  /**
+   * Compare indexed balances with on-chain "balanceOf()". Balances which
+   * haven't been checked for "balanceReconciliationInterval" blocks are taken
+   * from DB in order of the last check. Must be evoked in the end of the
+   * batch, so indexed values match the state at the end of the current
+   * block. On-chain value wins on mismatch.
+   */
+  async reconcile(): Promise<void> {
+    if (!this.context) throw new Error('context is not defined');
+    const block = utils.common.blockContextManager.getCurrentBlock();
+    const currentHeight = BigInt(block.height);
+
+    const reconcilableWhere = {
+      account: { id: And(Like(EVM_ADDRESS_LIKE_PATTERN), Not(EMPTY_ADDRESS)) },
+      token: { id: Not(NATIVE_TOKEN_ADDRESS) }
+    };
+    const dueBalances = await this.context.store.find(AccountFTokenBalance, {
+      where: [
+        { ...reconcilableWhere, reconciledAtBlock: IsNull() },
+        {
+          ...reconcilableWhere,
+          reconciledAtBlock: LessThanOrEqual(
+            currentHeight - BigInt(balanceReconciliationInterval)
+          )
+        }
+      ],
+      relations: { account: true, token: true },
+      order: { reconciledAtBlock: { direction: 'ASC', nulls: 'FIRST' } },
+      take: balanceReconciliationBatchSize
+    });
+
+    for (const dueBalance of dueBalances) {
+      const { account } = dueBalance;
+      const balance = this.entitiesMap.get(dueBalance.id) ?? dueBalance;
+
+      const onChainAmount = await getFTokenBalanceOf({
+        accountAddress: account.id,
+        contractAddress: dueBalance.token.id,
+        ctx: this.context
+      });
+
+      if (onChainAmount !== null && onChainAmount !== balance.amount) {
+        const token =
+          (await utils.entity.fTokenManager.get(dueBalance.token.id)) ??
+          balance.token;
+
+        utils.entity.balanceCorrectionsManager.record({
+          balanceId: balance.id,
+          account,
+          fToken: token,
+          indexedAmount: balance.amount,
+          onChainAmount
+        });
+        utils.entity.fTokenManager.updateHolderCount({
+          token,
+          accountId: account.id,
+          prevAmount: balance.amount,
+          newAmount: onChainAmount
+        });
+        utils.entity.fTokenManager.registerBalanceCorrection(token);
+
+        balance.amount = onChainAmount;
+        balance.updatedAt = new Date(block.timestamp);
+        balance.updatedAtBlock = currentHeight;
+      }
+      /**
+       * Balance which can't be read from the contract is postponed until the
+       * next interval as well, so it doesn't block the sweep.
+       */
+      balance.reconciledAtBlock = currentHeight;
+      this.add(balance);
+    }
+  }
+
+  /**
+   * Only balances of EVM accounts can be read from ERC20 contract. Zero
+   * address is a source of mints and a target of burns, so its indexed
+   * balance doesn't reflect the contract state.
+   */
+  private isReconcilable(
+    accountAddress: string,
+    contractAddress: string
+  ): boolean {
+    return (
+      isEvmAddress(accountAddress) &&
+      accountAddress !== EMPTY_ADDRESS &&
+      contractAddress !== NATIVE_TOKEN_ADDRESS
+    );
+  }
+
+  private async getInitialAmount({
+    accountAddress,
+    contractAddress
+  }: {
+    accountAddress: string;
+    contractAddress: string;
+  }): Promise<bigint> {
+    if (!this.context) throw new Error('context is not defined');
+
+    if (contractAddress === NATIVE_TOKEN_ADDRESS)
+      return getNativeTokenBalance({
+        accountAddress,
+        blockHash:
+          utils.common.blockContextManager.getCurrentBlock().parentHash,
+        ctx: this.context
+      });
+
+    if (isEvmAddress(accountAddress))
+      return getTokenBalanceOf({
+        accountAddress,
+        contractAddress,
+        contractStandard: ContractStandard.ERC20,
+        ctx: this.context
+      });
+
+    return BigInt(0);
+  }
 }
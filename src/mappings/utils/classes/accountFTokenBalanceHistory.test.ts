@@ -0,0 +1,69 @@
+import { SubstrateBlock, SubstrateEvent } from '@subsquid/substrate-processor';
+import { Account, AccountFTokenBalanceHistory, FToken } from '../../../model';
+import * as utils from '../index';
+import { AccountFTokenBalanceHistoriesManager } from './accountFTokenBalanceHistory';
+
+const account = new Account({
+  id: '0x6a2d262d56735dba19dd70682b39f6be9a931d98'
+});
+const token = new FToken({ id: '0xffffffff00000000000000000000000000000001' });
+const block = { height: 10, timestamp: 1000 } as SubstrateBlock;
+
+function initEvent(id: string, indexInBlock: number): void {
+  utils.common.blockContextManager.init(block, {
+    id,
+    indexInBlock
+  } as SubstrateEvent);
+}
+
+describe('AccountFTokenBalanceHistoriesManager.record', () => {
+  let manager: AccountFTokenBalanceHistoriesManager;
+
+  beforeEach(() => {
+    manager = new AccountFTokenBalanceHistoriesManager(
+      AccountFTokenBalanceHistory
+    );
+  });
+
+  afterEach(() => {
+    utils.common.blockContextManager.resetBlockContext();
+  });
+
+  it('appends balance change of the current event', () => {
+    initEvent('0000000010-000002-abcde', 2);
+    manager.record({ account, token, delta: BigInt(-5), amount: BigInt(15) });
+
+    expect(manager.entitiesMap.size).toBe(1);
+    expect(
+      manager.entitiesMap.get(`0000000010-000002-abcde-${account.id}`)
+    ).toMatchObject({
+      account,
+      token,
+      blockNumber: BigInt(10),
+      timestamp: new Date(1000),
+      eventIndex: 2,
+      delta: BigInt(-5),
+      amount: BigInt(15)
+    });
+  });
+
+  it('merges both sides of self-transfer into one record', () => {
+    initEvent('0000000010-000003-abcde', 3);
+    manager.record({ account, token, delta: BigInt(-5), amount: BigInt(15) });
+    manager.record({ account, token, delta: BigInt(5), amount: BigInt(20) });
+
+    expect(manager.entitiesMap.size).toBe(1);
+    expect(
+      manager.entitiesMap.get(`0000000010-000003-abcde-${account.id}`)
+    ).toMatchObject({ delta: BigInt(0), amount: BigInt(20) });
+  });
+
+  it('keeps separate records for different events', () => {
+    initEvent('0000000010-000004-abcde', 4);
+    manager.record({ account, token, delta: BigInt(1), amount: BigInt(1) });
+    initEvent('0000000010-000005-abcde', 5);
+    manager.record({ account, token, delta: BigInt(1), amount: BigInt(2) });
+
+    expect(manager.entitiesMap.size).toBe(2);
+  });
+});
@@ -0,0 +1,48 @@
+import { Account, AccountFTokenBalanceHistory, FToken } from '../../../model';
+import { EntitiesManager } from './common';
+import { createAccountFTokenBalanceHistory } from '../../accountFTokenBalanceHistories';
+import { getAccountFTokenBalanceHistoryEntityId } from '../common';
+import { blockContextManager } from '../blockContextUtils';
+
+export class AccountFTokenBalanceHistoriesManager extends EntitiesManager<AccountFTokenBalanceHistory> {
+  constructor(entity: typeof AccountFTokenBalanceHistory) {
+    super({ entity });
+  }
+
+  /**
+   * Append balance change of the current event. Both sides of self-transfer
+   * are merged into one record, so each event has single resulting amount
+   * per account.
+   */
+  record({
+    account,
+    token,
+    delta,
+    amount
+  }: {
+    account: Account;
+    token: FToken;
+    delta: bigint;
+    amount: bigint;
+  }): AccountFTokenBalanceHistory {
+    const event = blockContextManager.getCurrentSubstrateEvent();
+    let historyItem = this.entitiesMap.get(
+      getAccountFTokenBalanceHistoryEntityId(event.id, account.id)
+    );
+
+    if (historyItem) {
+      historyItem.delta += delta;
+      historyItem.amount = amount;
+    } else {
+      historyItem = createAccountFTokenBalanceHistory({
+        account,
+        token,
+        delta,
+        amount
+      });
+    }
+    this.add(historyItem);
+
+    return historyItem;
+  }
+}
@@ -0,0 +1,230 @@
+import { BigNumber } from 'ethers';
+import { IsNull, LessThanOrEqual } from 'typeorm';
+import {
+  Account,
+  AccountNfTokenBalance,
+  ContractStandard,
+  IndexingAnomalyType,
+  NfToken
+} from '../../../model';
+import { EntitiesManager } from './common';
+import { createAccountNfTokenBalance } from '../../accountNfTokenBalances';
+import { EMPTY_ADDRESS, getAccountNfTokenBalanceEntityId } from '../common';
+import { TokenBalanceAction } from '../../../common/types';
+import {
+  getNfTokenBalancesOfBatch,
+  getTokenBalanceOf
+} from '../../tokens/utils';
+import {
+  balanceReconciliationBatchSize,
+  balanceReconciliationInterval
+} from '../../../config';
+import * as utils from '../index';
+
+/**
+ * ::::::::::::: ERC1155 TOKEN BALANCES :::::::::::::
+ */
+export class AccountNfTokenBalancesManager extends EntitiesManager<AccountNfTokenBalance> {
+  constructor(entity: typeof AccountNfTokenBalance) {
+    super({ entity });
+  }
+
+  async updateNfTokenBalance({
+    account,
+    token,
+    tokenId,
+    contractAddress,
+    amount,
+    action
+  }: {
+    account: Account;
+    token: NfToken;
+    tokenId: BigNumber;
+    contractAddress: string;
+    amount: bigint;
+    action: TokenBalanceAction;
+  }): Promise<void> {
+    /**
+     * Zero address is a source of mints and a target of burns, but not
+     * a holder of tokens.
+     */
+    if (account.id === EMPTY_ADDRESS) return;
+
+    const block = utils.common.blockContextManager.getCurrentBlock();
+    const accountBalanceId = getAccountNfTokenBalanceEntityId(
+      account.id,
+      token.id
+    );
+
+    let existingAccountBalance = await this.get(accountBalanceId, {
+      token: true,
+      account: true
+    });
+
+    if (!existingAccountBalance) {
+      existingAccountBalance = await this.getOrCreate({
+        id: accountBalanceId,
+        account,
+        token,
+        tokenId,
+        contractAddress
+      });
+    } else {
+      const prevAmount = existingAccountBalance.amount;
+
+      switch (action) {
+        case TokenBalanceAction.add:
+          existingAccountBalance.amount += amount;
+          break;
+        case TokenBalanceAction.sub:
+          existingAccountBalance.amount -= amount;
+          break;
+        default:
+      }
+      /**
+       * Only the transfer which crosses zero is recorded.
+       */
+      if (
+        existingAccountBalance.amount < BigInt(0) &&
+        prevAmount >= BigInt(0)
+      ) {
+        utils.entity.indexingAnomaliesManager.record({
+          anomalyType: IndexingAnomalyType.NEGATIVE_BALANCE,
+          account,
+          nfToken: token,
+          previousAmount: prevAmount,
+          amount,
+          details: 'Balance is decreased below zero.'
+        });
+      }
+      existingAccountBalance.updatedAt = new Date(block.timestamp);
+      existingAccountBalance.updatedAtBlock = BigInt(block.height);
+    }
+
+    this.add(existingAccountBalance);
+  }
+
+  async getOrCreate({
+    id = null,
+    account,
+    token,
+    tokenId,
+    contractAddress
+  }: {
+    id?: string | null;
+    account: Account;
+    token: NfToken;
+    tokenId: BigNumber;
+    contractAddress: string;
+  }): Promise<AccountNfTokenBalance> {
+    if (!this.context) throw new Error('context is not defined');
+
+    let accountNfTokenBalance = id ? await this.get(id) : null;
+
+    if (!accountNfTokenBalance) {
+      accountNfTokenBalance = createAccountNfTokenBalance({
+        account,
+        token,
+        amount: await getTokenBalanceOf({
+          tokenId,
+          accountAddress: account.id,
+          contractAddress,
+          contractStandard: ContractStandard.ERC1155,
+          ctx: this.context
+        }),
+        reconciledAtBlock: BigInt(
+          utils.common.blockContextManager.getCurrentBlock().height
+        )
+      });
+    }
+
+    return accountNfTokenBalance;
+  }
+
+  /**
+   * Compare indexed balances with on-chain "balanceOfBatch()", one call per
+   * collection. Balances are picked the same way as ERC20 ones (see
+   * "AccountFTokenBalancesManager.reconcile"). Holders are EVM accounts
+   * only, so no account filter is needed.
+   */
+  async reconcile(): Promise<void> {
+    if (!this.context) throw new Error('context is not defined');
+    const block = utils.common.blockContextManager.getCurrentBlock();
+    const currentHeight = BigInt(block.height);
+
+    const dueBalances = await this.context.store.find(AccountNfTokenBalance, {
+      where: [
+        { reconciledAtBlock: IsNull() },
+        {
+          reconciledAtBlock: LessThanOrEqual(
+            currentHeight - BigInt(balanceReconciliationInterval)
+          )
+        }
+      ],
+      relations: { account: true, token: { collection: true } },
+      order: { reconciledAtBlock: { direction: 'ASC', nulls: 'FIRST' } },
+      take: balanceReconciliationBatchSize
+    });
+
+    const balancesByCollection = new Map<string, AccountNfTokenBalance[]>();
+    for (const dueBalance of dueBalances) {
+      const collectionId = dueBalance.token.collection.id;
+      balancesByCollection.set(collectionId, [
+        ...(balancesByCollection.get(collectionId) ?? []),
+        dueBalance
+      ]);
+    }
+
+    for (const [collectionId, collectionBalances] of balancesByCollection) {
+      const onChainAmounts = await getNfTokenBalancesOfBatch({
+        accountAddresses: collectionBalances.map(({ account }) => account.id),
+        tokenIds: collectionBalances.map(({ token }) =>
+          BigNumber.from(token.nativeId)
+        ),
+        contractAddress: collectionId,
+        ctx: this.context
+      });
+
+      for (const [index, dueBalance] of collectionBalances.entries()) {
+        const { account, token } = dueBalance;
+        const balance = this.entitiesMap.get(dueBalance.id) ?? dueBalance;
+        const onChainAmount = onChainAmounts ? onChainAmounts[index] : null;
+
+        if (onChainAmount !== null && onChainAmount !== balance.amount) {
+          const collection =
+            (await utils.entity.collectionManager.get(collectionId)) ??
+            token.collection;
+
+          utils.entity.balanceCorrectionsManager.record({
+            balanceId: balance.id,
+            account,
+            nfToken: token,
+            indexedAmount: balance.amount,
+            onChainAmount
+          });
+          await utils.entity.accountCollectionBalancesManager.updateCollectionBalance(
+            {
+              account,
+              collection,
+              amount:
+                onChainAmount > balance.amount
+                  ? onChainAmount - balance.amount
+                  : balance.amount - onChainAmount,
+              action:
+                onChainAmount > balance.amount
+                  ? TokenBalanceAction.add
+                  : TokenBalanceAction.sub
+            }
+          );
+          utils.entity.collectionManager.registerBalanceCorrection(collection);
+
+          balance.amount = onChainAmount;
+          balance.updatedAt = new Date(block.timestamp);
+          balance.updatedAtBlock = currentHeight;
+        }
+        balance.reconciledAtBlock = currentHeight;
+        this.add(balance);
+      }
+    }
+  }
+}
@@ -0,0 +1,194 @@
+import { addTimeout } from '@subsquid/util-timeout';
+import { FindOptionsWhere, IsNull, Not } from 'typeorm';
+import { Account, FToken, FTokenAllowance } from '../../../model';
+import { EntitiesManager } from './common';
+import { createFTokenAllowance } from '../../allowances';
+import {
+  getFTokenAllowanceEntityId,
+  isUnlimitedAllowance,
+  normalizeAddress,
+  splitIntoBatches
+} from '../common';
+import {
+  contractCallTimeout,
+  fTokenAllowanceSyncBatchSize
+} from '../../../config';
+import * as contracts from '../../contracts';
+import { blockContextManager } from '../blockContextUtils';
+
+/**
+ * ::::::::::::: ERC20 TOKEN ALLOWANCES :::::::::::::
+ */
+export class FTokenAllowancesManager extends EntitiesManager<FTokenAllowance> {
+  ownerTokenPrefetchList: { ownerId: string; tokenId: string }[] = [];
+
+  constructor(entity: typeof FTokenAllowance) {
+    super({ entity });
+  }
+
+  /**
+   * Add owner/token pair to the list for prefetch of all owner's allowances
+   * of the token. These allowances are flagged for sync on each transfer of
+   * the owner.
+   */
+  addOwnerTokenPrefetchItem(ownerId: string, tokenId: string): void {
+    this.ownerTokenPrefetchList.push({
+      ownerId: normalizeAddress(ownerId),
+      tokenId: normalizeAddress(tokenId)
+    });
+  }
+
+  async prefetchOwnerAllowances(): Promise<void> {
+    if (!this.context) throw new Error('context is not defined');
+    if (this.ownerTokenPrefetchList.length === 0) return;
+
+    for (const chunk of splitIntoBatches(this.ownerTokenPrefetchList, 1000)) {
+      const chunkRes = await this.context.store.find(FTokenAllowance, {
+        where: chunk.map(
+          ({ ownerId, tokenId }): FindOptionsWhere<FTokenAllowance> => ({
+            owner: { id: ownerId },
+            token: { id: tokenId }
+          })
+        ),
+        relations: { owner: true, spender: true, token: true }
+      });
+
+      for (const chunkResItem of chunkRes) {
+        if (!this.entitiesMap.has(chunkResItem.id)) this.add(chunkResItem);
+      }
+    }
+
+    this.ownerTokenPrefetchList = [];
+  }
+
+  async updateAllowance({
+    owner,
+    spender,
+    token,
+    amount
+  }: {
+    owner: Account;
+    spender: Account;
+    token: FToken;
+    amount: bigint;
+  }): Promise<FTokenAllowance> {
+    if (!this.context) throw new Error('context is not defined');
+    const block = blockContextManager.getCurrentBlock();
+
+    let allowance = await this.get(
+      getFTokenAllowanceEntityId(owner.id, spender.id, token.id),
+      { owner: true, spender: true, token: true }
+    );
+
+    if (!allowance) {
+      allowance = createFTokenAllowance({ owner, spender, token, amount });
+    } else {
+      allowance.amount = amount;
+      allowance.isUnlimited = isUnlimitedAllowance(amount);
+      allowance.updatedAt = new Date(block.timestamp);
+      allowance.updatedAtBlock = BigInt(block.height);
+      allowance.syncRequestedAtBlock = null;
+    }
+    this.add(allowance);
+
+    return allowance;
+  }
+
+  /**
+   * "Transfer" event doesn't contain spender, so allowances, which could be
+   * reduced by "transferFrom", are flagged to be re-read from the contract
+   * (see "syncRequestedAllowances"). Unlimited and empty allowances are
+   * skipped, as "transferFrom" cannot reduce them.
+   */
+  requestOwnerAllowancesSync({
+    owner,
+    token
+  }: {
+    owner: Account;
+    token: FToken;
+  }): void {
+    const block = blockContextManager.getCurrentBlock();
+
+    for (const allowance of this.entitiesMap.values()) {
+      if (
+        allowance.owner.id === owner.id &&
+        allowance.token.id === token.id &&
+        allowance.amount > BigInt(0) &&
+        !allowance.isUnlimited &&
+        !allowance.syncRequestedAtBlock
+      ) {
+        allowance.syncRequestedAtBlock = BigInt(block.height);
+        this.add(allowance);
+      }
+    }
+  }
+
+  /**
+   * Re-read flagged allowances from the contract. Up to
+   * "fTokenAllowanceSyncBatchSize" allowances are read per batch in order of
+   * the request, the rest is kept flagged for next batches. Must be evoked in
+   * the end of the batch, so each allowance is read once, however many
+   * transfers of its owner the batch has.
+   */
+  async syncRequestedAllowances(): Promise<void> {
+    if (!this.context) throw new Error('context is not defined');
+
+    const storedAllowances = await this.context.store.find(FTokenAllowance, {
+      where: { syncRequestedAtBlock: Not(IsNull()) },
+      relations: { owner: true, spender: true, token: true },
+      order: { syncRequestedAtBlock: 'ASC' },
+      take: fTokenAllowanceSyncBatchSize
+    });
+    for (const storedAllowance of storedAllowances) {
+      if (!this.entitiesMap.has(storedAllowance.id)) this.add(storedAllowance);
+    }
+
+    const dueAllowances = [...this.entitiesMap.values()]
+      .filter((allowance) => !!allowance.syncRequestedAtBlock)
+      .sort((allowanceA, allowanceB) =>
+        (allowanceA.syncRequestedAtBlock ?? BigInt(0)) <
+        (allowanceB.syncRequestedAtBlock ?? BigInt(0))
+          ? -1
+          : 1
+      )
+      .slice(0, fTokenAllowanceSyncBatchSize);
+
+    for (const allowance of dueAllowances) {
+      const contractInst = contracts.getContractErc20({
+        contractAddress: allowance.token.id,
+        ctx: this.context
+      });
+      let amount: bigint | null = null;
+      try {
+        amount = BigInt(
+          (
+            await addTimeout(
+              contractInst.allowance(allowance.owner.id, allowance.spender.id),
+              contractCallTimeout
+            )
+          ).toString()
+        );
+      } catch (error) {
+        this.context.log.warn(
+          { err: error },
+          `Allowance ${allowance.id} cannot be read`
+        );
+      }
+
+      if (amount !== null && amount !== allowance.amount) {
+        await this.updateAllowance({
+          owner: allowance.owner,
+          spender: allowance.spender,
+          token: allowance.token,
+          amount
+        });
+      }
+      /**
+       * Allowance which can't be read from the contract is not retried, as
+       * the contract may not implement "allowance()".
+       */
+      allowance.syncRequestedAtBlock = null;
+      this.add(allowance);
+    }
+  }
+}
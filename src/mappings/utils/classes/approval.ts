@@ -0,0 +1,45 @@
+import { BigNumber } from 'ethers';
+import { ContractStandard, FTokenApproval } from '../../../model';
+import { EntitiesManager } from './common';
+import * as utils from '../index';
+
+/**
+ * ::::::::::::: APPROVALS ERC20 TOKEN :::::::::::::
+ */
+export class FTokenApprovalsManager extends EntitiesManager<FTokenApproval> {
+  constructor(entity: typeof FTokenApproval) {
+    super({ entity });
+  }
+
+  async getOrCreate({
+    owner,
+    spender,
+    amount
+  }: {
+    owner: string;
+    spender: string;
+    amount: BigNumber;
+  }): Promise<FTokenApproval> {
+    const block = utils.common.blockContextManager.getCurrentBlock();
+    const event = utils.common.blockContextManager.getCurrentEvent();
+
+    const approval = new FTokenApproval({
+      id: event.id,
+      blockNumber: BigInt(block.height),
+      timestamp: new Date(block.timestamp),
+      eventIndex: event.indexInBlock,
+      txnHash: event.evmTxHash,
+      owner: await utils.entity.accountsManager.getOrCreate(owner),
+      spender: await utils.entity.accountsManager.getOrCreate(spender),
+      token: await utils.entity.fTokenManager.getOrCreate({
+        contractAddress: event.args.address,
+        contractStandard: ContractStandard.ERC20
+      }),
+      amount: BigInt(amount.toString())
+    });
+
+    this.add(approval);
+
+    return approval;
+  }
+}
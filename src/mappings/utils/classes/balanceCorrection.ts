@@ -0,0 +1,50 @@
+import { Account, BalanceCorrection, FToken, NfToken } from '../../../model';
+import { EntitiesManager } from './common';
+import { createBalanceCorrection } from '../../balanceCorrections';
+import { blockContextManager } from '../blockContextUtils';
+
+/**
+ * ::::::::::::: BALANCE RECONCILIATION :::::::::::::
+ *
+ * Audit log of indexed balances, which have been replaced by on-chain values.
+ */
+export class BalanceCorrectionsManager extends EntitiesManager<BalanceCorrection> {
+  constructor(entity: typeof BalanceCorrection) {
+    super({ entity });
+  }
+
+  record({
+    balanceId,
+    account,
+    fToken = null,
+    nfToken = null,
+    indexedAmount,
+    onChainAmount
+  }: {
+    balanceId: string;
+    account: Account;
+    fToken?: FToken | null;
+    nfToken?: NfToken | null;
+    indexedAmount: bigint;
+    onChainAmount: bigint;
+  }): void {
+    if (!this.context) throw new Error('context is not defined');
+    const block = blockContextManager.getCurrentBlock();
+    this.context.log.warn(
+      `Balance ${balanceId} is ${indexedAmount.toString()}, but on-chain value at block ${
+        block.height
+      } is ${onChainAmount.toString()}. Indexed value is replaced.`
+    );
+
+    this.add(
+      createBalanceCorrection({
+        balanceId,
+        account,
+        fToken,
+        nfToken,
+        indexedAmount,
+        onChainAmount
+      })
+    );
+  }
+}
@@ -1,28 +1,72 @@
-import { EvmLogEvent, SubstrateBlock } from '@subsquid/substrate-processor';
+import {
+  EvmLogEvent,
+  SubstrateBlock,
+  SubstrateEvent
+} from '@subsquid/substrate-processor';
 import assert from 'assert';
+import { EvmLogArgs } from '../../../common/types';
 
 export class BlockContextManager {
-  private event: EvmLogEvent | null = null;
+  private event: SubstrateEvent | null = null;
 
   private block: SubstrateBlock | null = null;
 
-  init(block: SubstrateBlock, event: EvmLogEvent) {
+  private logArgs: EvmLogArgs | null = null;
+
+  /**
+   * Event is omitted by logic which is done for the block as a whole (e.g.
+   * balance reconciliation in the end of the batch).
+   */
+  init(block: SubstrateBlock, event: SubstrateEvent | null = null) {
     this.block = block;
     this.event = event;
+    this.logArgs = null;
     return this;
   }
 
+  /**
+   * Overrides log arguments of the current event, e.g. with ones aligned to
+   * the layout of resolved contract standard. Original event is kept intact.
+   */
+  setCurrentLogArgs(args: EvmLogArgs): void {
+    assert(this.event, 'Current event is not available');
+    this.logArgs = args;
+  }
+
   getCurrentEvent(): EvmLogEvent {
     assert(this.event, 'Current event is not available');
-    const eventDecorated = this.event;
+    assert(this.event.name === 'EVM.Log', 'Current event is not EVM log');
+    const eventDecorated = this.event as EvmLogEvent;
     if ('log' in eventDecorated.args && !('topics' in eventDecorated.args))
       eventDecorated.args = {
         ...this.event.args,
         ...this.event.args.log
       };
+    if (this.logArgs)
+      return {
+        ...eventDecorated,
+        args: { ...eventDecorated.args, ...this.logArgs }
+      };
     return eventDecorated;
   }
 
+  /**
+   * Current event without EVM log specific decoration. Must be used by logic
+   * which is shared between EVM logs and Substrate pallet events.
+   */
+  getCurrentSubstrateEvent(): SubstrateEvent {
+    assert(this.event, 'Current event is not available');
+    return this.event;
+  }
+
+  /**
+   * ID of the current event, or null if block context is initialised for
+   * the block as a whole.
+   */
+  getCurrentEventId(): string | null {
+    return this.event ? this.event.id : null;
+  }
+
   getCurrentBlock(): SubstrateBlock {
     assert(this.block, 'Current block is not available');
     return this.block;
@@ -31,5 +75,6 @@ export class BlockContextManager {
   resetBlockContext(): void {
     this.block = null;
     this.event = null;
+    this.logArgs = null;
   }
 }
@@ -1,16 +1,27 @@
+import { BigNumber } from 'ethers';
 import {
   Collection,
-  ContractStandard
+  ContractDeployment,
+  ContractStandard,
+  IndexingAnomalyType,
+  TransferType
 } from '../../../model';
 import { createCollection } from '../../collections';
 import { EntitiesManager } from './common';
+import {
+  getRoyaltyDetails,
+  getTokenDetails,
+  isRoyaltyOutdated
+} from '../../tokens/utils';
+import { balanceDriftThreshold } from '../../../config';
+import * as utils from '../index';
 
 /**
  * ::::::::::::: ERC721/ERC1155 TOKEN COLLECTION :::::::::::::
  */
 export class CollectionManager extends EntitiesManager<Collection> {
   constructor(entity: typeof Collection) {
-    super({ entity });
+    super({ entity, isAddressId: true });
   }
 
   async getOrCreate({
@@ -22,16 +33,163 @@ export class CollectionManager extends EntitiesManager<Collection> {
   }): Promise<Collection> {
     if (!this.context) throw new Error('context is not defined');
 
-    let collection = await this.get(id);
+    const collectionId = this.normalizeId(id);
+    let collection = await this.get(collectionId);
 
     if (!collection) {
+      const { name, symbol } = await getTokenDetails({
+        contractAddress: collectionId,
+        contractStandard,
+        ctx: this.context
+      });
       collection = createCollection({
-        id,
-        contractStandard
+        id: collectionId,
+        contractStandard,
+        name,
+        symbol,
+        deployment: await utils.entity.contractDeploymentsManager.get(
+          collectionId
+        ),
+        capabilities:
+          await utils.entity.contractCapabilitiesManager.getOrCreate(
+            collectionId
+          )
       });
+      await utils.entity.dappsStakingContractsManager.setCollection(collection);
     }
     this.add(collection);
 
     return collection;
   }
+
+  /**
+   * Refresh default ERC2981 royalty of the collection (royalty of token ID 0),
+   * if its contract supports ERC2981.
+   */
+  async updateRoyalty(collection: Collection): Promise<void> {
+    if (!this.context) throw new Error('context is not defined');
+    if (!isRoyaltyOutdated(collection.royaltyUpdatedAtBlock)) return;
+
+    const capabilities =
+      await utils.entity.contractCapabilitiesManager.getOrCreate(collection.id);
+    if (!capabilities.erc2981) return;
+
+    const block = utils.common.blockContextManager.getCurrentBlock();
+    const royalty = await getRoyaltyDetails({
+      tokenId: BigNumber.from(0),
+      contractAddress: collection.id,
+      ctx: this.context
+    });
+
+    collection.royaltyReceiver = royalty ? royalty.receiver : null;
+    collection.royaltyBasisPoints = royalty ? royalty.basisPoints : null;
+    collection.royaltyUpdatedAtBlock = BigInt(block.height);
+    this.add(collection);
+  }
+
+  /**
+   * Attach deployment to already created collection of the contract. Creation
+   * time of the collection is moved to the deployment.
+   */
+  async setDeployment(deployment: ContractDeployment): Promise<void> {
+    const collection = await this.get(deployment.id);
+    if (!collection) return;
+
+    collection.deployment = deployment;
+    collection.createdAtBlock = deployment.blockNumber;
+    collection.createdAt = deployment.timestamp;
+    this.add(collection);
+  }
+
+  /**
+   * Apply transfer of "amount" token units to collection statistics.
+   */
+  updateStats({
+    collection,
+    amount,
+    transferType,
+    transferCount = BigInt(1),
+    isBurnRecorded = false
+  }: {
+    collection: Collection;
+    amount: bigint;
+    transferType: TransferType;
+    transferCount?: bigint;
+    isBurnRecorded?: boolean;
+  }): void {
+    const block = utils.common.blockContextManager.getCurrentBlock();
+
+    switch (transferType) {
+      case TransferType.MINT:
+        collection.totalMinted += amount;
+        break;
+      case TransferType.BURN:
+        collection.totalBurned += amount;
+        break;
+      default:
+    }
+    collection.currentSupply = collection.totalMinted - collection.totalBurned;
+    /**
+     * Supply is counted from indexed mints, so it goes below zero if burned
+     * tokens have been minted before the first indexed block. Only the burn
+     * which crosses zero is recorded, unless it's already recorded for the
+     * burned token.
+     */
+    if (
+      transferType === TransferType.BURN &&
+      !isBurnRecorded &&
+      collection.currentSupply < BigInt(0) &&
+      collection.currentSupply + amount >= BigInt(0)
+    ) {
+      utils.entity.indexingAnomaliesManager.record({
+        anomalyType: IndexingAnomalyType.NEGATIVE_SUPPLY,
+        collection,
+        previousAmount: collection.currentSupply + amount,
+        amount,
+        details: 'Supply of the collection is decreased below zero.'
+      });
+    }
+    collection.transferCount += transferCount;
+
+    if (!collection.firstActivityBlock)
+      collection.firstActivityBlock = BigInt(block.height);
+    collection.lastActivityBlock = BigInt(block.height);
+
+    this.add(collection);
+  }
+
+  /**
+   * Collection balances which are changed from 0 to positive value and back
+   * increase and decrease number of collection holders.
+   */
+  updateHolderCount({
+    collection,
+    prevAmount,
+    newAmount
+  }: {
+    collection: Collection;
+    prevAmount: bigint;
+    newAmount: bigint;
+  }): void {
+    const wasHolder = prevAmount > BigInt(0);
+    const isHolder = newAmount > BigInt(0);
+
+    if (!wasHolder && isHolder) collection.holderCount += 1;
+    if (wasHolder && !isHolder) collection.holderCount -= 1;
+
+    this.add(collection);
+  }
+
+  /**
+   * Count reconciliation correction of ERC1155 balance in the collection.
+   * Collection which balances keep drifting from indexed transfers is
+   * flagged as non-standard.
+   */
+  registerBalanceCorrection(collection: Collection): void {
+    collection.balanceCorrectionCount += 1;
+    if (collection.balanceCorrectionCount >= balanceDriftThreshold)
+      collection.isNonStandard = true;
+
+    this.add(collection);
+  }
 }
@@ -0,0 +1,109 @@
+import { IsNull, LessThanOrEqual } from 'typeorm';
+import { Collection, CollectionTrait } from '../../../model';
+import { EntitiesManager } from './common';
+import { createCollectionTrait } from '../../collectionTraits';
+import { getCollectionTraitEntityId } from '../common';
+import {
+  nfTokenRarityUpdateBatchSize,
+  nfTokenRarityUpdateInterval
+} from '../../../config';
+
+/**
+ * ::::::::::::: ERC721/ERC1155 COLLECTION TRAITS :::::::::::::
+ */
+export class CollectionTraitsManager extends EntitiesManager<CollectionTrait> {
+  constructor(entity: typeof CollectionTrait) {
+    super({ entity });
+  }
+
+  async getOrCreate({
+    collection,
+    traitType,
+    value
+  }: {
+    collection: Collection;
+    traitType: string;
+    value: string;
+  }): Promise<CollectionTrait> {
+    if (!this.context) throw new Error('context is not defined');
+
+    let trait = await this.get(
+      getCollectionTraitEntityId(collection.id, traitType, value)
+    );
+
+    if (!trait) {
+      trait = createCollectionTrait({
+        collection,
+        traitType,
+        value
+      });
+    }
+    this.add(trait);
+
+    return trait;
+  }
+
+  /**
+   * Recalculate rarity scores of collections, which attributes have been
+   * changed, not often than once per "nfTokenRarityUpdateInterval" blocks.
+   * Not more than "nfTokenRarityUpdateBatchSize" collections are recalculated
+   * per batch, the rest is picked up by next batches. Must be evoked after all
+   * entities are saved, as calculation is based on stored attributes.
+   */
+  async updateRarity(): Promise<void> {
+    if (!this.context) throw new Error('context is not defined');
+    if (this.context.blocks.length === 0) return;
+
+    const blockHeight = BigInt(
+      this.context.blocks[this.context.blocks.length - 1].header.height
+    );
+    const outdatedCollections = await this.context.store.find(Collection, {
+      where: [
+        { isRarityOutdated: true, rarityUpdatedAtBlock: IsNull() },
+        {
+          isRarityOutdated: true,
+          rarityUpdatedAtBlock: LessThanOrEqual(
+            blockHeight - BigInt(nfTokenRarityUpdateInterval)
+          )
+        }
+      ],
+      order: { id: 'ASC' },
+      take: nfTokenRarityUpdateBatchSize
+    });
+
+    for (const collection of outdatedCollections) {
+      await this.updateCollectionRarity(collection);
+
+      collection.isRarityOutdated = false;
+      collection.rarityUpdatedAtBlock = blockHeight;
+      await this.context.store.save(collection);
+    }
+  }
+
+  /**
+   * Trait rarity score is "<attributed tokens> / <tokens with the trait>",
+   * token rarity score is a sum of rarity scores of its traits. Both are
+   * updated by a single query, without loading traits and attributes.
+   */
+  async updateCollectionRarity(collection: Collection): Promise<void> {
+    await this.query(
+      `WITH "trait" AS (
+        UPDATE "collection_trait"
+        SET "rarity_score" = CASE WHEN "token_count" > 0 THEN $2::numeric / "token_count" ELSE NULL END
+        WHERE "collection_id" = $1
+        RETURNING "id", "rarity_score"
+      )
+      UPDATE "nf_token"
+      SET "rarity_score" = "token_score"."rarity_score"
+      FROM (
+        SELECT "attribute"."token_id", sum(coalesce("trait"."rarity_score", 0)) AS "rarity_score"
+        FROM "nf_token_attribute" "attribute"
+        JOIN "trait" ON "trait"."id" = "attribute"."trait_id"
+        WHERE "attribute"."collection_id" = $1
+        GROUP BY "attribute"."token_id"
+      ) "token_score"
+      WHERE "nf_token"."id" = "token_score"."token_id"`,
+      [collection.id, collection.attributedTokenCount]
+    );
+  }
+}
@@ -1,8 +1,8 @@
-import type { FindOptionsRelations } from 'typeorm';
+import type { EntityManager, FindOptionsRelations } from 'typeorm';
 import { FindOneOptions, EntityClass } from '@subsquid/typeorm-store';
-import { Context } from '../../../processor';
 import { FindOptionsWhere } from 'typeorm';
-import { splitIntoBatches } from '../common';
+import type { Context } from '../../../processor';
+import { normalizeAddress, splitIntoBatches } from '../common';
 
 interface EntityWithId {
   id: string;
@@ -17,8 +17,24 @@ export class EntitiesManager<Entity extends EntityWithId> {
 
   entitiesMap: Map<string, Entity> = new Map();
 
-  constructor({ entity }: { entity: EntityClass<Entity> }) {
+  /**
+   * Entity IDs are addresses, which must be normalised.
+   */
+  isAddressId: boolean;
+
+  constructor({
+    entity,
+    isAddressId = false
+  }: {
+    entity: EntityClass<Entity>;
+    isAddressId?: boolean;
+  }) {
     this.entity = entity;
+    this.isAddressId = isAddressId;
+  }
+
+  normalizeId(id: string): string {
+    return this.isAddressId ? normalizeAddress(id) : id;
   }
 
   init(ctx: Context) {
@@ -35,9 +51,11 @@ export class EntitiesManager<Entity extends EntityWithId> {
    */
   addPrefetchItemId(itemIdOrList: string | string[]): void {
     if (Array.isArray(itemIdOrList)) {
-      this.prefetchItemIdsList.push(...itemIdOrList);
+      this.prefetchItemIdsList.push(
+        ...itemIdOrList.map((id) => this.normalizeId(id))
+      );
     } else {
-      this.prefetchItemIdsList.push(itemIdOrList);
+      this.prefetchItemIdsList.push(this.normalizeId(itemIdOrList));
     }
   }
 
@@ -92,11 +110,12 @@ export class EntitiesManager<Entity extends EntityWithId> {
     relations?: FindOptionsRelations<Entity>
   ): Promise<Entity | null> {
     if (!this.context) throw new Error('context is not defined');
-    let item = this.entitiesMap.get(id) || null;
+    const entityId = this.normalizeId(id);
+    let item = this.entitiesMap.get(entityId) || null;
 
     if (!item) {
       const requestParams = {
-        where: { id }
+        where: { id: entityId }
       } as FindOneOptions<Entity>;
 
       if (relations) requestParams.relations = relations;
@@ -116,4 +135,17 @@ export class EntitiesManager<Entity extends EntityWithId> {
     await this.context.store.save([...this.entitiesMap.values()]);
     this.entitiesMap.clear();
   }
+
+  /**
+   * Run raw SQL query in the transaction of the batch. It's used for bulk
+   * updates of stored entities, which are not exposed by the store API.
+   */
+  async query(sql: string, parameters?: unknown[]): Promise<unknown> {
+    if (!this.context) throw new Error('context is not defined');
+    const em = await (
+      this.context.store as unknown as { em: () => Promise<EntityManager> }
+    ).em();
+
+    return em.query(sql, parameters);
+  }
 }
@@ -0,0 +1,36 @@
+import { ContractCapabilities } from '../../../model';
+import {
+  createContractCapabilities,
+  probeContractInterfaces
+} from '../../contractCapabilities';
+import { EntitiesManager } from './common';
+
+export class ContractCapabilitiesManager extends EntitiesManager<ContractCapabilities> {
+  constructor(entity: typeof ContractCapabilities) {
+    super({ entity, isAddressId: true });
+  }
+
+  /**
+   * Get persisted capabilities of the contract or probe its interfaces, if
+   * contract hasn't been probed yet.
+   */
+  async getOrCreate(id: string): Promise<ContractCapabilities> {
+    if (!this.context) throw new Error('context is not defined');
+
+    const capabilitiesId = this.normalizeId(id);
+    let capabilities = await this.get(capabilitiesId);
+
+    if (!capabilities) {
+      capabilities = createContractCapabilities({
+        id: capabilitiesId,
+        interfaces: await probeContractInterfaces({
+          contractAddress: capabilitiesId,
+          ctx: this.context
+        })
+      });
+    }
+    this.add(capabilities);
+
+    return capabilities;
+  }
+}
@@ -0,0 +1,202 @@
+import {
+  ClassificationMethod,
+  ContractClassification,
+  ContractStandard
+} from '../../../model';
+import {
+  createContractClassification,
+  getSharedTopicLogShape,
+  alignSharedTopicLogLayout,
+  probeContractStandard
+} from '../../contractClassifications';
+import { EntitiesManager } from './common';
+import { EvmLogArgs } from '../../../common/types';
+import { blockContextManager } from '../blockContextUtils';
+
+export type SharedTopicLog = {
+  contractStandard: ContractStandard.ERC20 | ContractStandard.ERC721;
+  args: EvmLogArgs;
+};
+
+export class ContractClassificationsManager extends EntitiesManager<ContractClassification> {
+  /**
+   * Resolved shared topic logs of the batch by event ID. Null is stored for
+   * skipped logs.
+   */
+  sharedTopicLogs: Map<string, SharedTopicLog | null> = new Map();
+
+  constructor(entity: typeof ContractClassification) {
+    super({ entity, isAddressId: true });
+  }
+
+  async getOrCreate({
+    id,
+    contractStandard,
+    method
+  }: {
+    id: string;
+    contractStandard: ContractStandard;
+    method: ClassificationMethod;
+  }): Promise<ContractClassification> {
+    if (!this.context) throw new Error('context is not defined');
+
+    const classificationId = this.normalizeId(id);
+    let classification = await this.get(classificationId);
+
+    if (!classification) {
+      classification = createContractClassification({
+        id: classificationId,
+        contractStandard,
+        method
+      });
+    }
+    this.add(classification);
+
+    return classification;
+  }
+
+  /**
+   * Resolve contract standard of the current "Transfer" or "Approval" log,
+   * which topics are shared by ERC20 and ERC721. Persisted verdict of the
+   * contract has priority. Otherwise contract is probed with ERC-165 and the
+   * log shape is used only if contract doesn't implement ERC-165, so verdict
+   * is never persisted by the shape of the first log alone.
+   *
+   * Returns log arguments aligned to the layout of resolved standard, so they
+   * can be decoded with appropriate ABI, or null if log must be skipped.
+   * Verdict is cached per log for the batch.
+   */
+  async resolveSharedTopicLog(): Promise<SharedTopicLog | null> {
+    if (!this.context) throw new Error('context is not defined');
+    const event = blockContextManager.getCurrentEvent();
+    const cachedLog = this.sharedTopicLogs.get(event.id);
+    if (cachedLog !== undefined) return cachedLog;
+
+    const contractAddress: string = event.args.address;
+    const logShape = getSharedTopicLogShape(event.args);
+    let classification = await this.get(contractAddress);
+
+    if (
+      classification &&
+      logShape &&
+      logShape !== classification.contractStandard
+    ) {
+      this.context.log.warn(
+        `Log ${event.id} has ${logShape} layout, but contract ${contractAddress} is classified as ${classification.contractStandard}. Log is skipped.`
+      );
+      this.sharedTopicLogs.set(event.id, null);
+      return null;
+    }
+
+    let contractStandard = classification
+      ? classification.contractStandard
+      : await this.resolveContractStandard(contractAddress);
+
+    if (!contractStandard && logShape) {
+      classification = await this.getOrCreate({
+        id: contractAddress,
+        contractStandard: logShape,
+        method: ClassificationMethod.LOG_SHAPE
+      });
+      contractStandard = classification.contractStandard;
+    }
+
+    if (
+      contractStandard !== ContractStandard.ERC20 &&
+      contractStandard !== ContractStandard.ERC721
+    ) {
+      this.context.log.warn(
+        `Log ${event.id} of contract ${contractAddress} cannot be classified as ERC20 or ERC721. Log is skipped.`
+      );
+      this.sharedTopicLogs.set(event.id, null);
+      return null;
+    }
+
+    const sharedTopicLog = {
+      contractStandard,
+      args: {
+        ...event.args,
+        ...alignSharedTopicLogLayout(event.args, contractStandard)
+      }
+    };
+    this.sharedTopicLogs.set(event.id, sharedTopicLog);
+
+    return sharedTopicLog;
+  }
+
+  /**
+   * Possible interpretations of the current shared topic log for prefetch,
+   * which must not run ERC-165 probes. Persisted verdict or log shape is used,
+   * log of unclassified contract with non-conclusive shape is prefetched as
+   * both ERC20 and ERC721. Nothing is persisted or cached.
+   */
+  async getSharedTopicLogCandidates(): Promise<SharedTopicLog[]> {
+    const event = blockContextManager.getCurrentEvent();
+    const logShape = getSharedTopicLogShape(event.args);
+    const classification = await this.get(event.args.address);
+
+    let contractStandards: ContractStandard[] = [
+      ContractStandard.ERC20,
+      ContractStandard.ERC721
+    ];
+    if (classification) {
+      contractStandards =
+        !logShape || logShape === classification.contractStandard
+          ? [classification.contractStandard]
+          : [];
+    } else if (logShape) {
+      contractStandards = [logShape];
+    }
+
+    const candidates: SharedTopicLog[] = [];
+    for (const contractStandard of contractStandards) {
+      const args = {
+        ...event.args,
+        ...alignSharedTopicLogLayout(event.args, contractStandard)
+      };
+      // Logs with unexpected number of arguments can't be decoded
+      if (
+        (contractStandard === ContractStandard.ERC20 ||
+          contractStandard === ContractStandard.ERC721) &&
+        getSharedTopicLogShape(args) === contractStandard
+      ) {
+        candidates.push({ contractStandard, args });
+      }
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Get persisted verdict of the contract or detect its standard with ERC-165
+   * probes, if contract hasn't been classified yet.
+   */
+  async resolveContractStandard(
+    contractAddress: string
+  ): Promise<ContractStandard | null> {
+    if (!this.context) throw new Error('context is not defined');
+
+    let classification = await this.get(contractAddress);
+
+    if (!classification) {
+      const probedStandard = await probeContractStandard({
+        contractAddress,
+        ctx: this.context
+      });
+      if (probedStandard) {
+        classification = await this.getOrCreate({
+          id: contractAddress,
+          contractStandard: probedStandard,
+          method: ClassificationMethod.ERC165
+        });
+      }
+    }
+
+    return classification ? classification.contractStandard : null;
+  }
+
+  async saveAll(): Promise<void> {
+    this.sharedTopicLogs.clear();
+    await super.saveAll();
+  }
+}
@@ -0,0 +1,38 @@
+import { Account, ContractDeployment } from '../../../model';
+import { createContractDeployment } from '../../contractDeployments';
+import { EntitiesManager } from './common';
+
+export class ContractDeploymentsManager extends EntitiesManager<ContractDeployment> {
+  constructor(entity: typeof ContractDeployment) {
+    super({ entity, isAddressId: true });
+  }
+
+  async getOrCreate({
+    id,
+    deployer,
+    factory,
+    txnHash
+  }: {
+    id: string;
+    deployer: Account | null;
+    factory: string | null;
+    txnHash: string;
+  }): Promise<ContractDeployment> {
+    if (!this.context) throw new Error('context is not defined');
+
+    const deploymentId = this.normalizeId(id);
+    let deployment = await this.get(deploymentId);
+
+    if (!deployment) {
+      deployment = createContractDeployment({
+        id: deploymentId,
+        deployer,
+        factory,
+        txnHash
+      });
+    }
+    this.add(deployment);
+
+    return deployment;
+  }
+}
@@ -0,0 +1,262 @@
+import {
+  Account,
+  Collection,
+  DappsStakingContract,
+  DappsStakingContractType,
+  DappsStakingNominationTransfer,
+  DappsStakingPosition,
+  DappsStakingReward,
+  FToken
+} from '../../../model';
+import { EntitiesManager } from './common';
+import {
+  createDappsStakingContract,
+  createDappsStakingNominationTransfer,
+  createDappsStakingPosition,
+  createDappsStakingReward
+} from '../../dappsStaking';
+import { getDappsStakingPositionEntityId } from '../common';
+import {
+  DappsStakingContractDetails,
+  TokenBalanceAction
+} from '../../../common/types';
+import * as utils from '../index';
+
+/**
+ * ::::::::::::: DAPPS STAKING CONTRACTS :::::::::::::
+ */
+export class DappsStakingContractsManager extends EntitiesManager<DappsStakingContract> {
+  constructor(entity: typeof DappsStakingContract) {
+    super({ entity, isAddressId: true });
+  }
+
+  /**
+   * Staking contract is linked to token or collection of the same EVM
+   * contract, if they are already indexed. Tokens and collections, which
+   * are created later, are linked on their creation.
+   */
+  async getOrCreate({
+    id,
+    contractType
+  }: DappsStakingContractDetails): Promise<DappsStakingContract> {
+    if (!this.context) throw new Error('context is not defined');
+
+    let contract = await this.get(id);
+
+    if (!contract) {
+      const isEvmContract = contractType === DappsStakingContractType.EVM;
+      contract = createDappsStakingContract({
+        id: this.normalizeId(id),
+        contractType,
+        fToken: isEvmContract ? await utils.entity.fTokenManager.get(id) : null,
+        collection: isEvmContract
+          ? await utils.entity.collectionManager.get(id)
+          : null
+      });
+    }
+    this.add(contract);
+
+    return contract;
+  }
+
+  register({
+    contract,
+    developer
+  }: {
+    contract: DappsStakingContract;
+    developer: Account;
+  }): void {
+    const block = utils.common.blockContextManager.getCurrentBlock();
+
+    contract.developer = developer;
+    contract.registeredAtBlock = BigInt(block.height);
+    contract.registeredAt = new Date(block.timestamp);
+
+    this.add(contract);
+  }
+
+  /**
+   * Link already indexed staking contract to newly created token.
+   */
+  async setFToken(token: FToken): Promise<void> {
+    const contract = await this.get(token.id);
+    if (!contract) return;
+
+    contract.fToken = token;
+    this.add(contract);
+  }
+
+  /**
+   * Link already indexed staking contract to newly created collection.
+   */
+  async setCollection(collection: Collection): Promise<void> {
+    const contract = await this.get(collection.id);
+    if (!contract) return;
+
+    contract.collection = collection;
+    this.add(contract);
+  }
+
+  /**
+   * Positions which are changed from 0 to positive value and back increase
+   * and decrease number of contract stakers.
+   */
+  updateStake({
+    contract,
+    prevAmount,
+    newAmount
+  }: {
+    contract: DappsStakingContract;
+    prevAmount: bigint;
+    newAmount: bigint;
+  }): void {
+    contract.totalStaked += newAmount - prevAmount;
+    if (contract.totalStaked < BigInt(0)) contract.totalStaked = BigInt(0);
+
+    const wasStaker = prevAmount > BigInt(0);
+    const isStaker = newAmount > BigInt(0);
+
+    if (!wasStaker && isStaker) contract.stakerCount += 1;
+    if (wasStaker && !isStaker) contract.stakerCount -= 1;
+
+    this.add(contract);
+  }
+}
+
+/**
+ * ::::::::::::: DAPPS STAKING POSITIONS :::::::::::::
+ */
+export class DappsStakingPositionsManager extends EntitiesManager<DappsStakingPosition> {
+  constructor(entity: typeof DappsStakingPosition) {
+    super({ entity });
+  }
+
+  async updatePosition({
+    account,
+    contract,
+    amount,
+    action
+  }: {
+    account: Account;
+    contract: DappsStakingContract;
+    amount: bigint;
+    action: TokenBalanceAction;
+  }): Promise<void> {
+    if (!this.context) throw new Error('context is not defined');
+
+    const block = utils.common.blockContextManager.getCurrentBlock();
+    let position = await this.get(
+      getDappsStakingPositionEntityId(account.id, contract.id)
+    );
+
+    if (!position) {
+      position = createDappsStakingPosition({ account, contract });
+    }
+    const prevAmount = position.amount;
+
+    switch (action) {
+      case TokenBalanceAction.add:
+        position.amount += amount;
+        break;
+      case TokenBalanceAction.sub:
+        position.amount -= amount;
+        break;
+      default:
+    }
+    /**
+     * Stakes made before the first indexed block are unknown, so position
+     * can be less than unstaked amount.
+     */
+    if (position.amount < BigInt(0)) position.amount = BigInt(0);
+    position.updatedAt = new Date(block.timestamp);
+    position.updatedAtBlock = BigInt(block.height);
+
+    this.add(position);
+
+    utils.entity.dappsStakingContractsManager.updateStake({
+      contract,
+      prevAmount,
+      newAmount: position.amount
+    });
+  }
+}
+
+/**
+ * ::::::::::::: DAPPS STAKING REWARDS :::::::::::::
+ */
+export class DappsStakingRewardsManager extends EntitiesManager<DappsStakingReward> {
+  constructor(entity: typeof DappsStakingReward) {
+    super({ entity });
+  }
+
+  async getOrCreate({
+    id,
+    account,
+    contract,
+    era,
+    amount
+  }: {
+    id: string;
+    account: Account;
+    contract: DappsStakingContract;
+    era: number;
+    amount: bigint;
+  }): Promise<DappsStakingReward> {
+    if (!this.context) throw new Error('context is not defined');
+
+    let reward = await this.get(id);
+
+    if (!reward) {
+      reward = createDappsStakingReward({
+        id,
+        account,
+        contract,
+        era,
+        amount
+      });
+    }
+    this.add(reward);
+
+    return reward;
+  }
+}
+
+/**
+ * ::::::::::::: DAPPS STAKING NOMINATION TRANSFERS :::::::::::::
+ */
+export class DappsStakingNominationTransfersManager extends EntitiesManager<DappsStakingNominationTransfer> {
+  constructor(entity: typeof DappsStakingNominationTransfer) {
+    super({ entity });
+  }
+
+  async getOrCreate({
+    id,
+    account,
+    originContract,
+    targetContract,
+    amount
+  }: {
+    id: string;
+    account: Account;
+    originContract: DappsStakingContract;
+    targetContract: DappsStakingContract;
+    amount: bigint;
+  }): Promise<DappsStakingNominationTransfer> {
+    if (!this.context) throw new Error('context is not defined');
+
+    let nominationTransfer = await this.get(id);
+
+    if (!nominationTransfer) {
+      nominationTransfer = createDappsStakingNominationTransfer({
+        id,
+        account,
+        originContract,
+        targetContract,
+        amount
+      });
+    }
+    this.add(nominationTransfer);
+
+    return nominationTransfer;
+  }
+}
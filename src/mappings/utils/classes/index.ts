@@ -8,3 +8,23 @@ export {
   AccountsNftTransferManager
 } from './accountTransfer';
 export { AccountFTokenBalancesManager } from './accountFTokenBalance';
+export { ContractClassificationsManager } from './contractClassification';
+export { ContractDeploymentsManager } from './contractDeployment';
+export { ContractCapabilitiesManager } from './contractCapabilities';
+export { AccountNfTokenBalancesManager } from './accountNfTokenBalance';
+export { AccountFTokenBalanceHistoriesManager } from './accountFTokenBalanceHistory';
+export { FTokenAllowancesManager } from './allowance';
+export { FTokenApprovalsManager } from './approval';
+export { OperatorApprovalsManager } from './operatorApproval';
+export { AccountCollectionBalancesManager } from './accountCollectionBalance';
+export { NfTokenMetadataManager } from './nfTokenMetadata';
+export { NfTokenAttributesManager } from './nfTokenAttribute';
+export { CollectionTraitsManager } from './collectionTrait';
+export {
+  DappsStakingContractsManager,
+  DappsStakingPositionsManager,
+  DappsStakingRewardsManager,
+  DappsStakingNominationTransfersManager
+} from './dappsStaking';
+export { BalanceCorrectionsManager } from './balanceCorrection';
+export { IndexingAnomaliesManager } from './indexingAnomaly';
@@ -0,0 +1,58 @@
+import {
+  Account,
+  Collection,
+  FToken,
+  IndexingAnomaly,
+  IndexingAnomalyType,
+  NfToken
+} from '../../../model';
+import { EntitiesManager } from './common';
+import { createIndexingAnomaly } from '../../indexingAnomalies';
+
+/**
+ * ::::::::::::: INDEXING ANOMALIES :::::::::::::
+ *
+ * Log of data-quality issues (e.g. balances and supplies going below zero),
+ * which are usually caused by missed or non-standard events. Anomalies are
+ * only recorded, affected values are kept as they are computed.
+ */
+export class IndexingAnomaliesManager extends EntitiesManager<IndexingAnomaly> {
+  constructor(entity: typeof IndexingAnomaly) {
+    super({ entity });
+  }
+
+  record({
+    anomalyType,
+    account = null,
+    fToken = null,
+    nfToken = null,
+    collection = null,
+    previousAmount,
+    amount,
+    details
+  }: {
+    anomalyType: IndexingAnomalyType;
+    account?: Account | null;
+    fToken?: FToken | null;
+    nfToken?: NfToken | null;
+    collection?: Collection | null;
+    previousAmount: bigint;
+    amount: bigint;
+    details: string;
+  }): void {
+    const anomaly = createIndexingAnomaly({
+      anomalyType,
+      account,
+      fToken,
+      nfToken,
+      collection,
+      previousAmount,
+      amount,
+      details
+    });
+    if (!this.context) throw new Error('context is not defined');
+    this.context.log.warn(`Indexing anomaly ${anomaly.id}: ${details}`);
+
+    this.add(anomaly);
+  }
+}
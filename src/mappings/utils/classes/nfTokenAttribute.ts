@@ -0,0 +1,129 @@
+import { NfTokenAttribute } from '../../../model';
+import { EntitiesManager } from './common';
+import * as utils from '../index';
+import {
+  createNfTokenAttribute,
+  normalizeNfTokenAttributes
+} from '../../nfTokenAttributes';
+import { getCollectionTraitEntityId } from '../common';
+
+/**
+ * ::::::::::::: ERC721/ERC1155 TOKEN ATTRIBUTES :::::::::::::
+ */
+export class NfTokenAttributesManager extends EntitiesManager<NfTokenAttribute> {
+  removedItemIds: Set<string> = new Set();
+
+  constructor(entity: typeof NfTokenAttribute) {
+    super({ entity });
+  }
+
+  /**
+   * Replace attributes of the token by attributes from fetched metadata and
+   * update trait counters of the collection.
+   */
+  async syncTokenAttributes({
+    tokenId,
+    rawAttributes
+  }: {
+    tokenId: string;
+    rawAttributes: unknown;
+  }): Promise<void> {
+    const token = await utils.entity.nfTokenManager.get(tokenId, {
+      currentOwner: true,
+      collection: true
+    });
+    if (!token) return;
+
+    const collection = await utils.entity.collectionManager.get(
+      token.collection.id
+    );
+    if (!collection) return;
+
+    const prevAttributes = await this.getTokenAttributes(token.id);
+    const attributes = normalizeNfTokenAttributes(rawAttributes);
+
+    if (prevAttributes.length === 0 && attributes.length === 0) return;
+
+    for (const prevAttribute of prevAttributes) {
+      const trait = await utils.entity.collectionTraitsManager.get(
+        getCollectionTraitEntityId(
+          collection.id,
+          prevAttribute.traitType,
+          prevAttribute.value
+        )
+      );
+      if (trait) {
+        trait.tokenCount -= 1;
+        utils.entity.collectionTraitsManager.add(trait);
+      }
+      this.entitiesMap.delete(prevAttribute.id);
+      this.removedItemIds.add(prevAttribute.id);
+    }
+
+    for (const [index, attribute] of attributes.entries()) {
+      const trait = await utils.entity.collectionTraitsManager.getOrCreate({
+        collection,
+        traitType: attribute.traitType,
+        value: attribute.value
+      });
+      trait.tokenCount += 1;
+
+      const tokenAttribute = createNfTokenAttribute({
+        token,
+        collection,
+        trait,
+        index,
+        displayType: attribute.displayType
+      });
+      this.removedItemIds.delete(tokenAttribute.id);
+      this.add(tokenAttribute);
+    }
+
+    if (prevAttributes.length === 0) collection.attributedTokenCount += 1;
+    if (attributes.length === 0) {
+      collection.attributedTokenCount -= 1;
+      token.rarityScore = null;
+      utils.entity.nfTokenManager.add(token);
+    }
+    collection.isRarityOutdated = true;
+    utils.entity.collectionManager.add(collection);
+  }
+
+  /**
+   * Get current attributes of the token from local cache and DB.
+   */
+  async getTokenAttributes(tokenId: string): Promise<NfTokenAttribute[]> {
+    if (!this.context) throw new Error('context is not defined');
+
+    const tokenAttributes = new Map<string, NfTokenAttribute>();
+    const storedAttributes = await this.context.store.find(NfTokenAttribute, {
+      where: { token: { id: tokenId } }
+    });
+
+    for (const attribute of storedAttributes) {
+      if (!this.removedItemIds.has(attribute.id))
+        tokenAttributes.set(attribute.id, attribute);
+    }
+    for (const attribute of this.entitiesMap.values()) {
+      if (attribute.token.id === tokenId)
+        tokenAttributes.set(attribute.id, attribute);
+    }
+
+    return [...tokenAttributes.values()];
+  }
+
+  /**
+   * Remove replaced attributes and save current ones.
+   */
+  async saveAll(): Promise<void> {
+    if (!this.context) throw new Error('context is not defined');
+
+    if (this.removedItemIds.size > 0) {
+      await this.context.store.remove(NfTokenAttribute, [
+        ...this.removedItemIds
+      ]);
+      this.removedItemIds.clear();
+    }
+    await super.saveAll();
+  }
+}
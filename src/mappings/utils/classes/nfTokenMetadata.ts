@@ -0,0 +1,299 @@
+import { IsNull, LessThanOrEqual, Not } from 'typeorm';
+import {
+  NfToken,
+  NfTokenMetadata,
+  NfTokenMetadataStatus
+} from '../../../model';
+import { EntitiesManager } from './common';
+import * as utils from '../index';
+import {
+  createNfTokenMetadata,
+  fetchNfTokenMetadata,
+  getNfTokenMetadataErrorCode,
+  normalizeTokenUri
+} from '../../nfTokenMetadata';
+import {
+  NfTokenMetadataDetails,
+  NfTokenMetadataError
+} from '../../../common/types';
+import {
+  nfTokenMetadataConcurrency,
+  nfTokenMetadataFetchEnabled,
+  nfTokenMetadataMaxAttempts,
+  nfTokenMetadataQueueSize,
+  nfTokenMetadataRetryDelay,
+  nfTokenUriReadBatchSize
+} from '../../../config';
+
+type NfTokenMetadataFetchResult = {
+  uri: string;
+  details: NfTokenMetadataDetails | null;
+  error: NfTokenMetadataError | null;
+};
+
+/**
+ * ::::::::::::: ERC721/ERC1155 TOKEN METADATA :::::::::::::
+ *
+ * Metadata is fetched in background and is never awaited by event handlers.
+ * Settled results are applied to entities in the end of the batch, pending
+ * and failed fetches are picked up from DB again by "scheduleRetries". Fetches
+ * over the queue size are not queued, they stay pending in DB.
+ */
+export class NfTokenMetadataManager extends EntitiesManager<NfTokenMetadata> {
+  fetchQueue: Map<string, string> = new Map();
+
+  fetchesInFlight: Set<string> = new Set();
+
+  fetchResults: Map<string, NfTokenMetadataFetchResult> = new Map();
+
+  constructor(entity: typeof NfTokenMetadata) {
+    super({ entity });
+  }
+
+  /**
+   * Request metadata resolution for the token, if its URI has been changed.
+   * Forced request re-fetches metadata of unchanged URI (e.g. on EIP-4906
+   * "MetadataUpdate" event).
+   */
+  async enqueue(token: NfToken, isForced = false): Promise<void> {
+    if (!token.uri) return;
+
+    let metadata = await this.get(token.id);
+    if (metadata && metadata.rawUri === token.uri && !isForced) return;
+
+    const uri = normalizeTokenUri(token.uri, token.nativeId);
+
+    if (!metadata) {
+      metadata = createNfTokenMetadata({
+        token,
+        rawUri: token.uri,
+        uri: uri ?? token.uri
+      });
+    } else {
+      metadata.rawUri = token.uri;
+      metadata.uri = uri ?? token.uri;
+      metadata.status = NfTokenMetadataStatus.PENDING;
+      metadata.attempts = 0;
+      metadata.error = null;
+      metadata.nextAttemptAt = new Date();
+      metadata.updatedAt = new Date();
+    }
+
+    if (!uri) {
+      metadata.status = NfTokenMetadataStatus.FAILED;
+      metadata.error = NfTokenMetadataError.unsupportedUri;
+      metadata.nextAttemptAt = null;
+    }
+    this.add(metadata);
+
+    if (uri) this.scheduleFetch(metadata.id, uri);
+  }
+
+  /**
+   * Request metadata resolution for the token, which has been created without
+   * URI. URI is read from the contract by "readRequestedUris".
+   */
+  requestUri(token: NfToken): void {
+    this.add(createNfTokenMetadata({ token, rawUri: null, uri: null }));
+  }
+
+  /**
+   * Read URIs of requested tokens and schedule their metadata fetches. Not
+   * more than "nfTokenUriReadBatchSize" URIs are read per batch, the rest is
+   * picked up from DB by next batches.
+   */
+  async readRequestedUris(): Promise<void> {
+    if (!this.context) throw new Error('context is not defined');
+
+    const requestedItems = [...this.entitiesMap.values()]
+      .filter(
+        (metadata) =>
+          metadata.rawUri === null &&
+          metadata.status === NfTokenMetadataStatus.PENDING
+      )
+      .slice(0, nfTokenUriReadBatchSize);
+
+    if (requestedItems.length < nfTokenUriReadBatchSize) {
+      const storedItems = await this.context.store.find(NfTokenMetadata, {
+        where: {
+          rawUri: IsNull(),
+          status: NfTokenMetadataStatus.PENDING
+        },
+        order: { id: 'ASC' },
+        take: nfTokenUriReadBatchSize
+      });
+      for (const item of storedItems) {
+        if (requestedItems.length >= nfTokenUriReadBatchSize) break;
+        if (!this.entitiesMap.has(item.id)) requestedItems.push(item);
+      }
+    }
+
+    for (const metadata of requestedItems) {
+      const token = await utils.entity.nfTokenManager.get(metadata.id, {
+        currentOwner: true,
+        collection: true
+      });
+      if (token) {
+        await utils.entity.nfTokenManager.refreshUri({
+          token,
+          contractAddress: token.collection.id
+        });
+        metadata.token = token;
+        this.add(metadata);
+
+        if (token.uri) {
+          utils.entity.nfTokenManager.add(token);
+          await this.enqueue(token);
+        } else {
+          metadata.status = NfTokenMetadataStatus.FAILED;
+          metadata.error = NfTokenMetadataError.uriNotAvailable;
+          metadata.nextAttemptAt = null;
+          metadata.updatedAt = new Date();
+        }
+      }
+    }
+  }
+
+  scheduleFetch(id: string, uri: string): void {
+    if (!nfTokenMetadataFetchEnabled) return;
+    if (
+      this.fetchQueue.size >= nfTokenMetadataQueueSize &&
+      !this.fetchQueue.has(id)
+    )
+      return;
+
+    this.fetchQueue.set(id, uri);
+    this.processFetchQueue();
+  }
+
+  processFetchQueue(): void {
+    for (const [id, uri] of this.fetchQueue) {
+      if (this.fetchesInFlight.size >= nfTokenMetadataConcurrency) return;
+      if (!this.fetchesInFlight.has(id)) {
+        this.fetchQueue.delete(id);
+        this.fetchesInFlight.add(id);
+
+        fetchNfTokenMetadata(uri)
+          .then(
+            (details): NfTokenMetadataFetchResult => ({
+              uri,
+              details,
+              error: null
+            }),
+            (error): NfTokenMetadataFetchResult => {
+              this.context?.log.warn(
+                { err: error },
+                `Metadata of token ${id} cannot be fetched`
+              );
+              return {
+                uri,
+                details: null,
+                error: getNfTokenMetadataErrorCode(error)
+              };
+            }
+          )
+          .then((result) => {
+            this.fetchResults.set(id, result);
+            this.fetchesInFlight.delete(id);
+            this.processFetchQueue();
+          })
+          .catch((error) =>
+            this.context?.log.error(
+              { err: error },
+              `Metadata fetch of token ${id} cannot be settled`
+            )
+          );
+      }
+    }
+  }
+
+  /**
+   * Apply settled fetch results to metadata entities. Must be evoked before
+   * "saveAll".
+   */
+  async applyFetchResults(): Promise<void> {
+    for (const [id, result] of this.fetchResults) {
+      this.fetchResults.delete(id);
+
+      const metadata = await this.get(id);
+      /**
+       * Result is dropped, if token URI has been changed while previous URI
+       * was being fetched.
+       */
+      if (metadata && metadata.uri === result.uri) {
+        this.applyFetchResult(metadata, result);
+        this.add(metadata);
+
+        if (result.details) {
+          await utils.entity.nfTokenAttributesManager.syncTokenAttributes({
+            tokenId: metadata.id,
+            rawAttributes: result.details.attributes
+          });
+        }
+      }
+    }
+  }
+
+  applyFetchResult(
+    metadata: NfTokenMetadata,
+    result: NfTokenMetadataFetchResult
+  ): void {
+    metadata.attempts += 1;
+    metadata.updatedAt = new Date();
+
+    if (result.details) {
+      metadata.name = result.details.name;
+      metadata.description = result.details.description;
+      metadata.image = result.details.image;
+      metadata.animationUrl = result.details.animationUrl;
+      metadata.attributes = result.details.attributes;
+      metadata.status = NfTokenMetadataStatus.FETCHED;
+      metadata.error = null;
+      metadata.nextAttemptAt = null;
+    } else if (metadata.attempts >= nfTokenMetadataMaxAttempts) {
+      metadata.status = NfTokenMetadataStatus.FAILED;
+      metadata.error = result.error;
+      metadata.nextAttemptAt = null;
+    } else {
+      metadata.status = NfTokenMetadataStatus.PENDING;
+      metadata.error = result.error;
+      metadata.nextAttemptAt = new Date(
+        Date.now() + nfTokenMetadataRetryDelay * metadata.attempts * 1000
+      );
+    }
+  }
+
+  /**
+   * Schedule fetches of pending metadata which are due for (re)try. It covers
+   * failed attempts, fetches which have not been queued as the queue was full
+   * and fetches which have been lost on processor restart.
+   */
+  async scheduleRetries(): Promise<void> {
+    if (!this.context) throw new Error('context is not defined');
+    if (!nfTokenMetadataFetchEnabled) return;
+
+    const capacity = nfTokenMetadataQueueSize - this.fetchQueue.size;
+    if (capacity <= 0) return;
+
+    const dueItems = await this.context.store.find(NfTokenMetadata, {
+      where: {
+        uri: Not(IsNull()),
+        status: NfTokenMetadataStatus.PENDING,
+        nextAttemptAt: LessThanOrEqual(new Date())
+      },
+      order: { nextAttemptAt: 'ASC' },
+      take: capacity + this.fetchesInFlight.size + this.fetchResults.size
+    });
+
+    for (const item of dueItems) {
+      if (
+        item.uri &&
+        !this.fetchQueue.has(item.id) &&
+        !this.fetchesInFlight.has(item.id) &&
+        !this.fetchResults.has(item.id)
+      ) {
+        this.scheduleFetch(item.id, item.uri);
+      }
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import { Account, Collection, OperatorApproval } from '../../../model';
+import { EntitiesManager } from './common';
+import { createOperatorApproval } from '../../operatorApprovals';
+import { getOperatorApprovalEntityId } from '../common';
+import { blockContextManager } from '../blockContextUtils';
+
+/**
+ * ::::::::::::: ERC721/ERC1155 OPERATOR APPROVALS :::::::::::::
+ */
+export class OperatorApprovalsManager extends EntitiesManager<OperatorApproval> {
+  constructor(entity: typeof OperatorApproval) {
+    super({ entity });
+  }
+
+  async updateApproval({
+    owner,
+    operator,
+    collection,
+    approved
+  }: {
+    owner: Account;
+    operator: Account;
+    collection: Collection;
+    approved: boolean;
+  }): Promise<OperatorApproval> {
+    if (!this.context) throw new Error('context is not defined');
+    const block = blockContextManager.getCurrentBlock();
+
+    let operatorApproval = await this.get(
+      getOperatorApprovalEntityId(collection.id, owner.id, operator.id)
+    );
+
+    if (!operatorApproval) {
+      operatorApproval = createOperatorApproval({
+        owner,
+        operator,
+        collection,
+        approved
+      });
+    } else {
+      operatorApproval.approved = approved;
+      operatorApproval.updatedAt = new Date(block.timestamp);
+      operatorApproval.updatedAtBlock = BigInt(block.height);
+    }
+    this.add(operatorApproval);
+
+    return operatorApproval;
+  }
+}
@@ -1,23 +1,55 @@
+import { In, Raw } from 'typeorm';
+import { BigNumber } from 'ethers';
 import {
   Account,
   Collection,
+  ContractDeployment,
   ContractStandard,
   FToken,
-  NfToken
+  FTokenBehaviour,
+  IndexingAnomalyType,
+  NfToken,
+  TransferType
 } from '../../../model';
-import { SubstrateBlock } from '@subsquid/substrate-processor';
-import { createFToken, createNfToken } from '../../tokens';
-import { BigNumber } from 'ethers';
-import { getTokenEntityId } from '../common';
+import * as erc20 from '../../../abi/erc20';
+import {
+  createConsecutiveNfTokens,
+  createFToken,
+  createNativeFToken,
+  createNfToken
+} from '../../tokens';
+import {
+  EMPTY_ADDRESS,
+  NATIVE_TOKEN_ADDRESS,
+  getTokenEntityId,
+  isEvmAddress,
+  normalizeAddress,
+  splitIntoBatches
+} from '../common';
 import { EntitiesManager } from './common';
-import { getTokenDetails } from '../../tokens/utils';
+import {
+  getFTokenBalanceOf,
+  getFTokenTotalSupply,
+  getNativeTokenTotalSupply,
+  getNfTokenUri,
+  getRoyaltyDetails,
+  getTokenDetails,
+  isRoyaltyOutdated,
+  isTokenMetadataSupported
+} from '../../tokens/utils';
+import {
+  balanceDriftThreshold,
+  fTokenBehaviourProbeCount,
+  fTokenSupplyCheckInterval
+} from '../../../config';
+import * as utils from '../index';
 
 /**
  * ::::::::::::: ERC20 TOKEN :::::::::::::
  */
 export class FTokenManager extends EntitiesManager<FToken> {
   constructor(entity: typeof FToken) {
-    super({ entity });
+    super({ entity, isAddressId: true });
   }
 
   async getOrCreate({
@@ -28,15 +60,22 @@ export class FTokenManager extends EntitiesManager<FToken> {
     contractStandard: ContractStandard;
   }): Promise<FToken> {
     if (!this.context) throw new Error('context is not defined');
-    let token = await this.get(contractAddress);
+    const tokenId = this.normalizeId(contractAddress);
+    let token = await this.get(tokenId);
 
-    if (!token || (token && (!token.name || !token.symbol))) {
+    if (!token && tokenId === NATIVE_TOKEN_ADDRESS) {
+      token = await createNativeFToken({ ctx: this.context });
+    } else if (!token) {
       token = await createFToken({
         ctx: this.context,
-        contractAddress,
-        contractStandard
+        contractAddress: tokenId,
+        contractStandard,
+        deployment: await utils.entity.contractDeploymentsManager.get(tokenId),
+        capabilities:
+          await utils.entity.contractCapabilitiesManager.getOrCreate(tokenId)
       });
-    } else if (token && (!token.name || !token.symbol)) {
+      await utils.entity.dappsStakingContractsManager.setFToken(token);
+    } else if (!token.name || !token.symbol) {
       const tokenDetails = await getTokenDetails({
         contractAddress,
         contractStandard,
@@ -49,6 +88,260 @@ export class FTokenManager extends EntitiesManager<FToken> {
 
     return token;
   }
+
+  /**
+   * Attach deployment to already created token of the contract.
+   */
+  async setDeployment(deployment: ContractDeployment): Promise<void> {
+    const token = await this.get(deployment.id);
+    if (!token) return;
+
+    token.deployment = deployment;
+    this.add(token);
+  }
+
+  /**
+   * Apply transfer to supply counters of the token. Must be evoked before
+   * transfer amount is applied to account balances.
+   */
+  async updateSupply({
+    token,
+    amount,
+    transferType
+  }: {
+    token: FToken;
+    amount: bigint;
+    transferType: TransferType;
+  }): Promise<void> {
+    await this.checkTotalSupply(token);
+    const prevTotalSupply = token.totalSupply;
+
+    switch (transferType) {
+      case TransferType.MINT:
+        token.totalSupply += amount;
+        token.mintedTotal += amount;
+        break;
+      case TransferType.BURN:
+        token.totalSupply -= amount;
+        token.burnedTotal += amount;
+        break;
+      default:
+    }
+    /**
+     * Only the burn which crosses zero is recorded.
+     */
+    if (token.totalSupply < BigInt(0) && prevTotalSupply >= BigInt(0)) {
+      utils.entity.indexingAnomaliesManager.record({
+        anomalyType: IndexingAnomalyType.NEGATIVE_SUPPLY,
+        fToken: token,
+        previousAmount: prevTotalSupply,
+        amount,
+        details: 'Total supply is decreased below zero.'
+      });
+    }
+    token.transferCount += BigInt(1);
+
+    this.add(token);
+  }
+
+  /**
+   * Compare indexed total supply with on-chain "totalSupply()" (total
+   * issuance of native token) once per "fTokenSupplyCheckInterval" blocks.
+   * Check is done before the first transfer of the token in the block, so
+   * indexed value must match the state at the end of previous block.
+   * On-chain value wins on mismatch.
+   */
+  async checkTotalSupply(token: FToken): Promise<void> {
+    if (!this.context) throw new Error('context is not defined');
+    const block = utils.common.blockContextManager.getCurrentBlock();
+    const currentHeight = BigInt(block.height);
+
+    if (
+      token.supplyCheckedAtBlock !== null &&
+      token.supplyCheckedAtBlock !== undefined &&
+      (currentHeight <= token.supplyCheckedAtBlock ||
+        currentHeight - token.supplyCheckedAtBlock <
+          BigInt(fTokenSupplyCheckInterval))
+    )
+      return;
+
+    const onChainTotalSupply =
+      token.id === NATIVE_TOKEN_ADDRESS
+        ? await getNativeTokenTotalSupply({
+            blockHash: block.parentHash,
+            ctx: this.context
+          })
+        : await getFTokenTotalSupply({
+            contractAddress: token.id,
+            blockHeight: Math.max(block.height - 1, 0),
+            ctx: this.context
+          });
+
+    if (onChainTotalSupply === null) return;
+
+    if (onChainTotalSupply !== token.totalSupply) {
+      this.context.log.warn(
+        `Total supply of token ${
+          token.id
+        } is ${token.totalSupply.toString()}, but on-chain value at block ${
+          block.height - 1
+        } is ${onChainTotalSupply.toString()}. Indexed value is replaced.`
+      );
+      token.totalSupply = onChainTotalSupply;
+    }
+    token.supplyCheckedAtBlock = currentHeight;
+  }
+
+  /**
+   * Account balances which are changed from 0 to positive value and back
+   * increase and decrease number of token holders. Zero address is not a
+   * holder.
+   */
+  updateHolderCount({
+    token,
+    accountId,
+    prevAmount,
+    newAmount
+  }: {
+    token: FToken;
+    accountId: string;
+    prevAmount: bigint;
+    newAmount: bigint;
+  }): void {
+    if (accountId === EMPTY_ADDRESS) return;
+    const wasHolder = prevAmount > BigInt(0);
+    const isHolder = newAmount > BigInt(0);
+
+    if (!wasHolder && isHolder) token.holderCount += 1;
+    if (wasHolder && !isHolder) token.holderCount -= 1;
+
+    this.add(token);
+  }
+
+  /**
+   * Count reconciliation correction of account balance of the token. Token
+   * which balances keep drifting from indexed transfers (rebasing,
+   * fee-on-transfer, etc.) is flagged as non-standard.
+   */
+  registerBalanceCorrection(token: FToken): void {
+    token.balanceCorrectionCount += 1;
+    if (token.balanceCorrectionCount >= balanceDriftThreshold) {
+      token.isNonStandard = true;
+      /**
+       * Transfers of the token match balance changes, so balances are
+       * changed without events.
+       */
+      if (token.behaviour === FTokenBehaviour.STANDARD)
+        token.behaviour = FTokenBehaviour.REBASING;
+    }
+
+    this.add(token);
+  }
+
+  /**
+   * Compare transfer amount with on-chain balance changes of the sender and
+   * the recipient in the current block for the first
+   * "fTokenBehaviourProbeCount" transfers of the token. Only blocks with a
+   * single "Transfer" log of the token are probed, so balance changes can
+   * be attributed to the transfer. Once the token is classified as
+   * non-standard, its balances are read from the contract.
+   */
+  async probeBehaviour({
+    token,
+    from,
+    to,
+    amount
+  }: {
+    token: FToken;
+    from: string;
+    to: string;
+    amount: bigint;
+  }): Promise<void> {
+    if (!this.context) throw new Error('context is not defined');
+    if (
+      token.behaviour !== FTokenBehaviour.STANDARD ||
+      token.behaviourProbeCount >= fTokenBehaviourProbeCount ||
+      token.id === NATIVE_TOKEN_ADDRESS ||
+      from === to ||
+      !isEvmAddress(from) ||
+      !isEvmAddress(to) ||
+      this.getBlockTransferLogCount(token.id) !== 1
+    )
+      return;
+
+    const block = utils.common.blockContextManager.getCurrentBlock();
+    const ctx = this.context;
+    const getBalance = (
+      accountAddress: string,
+      blockHeight: number
+    ): Promise<bigint | null> =>
+      getFTokenBalanceOf({
+        accountAddress,
+        contractAddress: token.id,
+        blockHeight,
+        ctx
+      });
+
+    const fromBefore = await getBalance(from, block.height - 1);
+    const fromAfter = await getBalance(from, block.height);
+    const toBefore = await getBalance(to, block.height - 1);
+    const toAfter = await getBalance(to, block.height);
+    if (
+      fromBefore === null ||
+      fromAfter === null ||
+      toBefore === null ||
+      toAfter === null
+    )
+      return;
+
+    const sent = fromBefore - fromAfter;
+    const received = toAfter - toBefore;
+
+    /**
+     * Fee-on-transfer token charges the sender full amount, but the
+     * recipient gets less. Any other mismatch (including rounding of share
+     * based balances) is a sign of rebasing token.
+     */
+    if (sent === amount && received === amount) {
+      token.behaviourProbeCount += 1;
+    } else if (sent === amount && received >= BigInt(0) && received < amount) {
+      token.behaviour = FTokenBehaviour.FEE_ON_TRANSFER;
+    } else {
+      token.behaviour = FTokenBehaviour.REBASING;
+    }
+
+    if (token.behaviour !== FTokenBehaviour.STANDARD) {
+      ctx.log.warn(
+        `Token ${token.id} is classified as ${
+          token.behaviour
+        }: transfer of ${amount.toString()} at block ${
+          block.height
+        } has changed sender balance by ${sent.toString()} and recipient balance by ${received.toString()}.`
+      );
+      token.isNonStandard = true;
+    }
+
+    this.add(token);
+  }
+
+  private getBlockTransferLogCount(contractAddress: string): number {
+    if (!this.context) throw new Error('context is not defined');
+    const block = utils.common.blockContextManager.getCurrentBlock();
+    const blockData = this.context.blocks.find(
+      ({ header }) => header.id === block.id
+    );
+    if (!blockData) return 0;
+
+    return blockData.items.filter((item) => {
+      if (item.name !== 'EVM.Log') return false;
+      const log = item.event.args.log || item.event.args;
+      return (
+        normalizeAddress(log.address) === contractAddress &&
+        log.topics[0] ===
+          erc20.events['Transfer(address,address,uint256)'].topic
+      );
+    }).length;
+  }
 }
 
 /**
@@ -78,7 +371,7 @@ export class NfTokenManager extends EntitiesManager<NfToken> {
       collection: true
     });
 
-    if (!token || (token && (!token.name || !token.symbol))) {
+    if (!token) {
       token = await createNfToken({
         id: tokenEntityId,
         nativeId: id,
@@ -87,10 +380,221 @@ export class NfTokenManager extends EntitiesManager<NfToken> {
         contractStandard,
         owner
       });
+      await utils.entity.nfTokenMetadataManager.enqueue(token);
+    } else if (
+      (!token.name || !token.symbol) &&
+      (await isTokenMetadataSupported({ contractAddress, contractStandard }))
+    ) {
+      /**
+       * Existing token keeps its state (amount, approval, royalty, rarity),
+       * only missing name and symbol are refreshed.
+       */
+      const tokenDetails = await getTokenDetails({
+        contractAddress,
+        contractStandard,
+        ctx: this.context
+      });
+      token.name = tokenDetails.name;
+      token.symbol = tokenDetails.symbol;
     }
 
     this.add(token);
 
     return token;
   }
+
+  /**
+   * Bulk version of "getOrCreate" for EIP-2309 "ConsecutiveTransfer" range.
+   * Existing tokens are loaded from DB in chunks instead of query per token.
+   * URIs of new tokens are not read here, they are requested for metadata
+   * resolution instead.
+   */
+  async getOrCreateRange({
+    nativeIds,
+    contractAddress,
+    owner
+  }: {
+    nativeIds: BigNumber[];
+    contractAddress: string;
+    owner: Account;
+  }): Promise<NfToken[]> {
+    if (!this.context) throw new Error('context is not defined');
+
+    const ids = nativeIds.map((nativeId) => ({
+      id: getTokenEntityId(contractAddress, nativeId.toString()),
+      nativeId
+    }));
+
+    const notCachedIds = ids
+      .map(({ id }) => id)
+      .filter((id) => !this.entitiesMap.has(id));
+    for (const chunk of splitIntoBatches(notCachedIds, 1000)) {
+      const chunkRes = await this.context.store.find(NfToken, {
+        where: { id: In(chunk) },
+        relations: { currentOwner: true, collection: true }
+      });
+      for (const chunkResItem of chunkRes) {
+        this.add(chunkResItem);
+      }
+    }
+
+    const newTokens = await createConsecutiveNfTokens({
+      ids: ids.filter(({ id }) => !this.entitiesMap.has(id)),
+      contractAddress,
+      owner,
+      ctx: this.context
+    });
+    const isMetadataSupported =
+      newTokens.length > 0 &&
+      (await isTokenMetadataSupported({
+        contractAddress,
+        contractStandard: ContractStandard.ERC721
+      }));
+    for (const token of newTokens) {
+      this.add(token);
+      if (isMetadataSupported)
+        utils.entity.nfTokenMetadataManager.requestUri(token);
+    }
+
+    return ids
+      .map(({ id }) => this.entitiesMap.get(id))
+      .filter((token): token is NfToken => !!token);
+  }
+
+  /**
+   * Get indexed tokens of the collection with IDs from "fromTokenId" to
+   * "toTokenId" inclusive, ordered by token ID. Range is filtered by DB and
+   * at most "limit" stored tokens are read. Tokens are not added to the
+   * manager, only tokens which are changed by the caller have to be saved.
+   */
+  async getCollectionTokensInRange({
+    contractAddress,
+    fromTokenId,
+    toTokenId,
+    limit
+  }: {
+    contractAddress: string;
+    fromTokenId: bigint;
+    toTokenId: bigint;
+    limit: number;
+  }): Promise<NfToken[]> {
+    if (!this.context) throw new Error('context is not defined');
+    const collectionId = normalizeAddress(contractAddress);
+
+    const storedTokens = await this.context.store.find(NfToken, {
+      where: {
+        collection: { id: collectionId },
+        nativeId: Raw(
+          (alias) => `${alias}::numeric BETWEEN :fromTokenId AND :toTokenId`,
+          {
+            fromTokenId: fromTokenId.toString(),
+            toTokenId: toTokenId.toString()
+          }
+        )
+      },
+      relations: { currentOwner: true, collection: true },
+      order: { id: 'ASC' },
+      take: limit
+    });
+    const tokens = new Map(
+      storedTokens.map((token) => [
+        token.id,
+        this.entitiesMap.get(token.id) ?? token
+      ])
+    );
+    /**
+     * Tokens, which are created in the current batch, are not stored yet.
+     */
+    for (const token of this.entitiesMap.values()) {
+      if (
+        token.collection.id === collectionId &&
+        BigInt(token.nativeId) >= fromTokenId &&
+        BigInt(token.nativeId) <= toTokenId
+      )
+        tokens.set(token.id, token);
+    }
+
+    return [...tokens.values()].sort((tokenA, tokenB) =>
+      BigInt(tokenA.nativeId) < BigInt(tokenB.nativeId) ? -1 : 1
+    );
+  }
+
+  /**
+   * Re-read URI of the token from its contract. Stored URI is kept, if
+   * contract call fails.
+   */
+  async refreshUri({
+    token,
+    contractAddress
+  }: {
+    token: NfToken;
+    contractAddress: string;
+  }): Promise<void> {
+    if (!this.context) throw new Error('context is not defined');
+
+    const uri = await getNfTokenUri({
+      tokenId: BigNumber.from(token.nativeId),
+      contractAddress,
+      contractStandard: token.collection.collectionType,
+      ctx: this.context
+    });
+    if (uri !== null) token.uri = uri;
+  }
+
+  /**
+   * Refresh ERC2981 royalty of the token, if its contract supports ERC2981.
+   */
+  async updateRoyalty({
+    token,
+    contractAddress
+  }: {
+    token: NfToken;
+    contractAddress: string;
+  }): Promise<void> {
+    if (!this.context) throw new Error('context is not defined');
+    if (!isRoyaltyOutdated(token.royaltyUpdatedAtBlock)) return;
+
+    const capabilities =
+      await utils.entity.contractCapabilitiesManager.getOrCreate(
+        contractAddress
+      );
+    if (!capabilities.erc2981) return;
+
+    const block = utils.common.blockContextManager.getCurrentBlock();
+    const royalty = await getRoyaltyDetails({
+      tokenId: BigNumber.from(token.nativeId),
+      contractAddress,
+      ctx: this.context
+    });
+
+    token.royaltyReceiver = royalty ? royalty.receiver : null;
+    token.royaltyBasisPoints = royalty ? royalty.basisPoints : null;
+    token.royaltyUpdatedAtBlock = BigInt(block.height);
+    this.add(token);
+  }
+
+  /**
+   * Set outdated royalty of the token to royalty of its collection, which
+   * has been read from the contract. It's used for tokens of EIP-2309
+   * "ConsecutiveTransfer" range instead of "royaltyInfo" call per token.
+   */
+  setCollectionRoyalty({
+    token,
+    collection
+  }: {
+    token: NfToken;
+    collection: Collection;
+  }): void {
+    if (
+      collection.royaltyUpdatedAtBlock === null ||
+      collection.royaltyUpdatedAtBlock === undefined ||
+      !isRoyaltyOutdated(token.royaltyUpdatedAtBlock)
+    )
+      return;
+
+    token.royaltyReceiver = collection.royaltyReceiver;
+    token.royaltyBasisPoints = collection.royaltyBasisPoints;
+    token.royaltyUpdatedAtBlock = collection.royaltyUpdatedAtBlock;
+    this.add(token);
+  }
 }
@@ -1,12 +1,12 @@
 import { BigNumber } from 'ethers';
 import {
   ContractStandard,
-  FToken,
   FtTransfer,
+  IndexingAnomalyType,
+  NfToken,
   NftTransfer,
   TransferType
 } from '../../../model';
-import { accountsManager, fTokenManager, nfTokenManager } from '../entityUtils';
 import { EntitiesManager } from './common';
 import {
   getNftTransferEntityId,
@@ -14,6 +14,7 @@ import {
   getTokenBurnedStatus,
   getTransferType
 } from '../common';
+import { TokenBalanceAction } from '../../../common/types';
 import * as utils from '../index';
 
 /**
@@ -27,17 +28,32 @@ export class FtTransferManager extends EntitiesManager<FtTransfer> {
   async getOrCreate({
     from,
     to,
-    amount
+    amount,
+    contractAddress,
+    txnHash
   }: {
     from: string;
     to: string;
     amount: BigNumber;
+    contractAddress: string;
+    txnHash: string;
   }): Promise<FtTransfer> {
     const block = utils.common.blockContextManager.getCurrentBlock();
-    const event = utils.common.blockContextManager.getCurrentEvent();
+    const event = utils.common.blockContextManager.getCurrentSubstrateEvent();
 
-    const fromAccount = await accountsManager.getOrCreate(from);
-    const toAccount = await accountsManager.getOrCreate(to);
+    const fromAccount = await utils.entity.accountsManager.getOrCreate(from);
+    const toAccount = await utils.entity.accountsManager.getOrCreate(to);
+    const token = await utils.entity.fTokenManager.getOrCreate({
+      contractAddress,
+      contractStandard: ContractStandard.ERC20
+    });
+    const transferType = getTransferType(from, to);
+
+    await utils.entity.fTokenManager.updateSupply({
+      token,
+      amount: BigInt(amount.toString()),
+      transferType
+    });
 
     const transfer = new FtTransfer({
       id: event.id,
@@ -45,15 +61,12 @@ export class FtTransferManager extends EntitiesManager<FtTransfer> {
       blockNumber: BigInt(block.height),
       timestamp: new Date(block.timestamp),
       eventIndex: event.indexInBlock,
-      txnHash: event.evmTxHash,
+      txnHash,
       from: fromAccount,
       to: toAccount,
-      token: await fTokenManager.getOrCreate({
-        contractAddress: event.args.address,
-        contractStandard: ContractStandard.ERC20
-      }),
+      token,
       amount: BigInt(amount.toString()),
-      transferType: getTransferType(from, to)
+      transferType
     });
 
     this.add(transfer);
@@ -89,12 +102,12 @@ export class NftTransferManager extends EntitiesManager<NftTransfer> {
     const block = utils.common.blockContextManager.getCurrentBlock();
     const event = utils.common.blockContextManager.getCurrentEvent();
 
-    const fromAccount = await accountsManager.getOrCreate(from);
-    const toAccount = await accountsManager.getOrCreate(to);
+    const fromAccount = await utils.entity.accountsManager.getOrCreate(from);
+    const toAccount = await utils.entity.accountsManager.getOrCreate(to);
     const operatorAccount = operator
-      ? await accountsManager.getOrCreate(operator)
+      ? await utils.entity.accountsManager.getOrCreate(operator)
       : null;
-    const token = await nfTokenManager.getOrCreate({
+    const token = await utils.entity.nfTokenManager.getOrCreate({
       id: tokenId,
       contractAddress: event.args.address,
       owner: toAccount,
@@ -102,6 +115,9 @@ export class NftTransferManager extends EntitiesManager<NftTransfer> {
     });
     const transferType = getTransferType(from, to);
 
+    const isBurnRecorded =
+      transferType === TransferType.BURN &&
+      (await this.checkBurnedSupply(token, BigInt(amount.toString())));
     token.amount = getTokenTotalSupply(
       token.amount,
       BigInt(amount.toString()),
@@ -111,8 +127,48 @@ export class NftTransferManager extends EntitiesManager<NftTransfer> {
       contractStandard === ContractStandard.ERC721
         ? transferType === TransferType.BURN
         : getTokenBurnedStatus(token.amount);
+    /**
+     * Per ERC721, approved address is reset on transfer. Owner of burned
+     * token is kept, as it's done for consecutive transfers.
+     */
+    if (contractStandard === ContractStandard.ERC721) {
+      token.approvedAddress = null;
+      if (transferType !== TransferType.BURN) token.currentOwner = toAccount;
+    }
 
-    nfTokenManager.add(token);
+    utils.entity.nfTokenManager.add(token);
+    await utils.entity.nfTokenManager.updateRoyalty({
+      token,
+      contractAddress: event.args.address
+    });
+
+    const collection = await utils.entity.collectionManager.getOrCreate({
+      id: event.args.address,
+      contractStandard
+    });
+    await utils.entity.collectionManager.updateRoyalty(collection);
+    utils.entity.collectionManager.updateStats({
+      collection,
+      amount: BigInt(amount.toString()),
+      transferType,
+      isBurnRecorded
+    });
+    await utils.entity.accountCollectionBalancesManager.updateCollectionBalance(
+      {
+        account: fromAccount,
+        collection,
+        amount: BigInt(amount.toString()),
+        action: TokenBalanceAction.sub
+      }
+    );
+    await utils.entity.accountCollectionBalancesManager.updateCollectionBalance(
+      {
+        account: toAccount,
+        collection,
+        amount: BigInt(amount.toString()),
+        action: TokenBalanceAction.add
+      }
+    );
 
     const transfer = new NftTransfer({
       id: getNftTransferEntityId(event.id, tokenId.toString()),
@@ -133,4 +189,144 @@ export class NftTransferManager extends EntitiesManager<NftTransfer> {
 
     return transfer;
   }
+
+  /**
+   * Bulk version of "getOrCreate" for ERC721 tokens of EIP-2309
+   * "ConsecutiveTransfer" range. Accounts, collection and its stats are
+   * processed once for the whole range, royalty of the collection is read
+   * once and set to tokens of the range.
+   */
+  async createConsecutive({
+    from,
+    to,
+    tokenIds
+  }: {
+    from: string;
+    to: string;
+    tokenIds: BigNumber[];
+  }): Promise<NftTransfer[]> {
+    const block = utils.common.blockContextManager.getCurrentBlock();
+    const event = utils.common.blockContextManager.getCurrentEvent();
+
+    const fromAccount = await utils.entity.accountsManager.getOrCreate(from);
+    const toAccount = await utils.entity.accountsManager.getOrCreate(to);
+    const tokens = await utils.entity.nfTokenManager.getOrCreateRange({
+      nativeIds: tokenIds,
+      contractAddress: event.args.address,
+      owner: toAccount
+    });
+    const transferType = getTransferType(from, to);
+    const collection = await utils.entity.collectionManager.getOrCreate({
+      id: event.args.address,
+      contractStandard: ContractStandard.ERC721
+    });
+    await utils.entity.collectionManager.updateRoyalty(collection);
+
+    let isBurnRecorded = false;
+
+    for (const token of tokens) {
+      if (
+        transferType === TransferType.BURN &&
+        (await this.checkBurnedSupply(token, BigInt(1)))
+      )
+        isBurnRecorded = true;
+      /**
+       * Burned token keeps its last owner, as zero address is not a holder.
+       */
+      if (transferType !== TransferType.BURN) token.currentOwner = toAccount;
+      token.amount = getTokenTotalSupply(token.amount, BigInt(1), transferType);
+      token.isBurned = transferType === TransferType.BURN;
+      token.approvedAddress = null;
+      utils.entity.nfTokenManager.add(token);
+      utils.entity.nfTokenManager.setCollectionRoyalty({ token, collection });
+    }
+
+    utils.entity.collectionManager.updateStats({
+      collection,
+      amount: BigInt(tokens.length),
+      transferType,
+      transferCount: BigInt(tokens.length),
+      isBurnRecorded
+    });
+    await utils.entity.accountCollectionBalancesManager.updateCollectionBalance(
+      {
+        account: fromAccount,
+        collection,
+        amount: BigInt(tokens.length),
+        action: TokenBalanceAction.sub
+      }
+    );
+    await utils.entity.accountCollectionBalancesManager.updateCollectionBalance(
+      {
+        account: toAccount,
+        collection,
+        amount: BigInt(tokens.length),
+        action: TokenBalanceAction.add
+      }
+    );
+
+    const transfers = tokens.map(
+      (token) =>
+        new NftTransfer({
+          id: getNftTransferEntityId(event.id, token.nativeId),
+          blockNumber: BigInt(block.height),
+          timestamp: new Date(block.timestamp),
+          eventIndex: event.indexInBlock,
+          txnHash: event.evmTxHash,
+          amount: BigInt(1),
+          from: fromAccount,
+          to: toAccount,
+          operator: null,
+          transferType,
+          token,
+          isBatch: true
+        })
+    );
+
+    for (const transfer of transfers) {
+      this.add(transfer);
+    }
+
+    return transfers;
+  }
+
+  /**
+   * Burn which decreases supply of the token below zero is recorded as
+   * anomaly (only the burn which crosses zero). Token, which has neither
+   * supply nor burned status, has never been minted only if all events of
+   * its contract have been indexed (deployment of the contract is indexed).
+   * Otherwise it may have been minted before the first indexed block.
+   * Returns true, if the burn is recorded.
+   */
+  private async checkBurnedSupply(
+    token: NfToken,
+    amount: bigint
+  ): Promise<boolean> {
+    if (token.amount >= amount || token.amount < BigInt(0)) return false;
+
+    let anomalyType = IndexingAnomalyType.NEGATIVE_SUPPLY;
+    let details = 'Supply is decreased below zero.';
+
+    if (token.amount === BigInt(0) && !token.isBurned) {
+      const deployment = await utils.entity.contractDeploymentsManager.get(
+        token.collection.id
+      );
+      anomalyType = deployment
+        ? IndexingAnomalyType.BURN_OF_UNMINTED_TOKEN
+        : IndexingAnomalyType.BURN_OF_UNKNOWN_HISTORY_TOKEN;
+      details = deployment
+        ? 'Burn of the token, which has never been minted.'
+        : 'Burn of the token, which may have been minted before the first indexed block.';
+    }
+
+    utils.entity.indexingAnomaliesManager.record({
+      anomalyType,
+      nfToken: token,
+      previousAmount: token.amount,
+      amount,
+      details
+    });
+
+    return true;
+  }
 }
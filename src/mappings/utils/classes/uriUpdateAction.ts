@@ -1,4 +1,4 @@
-import { NfToken, NftTransfer, UriUpdateAction } from '../../../model';
+import { NfToken, UriUpdateAction } from '../../../model';
 import { createUriUpdateActions } from '../../uriUpdateActions';
 import { EntitiesManager } from './common';
 
@@ -0,0 +1,64 @@
+import {
+  getCollectionTraitEntityId,
+  getEvmMappedAccountAddress,
+  getXc20AssetAddress
+} from './common';
+
+describe('getXc20AssetAddress', () => {
+  it('pads asset ID to 16 bytes after the precompile prefix', () => {
+    expect(getXc20AssetAddress(BigInt(1))).toBe(
+      '0xffffffff00000000000000000000000000000001'
+    );
+    expect(getXc20AssetAddress(BigInt('18446744073709551616'))).toBe(
+      '0xffffffff00000000000000010000000000000000'
+    );
+  });
+
+  it('maps the largest asset ID to 20 byte address', () => {
+    expect(getXc20AssetAddress(BigInt(2) ** BigInt(128) - BigInt(1))).toBe(
+      '0xffffffffffffffffffffffffffffffffffffffff'
+    );
+  });
+});
+
+describe('getEvmMappedAccountAddress', () => {
+  it('hashes "evm:" prefixed address with blake2_256', () => {
+    expect(
+      getEvmMappedAccountAddress('0x0000000000000000000000000000000000000000')
+    ).toBe(
+      '0xc2cdcf01af7163d2d99b2ec87954e4c1b735e9e9ea80f8775bf29dd9457eaca1'
+    );
+    expect(
+      getEvmMappedAccountAddress('0x6a2d262d56735dba19dd70682b39f6be9a931d98')
+    ).toBe(
+      '0xd53f54110bc709d1b4f191fb97942ba546fcd4b4879744edb9bf5083cec59286'
+    );
+  });
+
+  it('does not depend on address case', () => {
+    expect(
+      getEvmMappedAccountAddress('0x6A2D262D56735DBA19DD70682B39F6BE9A931D98')
+    ).toBe(
+      getEvmMappedAccountAddress('0x6a2d262d56735dba19dd70682b39f6be9a931d98')
+    );
+  });
+});
+
+describe('getCollectionTraitEntityId', () => {
+  const collectionId = '0x6a2d262d56735dba19dd70682b39f6be9a931d98';
+
+  it('does not collide for trait type and value containing separator', () => {
+    expect(getCollectionTraitEntityId(collectionId, 'a-b', 'c')).not.toBe(
+      getCollectionTraitEntityId(collectionId, 'a', 'b-c')
+    );
+  });
+
+  it('is prefixed by lowercase collection ID', () => {
+    expect(
+      getCollectionTraitEntityId(collectionId.toUpperCase(), 'Eyes', 'Blue')
+    ).toBe(getCollectionTraitEntityId(collectionId, 'Eyes', 'Blue'));
+    expect(getCollectionTraitEntityId(collectionId, 'Eyes', 'Blue')).toMatch(
+      new RegExp(`^${collectionId}-[0-9a-f]{32}$`)
+    );
+  });
+});
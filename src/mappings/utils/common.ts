@@ -1,13 +1,92 @@
+import { BigNumber, constants } from 'ethers';
+import blake2b from 'blake2b';
+import * as ss58 from '@subsquid/ss58';
 import { TransferType } from '../../model';
-import { BigNumber } from 'ethers';
+import { ss58Prefix } from '../../config';
 
 export const EMPTY_ADDRESS = '0x0000000000000000000000000000000000000000';
 
+/**
+ * Pseudo contract address of the native chain token, which is indexed as
+ * ERC20 token.
+ */
+export const NATIVE_TOKEN_ADDRESS =
+  '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee';
+
+/**
+ * ERC-165 interface identifiers which are used for contract standard probes.
+ * "INVALID" must never be supported by ERC-165 compliant contract.
+ */
+export const ERC165_INTERFACE_IDS = {
+  ERC165: '0x01ffc9a7',
+  ERC20: '0x36372b07',
+  ERC721: '0x80ac58cd',
+  ERC721_METADATA: '0x5b5e139f',
+  ERC721_ENUMERABLE: '0x780e9d63',
+  ERC1155: '0xd9b67a26',
+  ERC1155_METADATA_URI: '0x0e89341c',
+  ERC2981: '0x2a55205a',
+  ERC4906: '0x49064906',
+  INVALID: '0xffffffff'
+};
+
+/**
+ * Assets pallet tokens (XC20) are exposed to EVM by precompiles at
+ * "0xffffffff" + 16 bytes of asset id.
+ */
+export const XC20_ADDRESS_PREFIX = '0xffffffff';
+
+/**
+ * All EVM addresses (as well as hex of Substrate account ids) are stored in
+ * lowercase, no matter how they are formatted by ABI decoder or event data.
+ */
+export function normalizeAddress(address: string): string {
+  return address.toLowerCase();
+}
+
+export function getXc20AssetAddress(assetId: bigint): string {
+  return `${XC20_ADDRESS_PREFIX}${assetId.toString(16).padStart(32, '0')}`;
+}
+
+export function getSubstrateAccountAddress(accountId: Uint8Array): string {
+  return `0x${Buffer.from(accountId).toString('hex')}`;
+}
+
+export function isEvmAddress(address: string): boolean {
+  return /^0x[0-9a-fA-F]{40}$/.test(address);
+}
+
+/**
+ * SQL "LIKE" pattern of EVM address IDs. Public keys of Substrate accounts
+ * are "0x" prefixed as well, but 32 bytes long.
+ */
+export const EVM_ADDRESS_LIKE_PATTERN = `0x${'_'.repeat(40)}`;
+
+/**
+ * Substrate account, which holds native balance of EVM address
+ * (blake2_256("evm:" + address)).
+ */
+export function getEvmMappedAccountAddress(address: string): string {
+  return getSubstrateAccountAddress(
+    blake2b(32)
+      .update(
+        Buffer.concat([
+          Buffer.from('evm:'),
+          Buffer.from(address.substring(2), 'hex')
+        ])
+      )
+      .digest()
+  );
+}
+
+export function getSs58Address(substrateAccountId: string): string {
+  return ss58
+    .codec(ss58Prefix)
+    .encode(Buffer.from(substrateAccountId.substring(2), 'hex'));
+}
+
 export function getTokenEntityId(address: string, tokenId?: string): string {
-  return `${address.substring(0, 6)}-${address.substring(
-    address.length - 6,
-    address.length
-  )}${tokenId ? `-${tokenId}` : ''}`;
+  return `${normalizeAddress(address)}${tokenId ? `-${tokenId}` : ''}`;
 }
 
 export function getNftTransferEntityId(
@@ -21,14 +100,110 @@ export function getAccountTransferEntityId(
   accountId: string,
   transferId: string
 ): string {
-  return `${accountId}-${transferId}`;
+  return `${normalizeAddress(accountId)}-${transferId}`;
 }
 
 export function getAccountFTokenBalanceEntityId(
   accountId: string,
   tokenId: string
 ): string {
-  return `${accountId}-${tokenId}`;
+  return `${normalizeAddress(accountId)}-${normalizeAddress(tokenId)}`;
+}
+
+export function getAccountFTokenBalanceHistoryEntityId(
+  eventId: string,
+  accountId: string
+): string {
+  return `${eventId}-${normalizeAddress(accountId)}`;
+}
+
+export function getAccountNfTokenBalanceEntityId(
+  accountId: string,
+  tokenId: string
+): string {
+  return `${normalizeAddress(accountId)}-${normalizeAddress(tokenId)}`;
+}
+
+export function getAccountCollectionBalanceEntityId(
+  accountId: string,
+  collectionId: string
+): string {
+  return `${normalizeAddress(accountId)}-${normalizeAddress(collectionId)}`;
+}
+
+export function getBalanceCorrectionEntityId(
+  balanceId: string,
+  blockNumber: number
+): string {
+  return `${balanceId}-${blockNumber}`;
+}
+
+export function getIndexingAnomalyEntityId(
+  eventIdOrBlockNumber: string,
+  anomalyType: string,
+  subjectIds: string[]
+): string {
+  return [eventIdOrBlockNumber, anomalyType, ...subjectIds].join('-');
+}
+
+export function getDappsStakingPositionEntityId(
+  accountId: string,
+  contractId: string
+): string {
+  return `${normalizeAddress(accountId)}-${normalizeAddress(contractId)}`;
+}
+
+export function getNfTokenAttributeEntityId(
+  tokenId: string,
+  index: number
+): string {
+  return `${normalizeAddress(tokenId)}-${index}`;
+}
+
+/**
+ * Key of token attribute, which is unique for pair of trait type and value.
+ * Both are arbitrary strings of token metadata, so they are encoded as JSON
+ * array instead of being joined with a separator, which they may contain.
+ */
+export function getNfTokenAttributeKey(
+  traitType: string,
+  value: string
+): string {
+  return JSON.stringify([traitType, value]);
+}
+
+export function getCollectionTraitEntityId(
+  collectionId: string,
+  traitType: string,
+  value: string
+): string {
+  const traitHash = blake2b(16)
+    .update(Buffer.from(getNfTokenAttributeKey(traitType, value)))
+    .digest();
+
+  return `${normalizeAddress(collectionId)}-${Buffer.from(traitHash).toString(
+    'hex'
+  )}`;
+}
+
+export function getFTokenAllowanceEntityId(
+  ownerId: string,
+  spenderId: string,
+  tokenId: string
+): string {
+  return `${normalizeAddress(ownerId)}-${normalizeAddress(
+    spenderId
+  )}-${normalizeAddress(tokenId)}`;
+}
+
+export function getOperatorApprovalEntityId(
+  collectionId: string,
+  ownerId: string,
+  operatorId: string
+): string {
+  return `${normalizeAddress(collectionId)}-${normalizeAddress(
+    ownerId
+  )}-${normalizeAddress(operatorId)}`;
 }
 
 export function isMint(from: string, to: string): boolean {
@@ -80,7 +255,15 @@ export function getTokenTotalSupply(
     default:
   }
 
-  return newValue >= BigInt(0) ? newValue : BigInt(0);
+  return newValue;
+}
+
+/**
+ * Max uint256 allowance is conventionally used as infinite approval and
+ * is not decreased by "transferFrom" in most of ERC20 implementations.
+ */
+export function isUnlimitedAllowance(amount: bigint): boolean {
+  return amount === BigInt(constants.MaxUint256.toString());
 }
 
 export function getTokenBurnedStatus(currentAmount: BigInt): boolean {
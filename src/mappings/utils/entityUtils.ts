@@ -1,9 +1,43 @@
 import * as entityManagerClasses from './classes';
-import { Context } from '../../processor';
+import type { Context } from '../../processor';
 import * as erc20 from '../../abi/erc20';
 import * as erc721 from '../../abi/erc721';
 import * as erc1155 from '../../abi/erc1155';
-import { getAccountFTokenBalanceEntityId, getTokenEntityId } from './common';
+import * as erc2309 from '../../abi/erc2309';
+import * as erc4906 from '../../abi/erc4906';
+import * as weth from '../../abi/weth';
+import {
+  EMPTY_ADDRESS,
+  NATIVE_TOKEN_ADDRESS,
+  getAccountCollectionBalanceEntityId,
+  getAccountFTokenBalanceEntityId,
+  getAccountNfTokenBalanceEntityId,
+  getDappsStakingPositionEntityId,
+  getFTokenAllowanceEntityId,
+  getOperatorApprovalEntityId,
+  getTokenEntityId,
+  getXc20AssetAddress,
+  isMint
+} from './common';
+import { blockContextManager } from './blockContextUtils';
+import { EvmLogArgs } from '../../common/types';
+import {
+  decodeXc20AssetMetadata,
+  decodeXc20AssetTransfer
+} from '../xc20Assets/utils';
+import {
+  decodeNativeTransfer,
+  getEvmAttributedTransfer,
+  getEvmTransactions
+} from '../nativeToken/utils';
+import { decodeEvmCreated } from '../contractDeployments/utils';
+import {
+  decodeDappsStakingNewContract,
+  decodeDappsStakingNominationTransfer,
+  decodeDappsStakingReward,
+  decodeDappsStakingStake,
+  getEvmAttributedStaker
+} from '../dappsStaking/utils';
 import {
   Account,
   AccountFtTransfer,
@@ -12,9 +46,28 @@ import {
   FToken,
   FtTransfer,
   NfToken,
+  NfTokenMetadata,
+  NfTokenAttribute,
+  CollectionTrait,
   NftTransfer,
   UriUpdateAction,
-  AccountFTokenBalance
+  AccountFTokenBalance,
+  AccountFTokenBalanceHistory,
+  AccountNfTokenBalance,
+  AccountCollectionBalance,
+  ContractClassification,
+  ContractDeployment,
+  ContractCapabilities,
+  ContractStandard,
+  FTokenAllowance,
+  FTokenApproval,
+  OperatorApproval,
+  DappsStakingContract,
+  DappsStakingPosition,
+  DappsStakingReward,
+  DappsStakingNominationTransfer,
+  BalanceCorrection,
+  IndexingAnomaly
 } from '../../model';
 
 export function initAllEntityManagers(ctx: Context): void {
@@ -22,25 +75,65 @@ export function initAllEntityManagers(ctx: Context): void {
   collectionManager.init(ctx);
   fTokenManager.init(ctx);
   nfTokenManager.init(ctx);
+  nfTokenMetadataManager.init(ctx);
+  nfTokenAttributesManager.init(ctx);
+  collectionTraitsManager.init(ctx);
   uriUpdateActionsManager.init(ctx);
   ftTransferManager.init(ctx);
   nftTransferManager.init(ctx);
   accountsFtTransferManager.init(ctx);
   accountsNftTransferManager.init(ctx);
   accountFTokenBalancesManager.init(ctx);
+  accountFTokenBalanceHistoriesManager.init(ctx);
+  accountNfTokenBalancesManager.init(ctx);
+  accountCollectionBalancesManager.init(ctx);
+  contractClassificationsManager.init(ctx);
+  contractDeploymentsManager.init(ctx);
+  contractCapabilitiesManager.init(ctx);
+  fTokenAllowancesManager.init(ctx);
+  fTokenApprovalsManager.init(ctx);
+  operatorApprovalsManager.init(ctx);
+  dappsStakingContractsManager.init(ctx);
+  dappsStakingPositionsManager.init(ctx);
+  dappsStakingRewardsManager.init(ctx);
+  dappsStakingNominationTransfersManager.init(ctx);
+  balanceCorrectionsManager.init(ctx);
+  indexingAnomaliesManager.init(ctx);
 }
 
 export async function saveAllEntities(): Promise<void> {
+  await nfTokenMetadataManager.applyFetchResults();
+
   await accountsManager.saveAll();
+  await contractDeploymentsManager.saveAll();
+  await contractCapabilitiesManager.saveAll();
   await collectionManager.saveAll();
   await fTokenManager.saveAll();
   await nfTokenManager.saveAll();
+  await nfTokenMetadataManager.saveAll();
+  await collectionTraitsManager.saveAll();
+  await nfTokenAttributesManager.saveAll();
   await uriUpdateActionsManager.saveAll();
   await ftTransferManager.saveAll();
   await nftTransferManager.saveAll();
   await accountsFtTransferManager.saveAll();
   await accountsNftTransferManager.saveAll();
   await accountFTokenBalancesManager.saveAll();
+  await accountFTokenBalanceHistoriesManager.saveAll();
+  await balanceCorrectionsManager.saveAll();
+  await accountNfTokenBalancesManager.saveAll();
+  await accountCollectionBalancesManager.saveAll();
+  await contractClassificationsManager.saveAll();
+  await fTokenAllowancesManager.saveAll();
+  await fTokenApprovalsManager.saveAll();
+  await operatorApprovalsManager.saveAll();
+  await dappsStakingContractsManager.saveAll();
+  await dappsStakingPositionsManager.saveAll();
+  await dappsStakingRewardsManager.saveAll();
+  await dappsStakingNominationTransfersManager.saveAll();
+  await indexingAnomaliesManager.saveAll();
+  await nfTokenMetadataManager.scheduleRetries();
+  await collectionTraitsManager.updateRarity();
 }
 
 export const accountsManager = new entityManagerClasses.AccountsManager(
@@ -48,8 +141,28 @@ export const accountsManager = new entityManagerClasses.AccountsManager(
 );
 export const accountFTokenBalancesManager =
   new entityManagerClasses.AccountFTokenBalancesManager(AccountFTokenBalance);
+export const accountFTokenBalanceHistoriesManager =
+  new entityManagerClasses.AccountFTokenBalanceHistoriesManager(
+    AccountFTokenBalanceHistory
+  );
+export const accountNfTokenBalancesManager =
+  new entityManagerClasses.AccountNfTokenBalancesManager(AccountNfTokenBalance);
+export const accountCollectionBalancesManager =
+  new entityManagerClasses.AccountCollectionBalancesManager(
+    AccountCollectionBalance
+  );
 export const fTokenManager = new entityManagerClasses.FTokenManager(FToken);
+export const balanceCorrectionsManager =
+  new entityManagerClasses.BalanceCorrectionsManager(BalanceCorrection);
+export const indexingAnomaliesManager =
+  new entityManagerClasses.IndexingAnomaliesManager(IndexingAnomaly);
 export const nfTokenManager = new entityManagerClasses.NfTokenManager(NfToken);
+export const nfTokenMetadataManager =
+  new entityManagerClasses.NfTokenMetadataManager(NfTokenMetadata);
+export const nfTokenAttributesManager =
+  new entityManagerClasses.NfTokenAttributesManager(NfTokenAttribute);
+export const collectionTraitsManager =
+  new entityManagerClasses.CollectionTraitsManager(CollectionTrait);
 export const uriUpdateActionsManager =
   new entityManagerClasses.UriUpdateActionsManager(UriUpdateAction);
 export const ftTransferManager = new entityManagerClasses.FtTransferManager(
@@ -65,61 +178,251 @@ export const accountsFtTransferManager =
   new entityManagerClasses.AccountsFtTransferManager(AccountFtTransfer);
 export const accountsNftTransferManager =
   new entityManagerClasses.AccountsNftTransferManager(AccountNftTransfer);
+export const contractClassificationsManager =
+  new entityManagerClasses.ContractClassificationsManager(
+    ContractClassification
+  );
+export const contractDeploymentsManager =
+  new entityManagerClasses.ContractDeploymentsManager(ContractDeployment);
+export const contractCapabilitiesManager =
+  new entityManagerClasses.ContractCapabilitiesManager(ContractCapabilities);
+export const fTokenAllowancesManager =
+  new entityManagerClasses.FTokenAllowancesManager(FTokenAllowance);
+export const fTokenApprovalsManager =
+  new entityManagerClasses.FTokenApprovalsManager(FTokenApproval);
+export const operatorApprovalsManager =
+  new entityManagerClasses.OperatorApprovalsManager(OperatorApproval);
+export const dappsStakingContractsManager =
+  new entityManagerClasses.DappsStakingContractsManager(DappsStakingContract);
+export const dappsStakingPositionsManager =
+  new entityManagerClasses.DappsStakingPositionsManager(DappsStakingPosition);
+export const dappsStakingRewardsManager =
+  new entityManagerClasses.DappsStakingRewardsManager(DappsStakingReward);
+export const dappsStakingNominationTransfersManager =
+  new entityManagerClasses.DappsStakingNominationTransfersManager(
+    DappsStakingNominationTransfer
+  );
+
+/**
+ * Classification verdicts must be available before the main prefetch loop, as
+ * they define which entities are required for shared "Transfer",
+ * "Approval" and "ApprovalForAll" topics.
+ */
+function collectClassificationPrefetchItemIds(ctx: Context): void {
+  for (const block of ctx.blocks) {
+    for (const item of block.items) {
+      if (item.name === 'EVM.Log') {
+        const evmLogArgs = item.event.args.log || item.event.args;
+        switch (evmLogArgs.topics[0]) {
+          case erc20.events['Transfer(address,address,uint256)'].topic:
+          case erc721.events['Transfer(address,address,uint256)'].topic:
+          case erc20.events['Approval(address,address,uint256)'].topic:
+          case erc721.events['Approval(address,address,uint256)'].topic:
+          case erc721.events['ApprovalForAll(address,address,bool)'].topic:
+            contractClassificationsManager.addPrefetchItemId(
+              evmLogArgs.address.toString()
+            );
+            break;
+          default:
+        }
+      }
+    }
+  }
+}
 
 export async function prefetchEntities(ctx: Context): Promise<void> {
+  collectClassificationPrefetchItemIds(ctx);
+  await contractClassificationsManager.prefetchEntities();
+
   for (const block of ctx.blocks) {
+    const evmTransactions = getEvmTransactions(ctx, block.items);
+
     for (const item of block.items) {
       if (item.name === 'EVM.Log') {
         let decodedEvent = null;
-        const evmLogArgs = item.event.args.log || item.event.args;
+        const evmLogArgs: EvmLogArgs = item.event.args.log || item.event.args;
         switch (evmLogArgs.topics[0]) {
           /**
            * ===================================================================
            */
           case erc20.events['Transfer(address,address,uint256)'].topic:
-          case erc721.events['Transfer(address,address,uint256)'].topic:
-            try {
-              decodedEvent = erc20.events[
-                'Transfer(address,address,uint256)'
-              ].decode(evmLogArgs);
-              accountsManager.addPrefetchItemId([
-                decodedEvent.from,
-                decodedEvent.to
-              ]);
-              fTokenManager.addPrefetchItemId(
-                evmLogArgs.address.toString()
-              );
-              accountFTokenBalancesManager.addPrefetchItemId([
-                getAccountFTokenBalanceEntityId(
-                  decodedEvent.from.toString(),
-                  evmLogArgs.address.toString()
-                ),
-                getAccountFTokenBalanceEntityId(
-                  decodedEvent.to.toString(),
-                  evmLogArgs.address.toString()
-                )
-              ]);
-            } catch (e) {
-              try {
-                decodedEvent = erc721.events[
-                  'Transfer(address,address,uint256)'
-                ].decode(evmLogArgs);
-                accountsManager.addPrefetchItemId([
-                  decodedEvent.from,
-                  decodedEvent.to
-                ]);
-                nfTokenManager.addPrefetchItemId(
-                  getTokenEntityId(
-                    evmLogArgs.address.toString(),
-                    decodedEvent.tokenId.toString()
-                  )
-                );
-                collectionManager.addPrefetchItemId(
-                  evmLogArgs.address.toString()
-                );
-              } catch (err) {}
+          case erc721.events['Transfer(address,address,uint256)'].topic: {
+            blockContextManager.init(block.header, item.event);
+            const transferLogs =
+              await contractClassificationsManager.getSharedTopicLogCandidates();
+            blockContextManager.resetBlockContext();
+
+            for (const transferLog of transferLogs) {
+              const transferLogArgs = transferLog.args;
+
+              switch (transferLog.contractStandard) {
+                case ContractStandard.ERC20:
+                  decodedEvent = erc20.events[
+                    'Transfer(address,address,uint256)'
+                  ].decode(transferLogArgs);
+                  accountsManager.addPrefetchItemId([
+                    decodedEvent.from,
+                    decodedEvent.to
+                  ]);
+                  fTokenManager.addPrefetchItemId(
+                    transferLogArgs.address.toString()
+                  );
+                  accountFTokenBalancesManager.addPrefetchItemId([
+                    getAccountFTokenBalanceEntityId(
+                      decodedEvent.from.toString(),
+                      transferLogArgs.address.toString()
+                    ),
+                    getAccountFTokenBalanceEntityId(
+                      decodedEvent.to.toString(),
+                      transferLogArgs.address.toString()
+                    )
+                  ]);
+                  if (!isMint(decodedEvent.from, decodedEvent.to)) {
+                    fTokenAllowancesManager.addOwnerTokenPrefetchItem(
+                      decodedEvent.from,
+                      transferLogArgs.address.toString()
+                    );
+                  }
+                  break;
+                case ContractStandard.ERC721:
+                  decodedEvent = erc721.events[
+                    'Transfer(address,address,uint256)'
+                  ].decode(transferLogArgs);
+                  accountsManager.addPrefetchItemId([
+                    decodedEvent.from,
+                    decodedEvent.to
+                  ]);
+                  nfTokenManager.addPrefetchItemId(
+                    getTokenEntityId(
+                      transferLogArgs.address.toString(),
+                      decodedEvent.tokenId.toString()
+                    )
+                  );
+                  if (isMint(decodedEvent.from, decodedEvent.to)) {
+                    nfTokenMetadataManager.addPrefetchItemId(
+                      getTokenEntityId(
+                        transferLogArgs.address.toString(),
+                        decodedEvent.tokenId.toString()
+                      )
+                    );
+                  }
+                  collectionManager.addPrefetchItemId(
+                    transferLogArgs.address.toString()
+                  );
+                  accountCollectionBalancesManager.addPrefetchItemId([
+                    getAccountCollectionBalanceEntityId(
+                      decodedEvent.from,
+                      transferLogArgs.address.toString()
+                    ),
+                    getAccountCollectionBalanceEntityId(
+                      decodedEvent.to,
+                      transferLogArgs.address.toString()
+                    )
+                  ]);
+                  break;
+                default:
+              }
             }
+            break;
+          }
+          /**
+           * ===================================================================
+           */
+          case erc20.events['Approval(address,address,uint256)'].topic:
+          case erc721.events['Approval(address,address,uint256)'].topic: {
+            blockContextManager.init(block.header, item.event);
+            const approvalLogs =
+              await contractClassificationsManager.getSharedTopicLogCandidates();
+            blockContextManager.resetBlockContext();
+
+            for (const approvalLog of approvalLogs) {
+              const approvalLogArgs = approvalLog.args;
 
+              switch (approvalLog.contractStandard) {
+                case ContractStandard.ERC20:
+                  decodedEvent = erc20.events[
+                    'Approval(address,address,uint256)'
+                  ].decode(approvalLogArgs);
+                  accountsManager.addPrefetchItemId([
+                    decodedEvent.owner,
+                    decodedEvent.spender
+                  ]);
+                  fTokenManager.addPrefetchItemId(
+                    approvalLogArgs.address.toString()
+                  );
+                  fTokenAllowancesManager.addPrefetchItemId(
+                    getFTokenAllowanceEntityId(
+                      decodedEvent.owner,
+                      decodedEvent.spender,
+                      approvalLogArgs.address.toString()
+                    )
+                  );
+                  break;
+                case ContractStandard.ERC721:
+                  decodedEvent = erc721.events[
+                    'Approval(address,address,uint256)'
+                  ].decode(approvalLogArgs);
+                  nfTokenManager.addPrefetchItemId(
+                    getTokenEntityId(
+                      approvalLogArgs.address.toString(),
+                      decodedEvent.tokenId.toString()
+                    )
+                  );
+                  break;
+                default:
+              }
+            }
+            break;
+          }
+          /**
+           * ===================================================================
+           */
+          case erc721.events['ApprovalForAll(address,address,bool)'].topic:
+            decodedEvent = erc721.events[
+              'ApprovalForAll(address,address,bool)'
+            ].decode(evmLogArgs);
+            accountsManager.addPrefetchItemId([
+              decodedEvent.owner,
+              decodedEvent.operator
+            ]);
+            collectionManager.addPrefetchItemId(
+              evmLogArgs.address.toString()
+            );
+            operatorApprovalsManager.addPrefetchItemId(
+              getOperatorApprovalEntityId(
+                evmLogArgs.address.toString(),
+                decodedEvent.owner,
+                decodedEvent.operator
+              )
+            );
+            break;
+          /**
+           * ===================================================================
+           * Tokens of the range are loaded in bulk by the handler.
+           */
+          case erc2309.events[
+            'ConsecutiveTransfer(uint256,uint256,address,address)'
+          ].topic:
+            decodedEvent = erc2309.events[
+              'ConsecutiveTransfer(uint256,uint256,address,address)'
+            ].decode(evmLogArgs);
+            accountsManager.addPrefetchItemId([
+              decodedEvent.fromAddress,
+              decodedEvent.toAddress
+            ]);
+            collectionManager.addPrefetchItemId(
+              evmLogArgs.address.toString()
+            );
+            accountCollectionBalancesManager.addPrefetchItemId([
+              getAccountCollectionBalanceEntityId(
+                decodedEvent.fromAddress,
+                evmLogArgs.address.toString()
+              ),
+              getAccountCollectionBalanceEntityId(
+                decodedEvent.toAddress,
+                evmLogArgs.address.toString()
+              )
+            ]);
             break;
           /**
            * ===================================================================
@@ -143,9 +446,35 @@ export async function prefetchEntities(ctx: Context): Promise<void> {
                 )
               )
             );
+            for (const id of decodedEvent.ids) {
+              const tokenEntityId = getTokenEntityId(
+                evmLogArgs.address.toString(),
+                id.toString()
+              );
+              accountNfTokenBalancesManager.addPrefetchItemId([
+                getAccountNfTokenBalanceEntityId(
+                  decodedEvent.from,
+                  tokenEntityId
+                ),
+                getAccountNfTokenBalanceEntityId(decodedEvent.to, tokenEntityId)
+              ]);
+              if (isMint(decodedEvent.from, decodedEvent.to)) {
+                nfTokenMetadataManager.addPrefetchItemId(tokenEntityId);
+              }
+            }
             collectionManager.addPrefetchItemId(
               evmLogArgs.address.toString()
             );
+            accountCollectionBalancesManager.addPrefetchItemId([
+              getAccountCollectionBalanceEntityId(
+                decodedEvent.from,
+                evmLogArgs.address.toString()
+              ),
+              getAccountCollectionBalanceEntityId(
+                decodedEvent.to,
+                evmLogArgs.address.toString()
+              )
+            ]);
             break;
           /**
            * ===================================================================
@@ -167,9 +496,43 @@ export async function prefetchEntities(ctx: Context): Promise<void> {
                 decodedEvent.id.toString()
               )
             );
+            if (isMint(decodedEvent.from, decodedEvent.to)) {
+              nfTokenMetadataManager.addPrefetchItemId(
+                getTokenEntityId(
+                  evmLogArgs.address.toString(),
+                  decodedEvent.id.toString()
+                )
+              );
+            }
+            accountNfTokenBalancesManager.addPrefetchItemId([
+              getAccountNfTokenBalanceEntityId(
+                decodedEvent.from,
+                getTokenEntityId(
+                  evmLogArgs.address.toString(),
+                  decodedEvent.id.toString()
+                )
+              ),
+              getAccountNfTokenBalanceEntityId(
+                decodedEvent.to,
+                getTokenEntityId(
+                  evmLogArgs.address.toString(),
+                  decodedEvent.id.toString()
+                )
+              )
+            ]);
             collectionManager.addPrefetchItemId(
               evmLogArgs.address.toString()
             );
+            accountCollectionBalancesManager.addPrefetchItemId([
+              getAccountCollectionBalanceEntityId(
+                decodedEvent.from,
+                evmLogArgs.address.toString()
+              ),
+              getAccountCollectionBalanceEntityId(
+                decodedEvent.to,
+                evmLogArgs.address.toString()
+              )
+            ]);
             break;
           /**
            * ===================================================================
@@ -184,21 +547,255 @@ export async function prefetchEntities(ctx: Context): Promise<void> {
                 decodedEvent.id.toString()
               )
             );
+            nfTokenMetadataManager.addPrefetchItemId(
+              getTokenEntityId(
+                evmLogArgs.address.toString(),
+                decodedEvent.id.toString()
+              )
+            );
+            break;
+          case weth.events['Deposit(address,uint256)'].topic:
+            decodedEvent = weth.events[
+              'Deposit(address,uint256)'
+            ].decode(evmLogArgs);
+            accountsManager.addPrefetchItemId([
+              EMPTY_ADDRESS,
+              decodedEvent.dst
+            ]);
+            fTokenManager.addPrefetchItemId(evmLogArgs.address.toString());
+            accountFTokenBalancesManager.addPrefetchItemId([
+              getAccountFTokenBalanceEntityId(
+                EMPTY_ADDRESS,
+                evmLogArgs.address.toString()
+              ),
+              getAccountFTokenBalanceEntityId(
+                decodedEvent.dst,
+                evmLogArgs.address.toString()
+              )
+            ]);
+            break;
+          case weth.events['Withdrawal(address,uint256)'].topic:
+            decodedEvent = weth.events[
+              'Withdrawal(address,uint256)'
+            ].decode(evmLogArgs);
+            accountsManager.addPrefetchItemId([
+              decodedEvent.src,
+              EMPTY_ADDRESS
+            ]);
+            fTokenManager.addPrefetchItemId(evmLogArgs.address.toString());
+            accountFTokenBalancesManager.addPrefetchItemId([
+              getAccountFTokenBalanceEntityId(
+                decodedEvent.src,
+                evmLogArgs.address.toString()
+              ),
+              getAccountFTokenBalanceEntityId(
+                EMPTY_ADDRESS,
+                evmLogArgs.address.toString()
+              )
+            ]);
+            fTokenAllowancesManager.addOwnerTokenPrefetchItem(
+              decodedEvent.src,
+              evmLogArgs.address.toString()
+            );
+            break;
+          case erc4906.events['MetadataUpdate(uint256)'].topic:
+            decodedEvent = erc4906.events['MetadataUpdate(uint256)'].decode(
+              evmLogArgs
+            );
+            nfTokenManager.addPrefetchItemId(
+              getTokenEntityId(
+                evmLogArgs.address.toString(),
+                decodedEvent._tokenId.toString()
+              )
+            );
+            nfTokenMetadataManager.addPrefetchItemId(
+              getTokenEntityId(
+                evmLogArgs.address.toString(),
+                decodedEvent._tokenId.toString()
+              )
+            );
             break;
 
           default:
         }
+      } else {
+        let decodedEvent = null;
+        switch (item.name) {
+          case 'Assets.Issued':
+          case 'Assets.Burned':
+          case 'Assets.Transferred':
+          case 'Assets.TransferredApproved': {
+            decodedEvent = decodeXc20AssetTransfer(ctx, item.event);
+            const contractAddress = getXc20AssetAddress(decodedEvent.assetId);
+            accountsManager.addPrefetchItemId([
+              decodedEvent.from,
+              decodedEvent.to
+            ]);
+            accountsManager.addMappedAccountPrefetchItemId([
+              decodedEvent.from,
+              decodedEvent.to
+            ]);
+            fTokenManager.addPrefetchItemId(contractAddress);
+            accountFTokenBalancesManager.addPrefetchItemId([
+              getAccountFTokenBalanceEntityId(
+                decodedEvent.from,
+                contractAddress
+              ),
+              getAccountFTokenBalanceEntityId(decodedEvent.to, contractAddress)
+            ]);
+            break;
+          }
+          case 'Assets.MetadataSet':
+            decodedEvent = decodeXc20AssetMetadata(ctx, item.event);
+            fTokenManager.addPrefetchItemId(
+              getXc20AssetAddress(decodedEvent.assetId)
+            );
+            break;
+          case 'Balances.Transfer':
+          case 'Balances.Deposit':
+          case 'Balances.Withdraw':
+            decodedEvent = getEvmAttributedTransfer(
+              decodeNativeTransfer(ctx, item.event),
+              item.event.extrinsic
+                ? evmTransactions.get(item.event.extrinsic.id)
+                : undefined
+            );
+            accountsManager.addPrefetchItemId([
+              decodedEvent.from,
+              decodedEvent.to
+            ]);
+            accountsManager.addMappedAccountPrefetchItemId([
+              decodedEvent.from,
+              decodedEvent.to
+            ]);
+            fTokenManager.addPrefetchItemId(NATIVE_TOKEN_ADDRESS);
+            accountFTokenBalancesManager.addPrefetchItemId([
+              getAccountFTokenBalanceEntityId(
+                decodedEvent.from,
+                NATIVE_TOKEN_ADDRESS
+              ),
+              getAccountFTokenBalanceEntityId(
+                decodedEvent.to,
+                NATIVE_TOKEN_ADDRESS
+              )
+            ]);
+            break;
+          case 'EVM.Created': {
+            const contractAddress = decodeEvmCreated(ctx, item.event);
+            const evmTransaction = item.event.extrinsic
+              ? evmTransactions.get(item.event.extrinsic.id)
+              : undefined;
+            if (evmTransaction && evmTransaction.from) {
+              accountsManager.addPrefetchItemId(evmTransaction.from);
+            }
+            contractDeploymentsManager.addPrefetchItemId(contractAddress);
+            fTokenManager.addPrefetchItemId(contractAddress);
+            collectionManager.addPrefetchItemId(contractAddress);
+            break;
+          }
+          case 'DappsStaking.BondAndStake':
+          case 'DappsStaking.UnbondAndUnstake': {
+            const { staker, contract } = decodeDappsStakingStake(
+              ctx,
+              item.event
+            );
+            const stakerAddress = getEvmAttributedStaker(
+              staker,
+              item.event.extrinsic
+                ? evmTransactions.get(item.event.extrinsic.id)
+                : undefined
+            );
+            accountsManager.addPrefetchItemId(stakerAddress);
+            accountsManager.addMappedAccountPrefetchItemId([stakerAddress]);
+            dappsStakingContractsManager.addPrefetchItemId(contract.id);
+            dappsStakingPositionsManager.addPrefetchItemId(
+              getDappsStakingPositionEntityId(stakerAddress, contract.id)
+            );
+            break;
+          }
+          case 'DappsStaking.NominationTransfer': {
+            const { staker, originContract, targetContract } =
+              decodeDappsStakingNominationTransfer(ctx, item.event);
+            const stakerAddress = getEvmAttributedStaker(
+              staker,
+              item.event.extrinsic
+                ? evmTransactions.get(item.event.extrinsic.id)
+                : undefined
+            );
+            accountsManager.addPrefetchItemId(stakerAddress);
+            accountsManager.addMappedAccountPrefetchItemId([stakerAddress]);
+            dappsStakingContractsManager.addPrefetchItemId([
+              originContract.id,
+              targetContract.id
+            ]);
+            dappsStakingPositionsManager.addPrefetchItemId([
+              getDappsStakingPositionEntityId(stakerAddress, originContract.id),
+              getDappsStakingPositionEntityId(stakerAddress, targetContract.id)
+            ]);
+            break;
+          }
+          case 'DappsStaking.Reward':
+            decodedEvent = decodeDappsStakingReward(ctx, item.event);
+            accountsManager.addPrefetchItemId(decodedEvent.account);
+            accountsManager.addMappedAccountPrefetchItemId([
+              decodedEvent.account
+            ]);
+            dappsStakingContractsManager.addPrefetchItemId(
+              decodedEvent.contract.id
+            );
+            break;
+          case 'DappsStaking.NewContract':
+            decodedEvent = decodeDappsStakingNewContract(ctx, item.event);
+            accountsManager.addPrefetchItemId(decodedEvent.developer);
+            accountsManager.addMappedAccountPrefetchItemId([
+              decodedEvent.developer
+            ]);
+            dappsStakingContractsManager.addPrefetchItemId(
+              decodedEvent.contract.id
+            );
+            break;
+          default:
+        }
       }
     }
   }
   await accountsManager.prefetchEntities();
+  await accountsManager.prefetchMappedAccounts();
+  await contractDeploymentsManager.prefetchEntities();
   await fTokenManager.prefetchEntities();
+  // Metadata calls of collection tokens depend on contract capabilities
+  contractCapabilitiesManager.addPrefetchItemId(
+    collectionManager.prefetchItemIdsList
+  );
+  await contractCapabilitiesManager.prefetchEntities();
+  await collectionManager.prefetchEntities();
   await nfTokenManager.prefetchEntities({
     currentOwner: true,
     collection: true
   });
+  await nfTokenMetadataManager.prefetchEntities();
   await accountFTokenBalancesManager.prefetchEntities({
     token: true,
     account: true
   });
+  await accountNfTokenBalancesManager.prefetchEntities({
+    token: true,
+    account: true
+  });
+  await accountCollectionBalancesManager.prefetchEntities({
+    collection: true,
+    account: true
+  });
+  await fTokenAllowancesManager.prefetchEntities({
+    owner: true,
+    spender: true,
+    token: true
+  });
+  await fTokenAllowancesManager.prefetchOwnerAllowances();
+  await operatorApprovalsManager.prefetchEntities();
+  await dappsStakingContractsManager.prefetchEntities();
+  await dappsStakingPositionsManager.prefetchEntities({
+    account: true,
+    contract: true
+  });
 }
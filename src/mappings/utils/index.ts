@@ -10,9 +10,27 @@ import {
   accountsFtTransferManager,
   accountsNftTransferManager,
   accountFTokenBalancesManager,
+  accountFTokenBalanceHistoriesManager,
+  accountNfTokenBalancesManager,
+  accountCollectionBalancesManager,
+  contractClassificationsManager,
+  contractDeploymentsManager,
+  contractCapabilitiesManager,
+  fTokenAllowancesManager,
+  fTokenApprovalsManager,
+  operatorApprovalsManager,
+  nfTokenMetadataManager,
+  nfTokenAttributesManager,
+  collectionTraitsManager,
+  dappsStakingContractsManager,
+  dappsStakingPositionsManager,
+  dappsStakingRewardsManager,
+  dappsStakingNominationTransfersManager,
+  balanceCorrectionsManager,
+  indexingAnomaliesManager,
   initAllEntityManagers,
   saveAllEntities,
-  prefetchEntities,
+  prefetchEntities
 } from './entityUtils';
 
 import { blockContextManager } from './blockContextUtils';
@@ -28,6 +46,24 @@ export const entity = {
   accountsFtTransferManager,
   accountsNftTransferManager,
   accountFTokenBalancesManager,
+  accountFTokenBalanceHistoriesManager,
+  accountNfTokenBalancesManager,
+  accountCollectionBalancesManager,
+  contractClassificationsManager,
+  contractDeploymentsManager,
+  contractCapabilitiesManager,
+  fTokenAllowancesManager,
+  fTokenApprovalsManager,
+  operatorApprovalsManager,
+  nfTokenMetadataManager,
+  nfTokenAttributesManager,
+  collectionTraitsManager,
+  dappsStakingContractsManager,
+  dappsStakingPositionsManager,
+  dappsStakingRewardsManager,
+  dappsStakingNominationTransfersManager,
+  balanceCorrectionsManager,
+  indexingAnomaliesManager,
   initAllEntityManagers,
   saveAllEntities,
   prefetchEntities
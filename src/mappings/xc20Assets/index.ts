@@ -0,0 +1,5 @@
+export {
+  handleXc20AssetTransfer,
+  handleXc20AssetMetadataSet
+} from './xc20Assets';
+export { getEvmXc20TransferKeys } from './utils';
@@ -0,0 +1,122 @@
+import * as erc20 from '../../abi/erc20';
+import {
+  AssetsBurnedEvent,
+  AssetsIssuedEvent,
+  AssetsMetadataSetEvent,
+  AssetsTransferredApprovedEvent,
+  AssetsTransferredEvent
+} from '../../types/generated/events';
+import { ChainContext, Event } from '../../types/generated/support';
+import type { Item } from '../../processor';
+import {
+  EvmLogArgs,
+  Xc20AssetMetadataDetails,
+  Xc20AssetTransferDetails
+} from '../../common/types';
+import {
+  EMPTY_ADDRESS,
+  XC20_ADDRESS_PREFIX,
+  getSubstrateAccountAddress
+} from '../utils/common';
+import { clearNullBytes } from '../tokens/utils';
+
+export function decodeXc20AssetTransfer(
+  ctx: ChainContext,
+  event: Event
+): Xc20AssetTransferDetails {
+  switch (event.name) {
+    case 'Assets.Issued': {
+      const { assetId, owner, totalSupply } = new AssetsIssuedEvent(ctx, event)
+        .asV15;
+      return {
+        assetId,
+        from: EMPTY_ADDRESS,
+        to: getSubstrateAccountAddress(owner),
+        amount: totalSupply
+      };
+    }
+    case 'Assets.Burned': {
+      const { assetId, owner, balance } = new AssetsBurnedEvent(ctx, event)
+        .asV15;
+      return {
+        assetId,
+        from: getSubstrateAccountAddress(owner),
+        to: EMPTY_ADDRESS,
+        amount: balance
+      };
+    }
+    case 'Assets.Transferred': {
+      const { assetId, from, to, amount } = new AssetsTransferredEvent(
+        ctx,
+        event
+      ).asV15;
+      return {
+        assetId,
+        from: getSubstrateAccountAddress(from),
+        to: getSubstrateAccountAddress(to),
+        amount
+      };
+    }
+    case 'Assets.TransferredApproved': {
+      const { assetId, owner, destination, amount } =
+        new AssetsTransferredApprovedEvent(ctx, event).asV15;
+      return {
+        assetId,
+        from: getSubstrateAccountAddress(owner),
+        to: getSubstrateAccountAddress(destination),
+        amount
+      };
+    }
+    default:
+      throw new Error(`Event ${event.name} is not XC20 asset transfer`);
+  }
+}
+
+export function decodeXc20AssetMetadata(
+  ctx: ChainContext,
+  event: Event
+): Xc20AssetMetadataDetails {
+  const { assetId, name, symbol, decimals } = new AssetsMetadataSetEvent(
+    ctx,
+    event
+  ).asV15;
+  return {
+    assetId,
+    name: clearNullBytes(Buffer.from(name).toString('utf8')),
+    symbol: clearNullBytes(Buffer.from(symbol).toString('utf8')),
+    decimals
+  };
+}
+
+export function getXc20TransferKey(
+  extrinsicId: string,
+  contractAddress: string
+): string {
+  return `${extrinsicId}-${contractAddress}`;
+}
+
+/**
+ * XC20 precompile emits EVM "Transfer" log for assets which are moved by EVM
+ * call, together with Assets pallet event. Such transfers are indexed from EVM
+ * log, so pallet events of the same asset within the same extrinsic must
+ * be skipped to avoid double counting.
+ */
+export function getEvmXc20TransferKeys(items: Item[]): Set<string> {
+  const keys = new Set<string>();
+
+  for (const item of items) {
+    if (item.name === 'EVM.Log') {
+      const evmLogArgs: EvmLogArgs = item.event.args.log || item.event.args;
+      const contractAddress = evmLogArgs.address.toString().toLowerCase();
+      if (
+        evmLogArgs.topics[0] ===
+          erc20.events['Transfer(address,address,uint256)'].topic &&
+        contractAddress.startsWith(XC20_ADDRESS_PREFIX)
+      ) {
+        keys.add(getXc20TransferKey(item.event.extrinsic.id, contractAddress));
+      }
+    }
+  }
+
+  return keys;
+}
@@ -0,0 +1,89 @@
+import { BigNumber } from 'ethers';
+import * as utils from '../utils';
+import type { Context } from '../../processor';
+import { ContractStandard, TransferDirection } from '../../model';
+import { TokenBalanceAction } from '../../common/types';
+import { getXc20AssetAddress } from '../utils/common';
+import {
+  decodeXc20AssetMetadata,
+  decodeXc20AssetTransfer,
+  getXc20TransferKey
+} from './utils';
+
+export async function handleXc20AssetTransfer(
+  ctx: Context,
+  evmXc20TransferKeys: Set<string>
+): Promise<void> {
+  const block = utils.common.blockContextManager.getCurrentBlock();
+  const event = utils.common.blockContextManager.getCurrentSubstrateEvent();
+
+  const { assetId, from, to, amount } = decodeXc20AssetTransfer(ctx, event);
+  const contractAddress = getXc20AssetAddress(assetId);
+
+  if (
+    event.extrinsic &&
+    evmXc20TransferKeys.has(
+      getXc20TransferKey(event.extrinsic.id, contractAddress)
+    )
+  )
+    return;
+
+  const transfer = await utils.entity.ftTransferManager.getOrCreate({
+    amount: BigNumber.from(amount.toString()),
+    from: utils.entity.accountsManager.getCanonicalAddress(from),
+    to: utils.entity.accountsManager.getCanonicalAddress(to),
+    contractAddress,
+    /**
+     * Assets can be moved outside of extrinsics (e.g. by XCM messages
+     * execution on block initialization), block hash is used for them.
+     */
+    txnHash: event.extrinsic ? event.extrinsic.hash : block.hash
+  });
+
+  await utils.entity.accountsFtTransferManager.getOrCreate({
+    account: transfer.from,
+    direction: TransferDirection.From,
+    transfer
+  });
+
+  await utils.entity.accountFTokenBalancesManager.updateFTokenBalance({
+    account: transfer.from,
+    token: transfer.token,
+    contractAddress,
+    amount,
+    action: TokenBalanceAction.sub
+  });
+
+  await utils.entity.accountsFtTransferManager.getOrCreate({
+    account: transfer.to,
+    direction: TransferDirection.To,
+    transfer
+  });
+
+  await utils.entity.accountFTokenBalancesManager.updateFTokenBalance({
+    account: transfer.to,
+    token: transfer.token,
+    contractAddress,
+    amount,
+    action: TokenBalanceAction.add
+  });
+}
+
+export async function handleXc20AssetMetadataSet(ctx: Context): Promise<void> {
+  const event = utils.common.blockContextManager.getCurrentSubstrateEvent();
+
+  const { assetId, name, symbol, decimals } = decodeXc20AssetMetadata(
+    ctx,
+    event
+  );
+
+  const token = await utils.entity.fTokenManager.getOrCreate({
+    contractAddress: getXc20AssetAddress(assetId),
+    contractStandard: ContractStandard.ERC20
+  });
+  token.name = name;
+  token.symbol = symbol;
+  token.decimals = decimals;
+
+  utils.entity.fTokenManager.add(token);
+}
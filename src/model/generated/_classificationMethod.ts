@@ -0,0 +1,4 @@
+export enum ClassificationMethod {
+  LOG_SHAPE = "LOG_SHAPE",
+  ERC165 = "ERC165",
+}
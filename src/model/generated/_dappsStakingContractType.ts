@@ -0,0 +1,4 @@
+export enum DappsStakingContractType {
+  EVM = "EVM",
+  WASM = "WASM",
+}
@@ -0,0 +1,5 @@
+export enum FTokenBehaviour {
+  STANDARD = "STANDARD",
+  FEE_ON_TRANSFER = "FEE_ON_TRANSFER",
+  REBASING = "REBASING",
+}
@@ -0,0 +1,7 @@
+export enum IndexingAnomalyType {
+  NEGATIVE_BALANCE = "NEGATIVE_BALANCE",
+  NEGATIVE_SUPPLY = "NEGATIVE_SUPPLY",
+  BURN_OF_UNMINTED_TOKEN = "BURN_OF_UNMINTED_TOKEN",
+  BURN_OF_UNKNOWN_HISTORY_TOKEN = "BURN_OF_UNKNOWN_HISTORY_TOKEN",
+  SKIPPED_CONSECUTIVE_TOKENS = "SKIPPED_CONSECUTIVE_TOKENS",
+}
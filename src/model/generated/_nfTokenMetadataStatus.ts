@@ -0,0 +1,5 @@
+export enum NfTokenMetadataStatus {
+  PENDING = "PENDING",
+  FETCHED = "FETCHED",
+  FAILED = "FAILED",
+}
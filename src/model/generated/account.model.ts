@@ -1,8 +1,15 @@
-import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, OneToMany as OneToMany_} from "typeorm"
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, Index as Index_, OneToMany as OneToMany_} from "typeorm"
 import {AccountFtTransfer} from "./accountFtTransfer.model"
 import {AccountNftTransfer} from "./accountNftTransfer.model"
 import {NfToken} from "./nfToken.model"
 import {AccountFTokenBalance} from "./accountFTokenBalance.model"
+import {AccountNfTokenBalance} from "./accountNfTokenBalance.model"
+import {AccountCollectionBalance} from "./accountCollectionBalance.model"
+import {FTokenAllowance} from "./fTokenAllowance.model"
+import {OperatorApproval} from "./operatorApproval.model"
+import {ContractDeployment} from "./contractDeployment.model"
+import {DappsStakingPosition} from "./dappsStakingPosition.model"
+import {DappsStakingReward} from "./dappsStakingReward.model"
 
 @Entity_()
 export class Account {
@@ -13,6 +20,14 @@ export class Account {
   @PrimaryColumn_()
   id!: string
 
+  @Index_()
+  @Column_("text", {nullable: false})
+  substrateAccountId!: string
+
+  @Index_()
+  @Column_("text", {nullable: false})
+  ss58Address!: string
+
   @OneToMany_(() => AccountFtTransfer, e => e.account)
   ftTransfers!: AccountFtTransfer[]
 
@@ -24,4 +39,25 @@ export class Account {
 
   @OneToMany_(() => AccountFTokenBalance, e => e.account)
   balancesFToken!: AccountFTokenBalance[]
+
+  @OneToMany_(() => AccountNfTokenBalance, e => e.account)
+  balancesNfToken!: AccountNfTokenBalance[]
+
+  @OneToMany_(() => AccountCollectionBalance, e => e.account)
+  balancesCollection!: AccountCollectionBalance[]
+
+  @OneToMany_(() => FTokenAllowance, e => e.owner)
+  fTokenAllowances!: FTokenAllowance[]
+
+  @OneToMany_(() => OperatorApproval, e => e.owner)
+  operatorApprovals!: OperatorApproval[]
+
+  @OneToMany_(() => ContractDeployment, e => e.deployer)
+  deployedContracts!: ContractDeployment[]
+
+  @OneToMany_(() => DappsStakingPosition, e => e.account)
+  dappsStakingPositions!: DappsStakingPosition[]
+
+  @OneToMany_(() => DappsStakingReward, e => e.account)
+  dappsStakingRewards!: DappsStakingReward[]
 }
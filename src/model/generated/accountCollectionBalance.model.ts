@@ -0,0 +1,31 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, ManyToOne as ManyToOne_, Index as Index_} from "typeorm"
+import * as marshal from "./marshal"
+import {Account} from "./account.model"
+import {Collection} from "./collection.model"
+
+@Entity_()
+export class AccountCollectionBalance {
+  constructor(props?: Partial<AccountCollectionBalance>) {
+    Object.assign(this, props)
+  }
+
+  @PrimaryColumn_()
+  id!: string
+
+  @Index_()
+  @ManyToOne_(() => Account, {nullable: false})
+  account!: Account
+
+  @Index_()
+  @ManyToOne_(() => Collection, {nullable: false})
+  collection!: Collection
+
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+  amount!: bigint
+
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+  updatedAtBlock!: bigint
+
+  @Column_("timestamp with time zone", {nullable: false})
+  updatedAt!: Date
+}
@@ -28,4 +28,8 @@ export class AccountFTokenBalance {
 
   @Column_("timestamp with time zone", {nullable: false})
   updatedAt!: Date
+
+  @Index_()
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: true})
+  reconciledAtBlock!: bigint | undefined | null
 }
@@ -0,0 +1,39 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, ManyToOne as ManyToOne_, Index as Index_} from "typeorm"
+import * as marshal from "./marshal"
+import {Account} from "./account.model"
+import {FToken} from "./fToken.model"
+
+@Entity_()
+export class AccountFTokenBalanceHistory {
+  constructor(props?: Partial<AccountFTokenBalanceHistory>) {
+    Object.assign(this, props)
+  }
+
+  @PrimaryColumn_()
+  id!: string
+
+  @Index_()
+  @ManyToOne_(() => Account, {nullable: false})
+  account!: Account
+
+  @Index_()
+  @ManyToOne_(() => FToken, {nullable: false})
+  token!: FToken
+
+  @Index_()
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+  blockNumber!: bigint
+
+  @Index_()
+  @Column_("timestamp with time zone", {nullable: false})
+  timestamp!: Date
+
+  @Column_("int4", {nullable: false})
+  eventIndex!: number
+
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+  delta!: bigint
+
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+  amount!: bigint
+}
@@ -0,0 +1,40 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, ManyToOne as ManyToOne_, Index as Index_} from "typeorm"
+import * as marshal from "./marshal"
+import {Account} from "./account.model"
+import {FToken} from "./fToken.model"
+import {NfToken} from "./nfToken.model"
+
+@Entity_()
+export class BalanceCorrection {
+  constructor(props?: Partial<BalanceCorrection>) {
+    Object.assign(this, props)
+  }
+
+  @PrimaryColumn_()
+  id!: string
+
+  @Index_()
+  @ManyToOne_(() => Account, {nullable: false})
+  account!: Account
+
+  @Index_()
+  @ManyToOne_(() => FToken, {nullable: true})
+  fToken!: FToken | undefined | null
+
+  @Index_()
+  @ManyToOne_(() => NfToken, {nullable: true})
+  nfToken!: NfToken | undefined | null
+
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+  indexedAmount!: bigint
+
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+  onChainAmount!: bigint
+
+  @Index_()
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+  blockNumber!: bigint
+
+  @Column_("timestamp with time zone", {nullable: false})
+  timestamp!: Date
+}
@@ -1,7 +1,13 @@
-import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, Index as Index_, OneToMany as OneToMany_} from "typeorm"
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, Index as Index_, OneToMany as OneToMany_, ManyToOne as ManyToOne_} from "typeorm"
 import * as marshal from "./marshal"
 import {ContractStandard} from "./_contractStandard"
 import {NfToken} from "./nfToken.model"
+import {AccountCollectionBalance} from "./accountCollectionBalance.model"
+import {OperatorApproval} from "./operatorApproval.model"
+import {CollectionTrait} from "./collectionTrait.model"
+import {ContractDeployment} from "./contractDeployment.model"
+import {ContractCapabilities} from "./contractCapabilities.model"
+import {DappsStakingContract} from "./dappsStakingContract.model"
 
 @Entity_()
 export class Collection {
@@ -16,12 +22,92 @@ export class Collection {
   @Column_("varchar", {length: 7, nullable: false})
   collectionType!: ContractStandard
 
+  @Index_()
+  @Column_("text", {nullable: true})
+  name!: string | undefined | null
+
+  @Index_()
+  @Column_("text", {nullable: true})
+  symbol!: string | undefined | null
+
   @OneToMany_(() => NfToken, e => e.collection)
   nfts!: NfToken[]
 
+  @OneToMany_(() => AccountCollectionBalance, e => e.collection)
+  holders!: AccountCollectionBalance[]
+
+  @OneToMany_(() => OperatorApproval, e => e.collection)
+  operatorApprovals!: OperatorApproval[]
+
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+  totalMinted!: bigint
+
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+  totalBurned!: bigint
+
+  @Index_()
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+  currentSupply!: bigint
+
+  @Index_()
+  @Column_("int4", {nullable: false})
+  holderCount!: number
+
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+  transferCount!: bigint
+
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: true})
+  firstActivityBlock!: bigint | undefined | null
+
+  @Index_()
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: true})
+  lastActivityBlock!: bigint | undefined | null
+
+  @OneToMany_(() => CollectionTrait, e => e.collection)
+  traits!: CollectionTrait[]
+
+  @Column_("int4", {nullable: false})
+  attributedTokenCount!: number
+
+  @Index_()
+  @Column_("bool", {nullable: false})
+  isRarityOutdated!: boolean
+
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: true})
+  rarityUpdatedAtBlock!: bigint | undefined | null
+
+  @Index_()
+  @Column_("text", {nullable: true})
+  royaltyReceiver!: string | undefined | null
+
+  @Index_()
+  @Column_("int4", {nullable: true})
+  royaltyBasisPoints!: number | undefined | null
+
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: true})
+  royaltyUpdatedAtBlock!: bigint | undefined | null
+
+  @Column_("int4", {nullable: false})
+  balanceCorrectionCount!: number
+
+  @Index_()
+  @Column_("bool", {nullable: false})
+  isNonStandard!: boolean
+
+  @Index_()
+  @ManyToOne_(() => ContractDeployment, {nullable: true})
+  deployment!: ContractDeployment | undefined | null
+
+  @Index_()
+  @ManyToOne_(() => ContractCapabilities, {nullable: true})
+  capabilities!: ContractCapabilities | undefined | null
+
   @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
   createdAtBlock!: bigint
 
   @Column_("timestamp with time zone", {nullable: false})
   createdAt!: Date
+
+  @OneToMany_(() => DappsStakingContract, e => e.collection)
+  dappsStakingContracts!: DappsStakingContract[]
 }
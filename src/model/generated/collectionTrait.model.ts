@@ -0,0 +1,37 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, ManyToOne as ManyToOne_, Index as Index_, OneToMany as OneToMany_} from "typeorm"
+import * as marshal from "./marshal"
+import {Collection} from "./collection.model"
+import {NfTokenAttribute} from "./nfTokenAttribute.model"
+
+@Entity_()
+export class CollectionTrait {
+  constructor(props?: Partial<CollectionTrait>) {
+    Object.assign(this, props)
+  }
+
+  @PrimaryColumn_()
+  id!: string
+
+  @Index_()
+  @ManyToOne_(() => Collection, {nullable: false})
+  collection!: Collection
+
+  @Index_()
+  @Column_("text", {nullable: false})
+  traitType!: string
+
+  @Index_()
+  @Column_("text", {nullable: false})
+  value!: string
+
+  @Index_()
+  @Column_("int4", {nullable: false})
+  tokenCount!: number
+
+  @Index_()
+  @Column_("numeric", {transformer: marshal.floatTransformer, nullable: true})
+  rarityScore!: number | undefined | null
+
+  @OneToMany_(() => NfTokenAttribute, e => e.trait)
+  attributes!: NfTokenAttribute[]
+}
@@ -0,0 +1,42 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_} from "typeorm"
+import * as marshal from "./marshal"
+
+@Entity_()
+export class ContractCapabilities {
+  constructor(props?: Partial<ContractCapabilities>) {
+    Object.assign(this, props)
+  }
+
+  @PrimaryColumn_()
+  id!: string
+
+  @Column_("bool", {nullable: false})
+  erc165!: boolean
+
+  @Column_("bool", {nullable: false})
+  erc721!: boolean
+
+  @Column_("bool", {nullable: false})
+  erc721Metadata!: boolean
+
+  @Column_("bool", {nullable: false})
+  erc721Enumerable!: boolean
+
+  @Column_("bool", {nullable: false})
+  erc1155!: boolean
+
+  @Column_("bool", {nullable: false})
+  erc1155MetadataUri!: boolean
+
+  @Column_("bool", {nullable: false})
+  erc2981!: boolean
+
+  @Column_("bool", {nullable: false})
+  erc4906!: boolean
+
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+  probedAtBlock!: bigint
+
+  @Column_("timestamp with time zone", {nullable: false})
+  probedAt!: Date
+}
@@ -0,0 +1,27 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, Index as Index_} from "typeorm"
+import * as marshal from "./marshal"
+import {ContractStandard} from "./_contractStandard"
+import {ClassificationMethod} from "./_classificationMethod"
+
+@Entity_()
+export class ContractClassification {
+  constructor(props?: Partial<ContractClassification>) {
+    Object.assign(this, props)
+  }
+
+  @PrimaryColumn_()
+  id!: string
+
+  @Index_()
+  @Column_("varchar", {length: 7, nullable: false})
+  contractStandard!: ContractStandard
+
+  @Column_("varchar", {length: 9, nullable: false})
+  method!: ClassificationMethod
+
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+  createdAtBlock!: bigint
+
+  @Column_("timestamp with time zone", {nullable: false})
+  createdAt!: Date
+}
@@ -0,0 +1,32 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, ManyToOne as ManyToOne_, Index as Index_} from "typeorm"
+import * as marshal from "./marshal"
+import {Account} from "./account.model"
+
+@Entity_()
+export class ContractDeployment {
+  constructor(props?: Partial<ContractDeployment>) {
+    Object.assign(this, props)
+  }
+
+  @PrimaryColumn_()
+  id!: string
+
+  @Index_()
+  @ManyToOne_(() => Account, {nullable: true})
+  deployer!: Account | undefined | null
+
+  @Index_()
+  @Column_("text", {nullable: true})
+  factory!: string | undefined | null
+
+  @Index_()
+  @Column_("text", {nullable: false})
+  txnHash!: string
+
+  @Index_()
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+  blockNumber!: bigint
+
+  @Column_("timestamp with time zone", {nullable: false})
+  timestamp!: Date
+}
@@ -0,0 +1,53 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, ManyToOne as ManyToOne_, Index as Index_, OneToMany as OneToMany_} from "typeorm"
+import * as marshal from "./marshal"
+import {DappsStakingContractType} from "./_dappsStakingContractType"
+import {Account} from "./account.model"
+import {FToken} from "./fToken.model"
+import {Collection} from "./collection.model"
+import {DappsStakingPosition} from "./dappsStakingPosition.model"
+import {DappsStakingReward} from "./dappsStakingReward.model"
+
+@Entity_()
+export class DappsStakingContract {
+  constructor(props?: Partial<DappsStakingContract>) {
+    Object.assign(this, props)
+  }
+
+  @PrimaryColumn_()
+  id!: string
+
+  @Column_("varchar", {length: 4, nullable: false})
+  contractType!: DappsStakingContractType
+
+  @Index_()
+  @ManyToOne_(() => Account, {nullable: true})
+  developer!: Account | undefined | null
+
+  @Index_()
+  @ManyToOne_(() => FToken, {nullable: true})
+  fToken!: FToken | undefined | null
+
+  @Index_()
+  @ManyToOne_(() => Collection, {nullable: true})
+  collection!: Collection | undefined | null
+
+  @Index_()
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+  totalStaked!: bigint
+
+  @Index_()
+  @Column_("int4", {nullable: false})
+  stakerCount!: number
+
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: true})
+  registeredAtBlock!: bigint | undefined | null
+
+  @Column_("timestamp with time zone", {nullable: true})
+  registeredAt!: Date | undefined | null
+
+  @OneToMany_(() => DappsStakingPosition, e => e.contract)
+  positions!: DappsStakingPosition[]
+
+  @OneToMany_(() => DappsStakingReward, e => e.contract)
+  rewards!: DappsStakingReward[]
+}
@@ -0,0 +1,36 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, ManyToOne as ManyToOne_, Index as Index_} from "typeorm"
+import * as marshal from "./marshal"
+import {Account} from "./account.model"
+import {DappsStakingContract} from "./dappsStakingContract.model"
+
+@Entity_()
+export class DappsStakingReward {
+  constructor(props?: Partial<DappsStakingReward>) {
+    Object.assign(this, props)
+  }
+
+  @PrimaryColumn_()
+  id!: string
+
+  @Index_()
+  @ManyToOne_(() => Account, {nullable: false})
+  account!: Account
+
+  @Index_()
+  @ManyToOne_(() => DappsStakingContract, {nullable: false})
+  contract!: DappsStakingContract
+
+  @Index_()
+  @Column_("int4", {nullable: false})
+  era!: number
+
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+  amount!: bigint
+
+  @Index_()
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+  blockNumber!: bigint
+
+  @Column_("timestamp with time zone", {nullable: false})
+  timestamp!: Date
+}
@@ -1,4 +1,9 @@
-import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, Index as Index_} from "typeorm"
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, Index as Index_, ManyToOne as ManyToOne_, OneToMany as OneToMany_} from "typeorm"
+import * as marshal from "./marshal"
+import {ContractDeployment} from "./contractDeployment.model"
+import {ContractCapabilities} from "./contractCapabilities.model"
+import {FTokenBehaviour} from "./_fTokenBehaviour"
+import {DappsStakingContract} from "./dappsStakingContract.model"
 
 @Entity_()
 export class FToken {
@@ -19,4 +24,49 @@ export class FToken {
 
   @Column_("int4", {nullable: true})
   decimals!: number | undefined | null
+
+  @Index_()
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+  totalSupply!: bigint
+
+  @Index_()
+  @Column_("int4", {nullable: false})
+  holderCount!: number
+
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+  transferCount!: bigint
+
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+  mintedTotal!: bigint
+
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+  burnedTotal!: bigint
+
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: true})
+  supplyCheckedAtBlock!: bigint | undefined | null
+
+  @Column_("int4", {nullable: false})
+  balanceCorrectionCount!: number
+
+  @Index_()
+  @Column_("bool", {nullable: false})
+  isNonStandard!: boolean
+
+  @Index_()
+  @Column_("varchar", {length: 15, nullable: false})
+  behaviour!: FTokenBehaviour
+
+  @Column_("int4", {nullable: false})
+  behaviourProbeCount!: number
+
+  @Index_()
+  @ManyToOne_(() => ContractDeployment, {nullable: true})
+  deployment!: ContractDeployment | undefined | null
+
+  @Index_()
+  @ManyToOne_(() => ContractCapabilities, {nullable: true})
+  capabilities!: ContractCapabilities | undefined | null
+
+  @OneToMany_(() => DappsStakingContract, e => e.fToken)
+  dappsStakingContracts!: DappsStakingContract[]
 }
@@ -0,0 +1,44 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, ManyToOne as ManyToOne_, Index as Index_} from "typeorm"
+import * as marshal from "./marshal"
+import {Account} from "./account.model"
+import {FToken} from "./fToken.model"
+
+@Entity_()
+export class FTokenAllowance {
+  constructor(props?: Partial<FTokenAllowance>) {
+    Object.assign(this, props)
+  }
+
+  @PrimaryColumn_()
+  id!: string
+
+  @Index_()
+  @ManyToOne_(() => Account, {nullable: false})
+  owner!: Account
+
+  @Index_()
+  @ManyToOne_(() => Account, {nullable: false})
+  spender!: Account
+
+  @Index_()
+  @ManyToOne_(() => FToken, {nullable: false})
+  token!: FToken
+
+  @Index_()
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+  amount!: bigint
+
+  @Index_()
+  @Column_("bool", {nullable: false})
+  isUnlimited!: boolean
+
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+  updatedAtBlock!: bigint
+
+  @Column_("timestamp with time zone", {nullable: false})
+  updatedAt!: Date
+
+  @Index_()
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: true})
+  syncRequestedAtBlock!: bigint | undefined | null
+}
@@ -1,13 +1,37 @@
 export * from "./account.model"
 export * from "./accountFTokenBalance.model"
+export * from "./accountFTokenBalanceHistory.model"
+export * from "./accountNfTokenBalance.model"
+export * from "./balanceCorrection.model"
+export * from "./indexingAnomaly.model"
+export * from "./_indexingAnomalyType"
+export * from "./accountCollectionBalance.model"
+export * from "./contractDeployment.model"
+export * from "./contractCapabilities.model"
+export * from "./contractClassification.model"
+export * from "./_classificationMethod"
 export * from "./collection.model"
 export * from "./_contractStandard"
 export * from "./nfToken.model"
+export * from "./nfTokenMetadata.model"
+export * from "./_nfTokenMetadataStatus"
+export * from "./nfTokenAttribute.model"
+export * from "./collectionTrait.model"
+export * from "./operatorApproval.model"
 export * from "./uriUpdateAction.model"
+export * from "./legacyTokenId.model"
 export * from "./fToken.model"
+export * from "./_fTokenBehaviour"
+export * from "./fTokenAllowance.model"
+export * from "./fTokenApproval.model"
 export * from "./ftTransfer.model"
 export * from "./_transferType"
 export * from "./nftTransfer.model"
 export * from "./accountNftTransfer.model"
 export * from "./_transferDirection"
 export * from "./accountFtTransfer.model"
+export * from "./dappsStakingContract.model"
+export * from "./_dappsStakingContractType"
+export * from "./dappsStakingPosition.model"
+export * from "./dappsStakingReward.model"
+export * from "./dappsStakingNominationTransfer.model"
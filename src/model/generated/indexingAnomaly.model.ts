@@ -0,0 +1,60 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, Index as Index_, ManyToOne as ManyToOne_} from "typeorm"
+import * as marshal from "./marshal"
+import {IndexingAnomalyType} from "./_indexingAnomalyType"
+import {Account} from "./account.model"
+import {FToken} from "./fToken.model"
+import {NfToken} from "./nfToken.model"
+import {Collection} from "./collection.model"
+
+@Entity_()
+export class IndexingAnomaly {
+  constructor(props?: Partial<IndexingAnomaly>) {
+    Object.assign(this, props)
+  }
+
+  @PrimaryColumn_()
+  id!: string
+
+  @Index_()
+  @Column_("varchar", {length: 29, nullable: false})
+  anomalyType!: IndexingAnomalyType
+
+  @Index_()
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+  blockNumber!: bigint
+
+  @Column_("timestamp with time zone", {nullable: false})
+  timestamp!: Date
+
+  @Index_()
+  @Column_("text", {nullable: true})
+  eventId!: string | undefined | null
+
+  @Index_()
+  @ManyToOne_(() => Account, {nullable: true})
+  account!: Account | undefined | null
+
+  @Index_()
+  @ManyToOne_(() => FToken, {nullable: true})
+  fToken!: FToken | undefined | null
+
+  @Index_()
+  @ManyToOne_(() => NfToken, {nullable: true})
+  nfToken!: NfToken | undefined | null
+
+  @Index_()
+  @ManyToOne_(() => Collection, {nullable: true})
+  collection!: Collection | undefined | null
+
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+  previousAmount!: bigint
+
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+  amount!: bigint
+
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+  computedAmount!: bigint
+
+  @Column_("text", {nullable: false})
+  details!: string
+}
@@ -0,0 +1,16 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, ManyToOne as ManyToOne_, Index as Index_} from "typeorm"
+import {NfToken} from "./nfToken.model"
+
+@Entity_()
+export class LegacyTokenId {
+  constructor(props?: Partial<LegacyTokenId>) {
+    Object.assign(this, props)
+  }
+
+  @PrimaryColumn_()
+  id!: string
+
+  @Index_()
+  @ManyToOne_(() => NfToken, {nullable: false})
+  token!: NfToken
+}
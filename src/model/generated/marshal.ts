@@ -126,6 +126,16 @@ export const bigintTransformer = {
 }
 
 
+export const floatTransformer = {
+    to(x?: number) {
+        return x?.toString()
+    },
+    from(s?: string): number | undefined {
+        return s == null ? undefined : Number(s)
+    }
+}
+
+
 export function enumFromJson<E extends object>(json: unknown, enumObject: E): E[keyof E] {
     assert(typeof json == 'string', 'invalid enum value')
     let val = (enumObject as any)[json]
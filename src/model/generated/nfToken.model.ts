@@ -1,8 +1,10 @@
-import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, Index as Index_, ManyToOne as ManyToOne_, OneToMany as OneToMany_} from "typeorm"
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, Index as Index_, ManyToOne as ManyToOne_, OneToMany as OneToMany_, OneToOne as OneToOne_} from "typeorm"
 import * as marshal from "./marshal"
 import {Collection} from "./collection.model"
 import {UriUpdateAction} from "./uriUpdateAction.model"
 import {Account} from "./account.model"
+import {NfTokenMetadata} from "./nfTokenMetadata.model"
+import {NfTokenAttribute} from "./nfTokenAttribute.model"
 
 @Entity_()
 export class NfToken {
@@ -45,4 +47,29 @@ export class NfToken {
   @Index_()
   @Column_("bool", {nullable: false})
   isBurned!: boolean
+
+  @Index_()
+  @Column_("text", {nullable: true})
+  approvedAddress!: string | undefined | null
+
+  @OneToOne_(() => NfTokenMetadata, e => e.token)
+  metadata!: NfTokenMetadata | undefined | null
+
+  @OneToMany_(() => NfTokenAttribute, e => e.token)
+  attributes!: NfTokenAttribute[]
+
+  @Index_()
+  @Column_("numeric", {transformer: marshal.floatTransformer, nullable: true})
+  rarityScore!: number | undefined | null
+
+  @Index_()
+  @Column_("text", {nullable: true})
+  royaltyReceiver!: string | undefined | null
+
+  @Index_()
+  @Column_("int4", {nullable: true})
+  royaltyBasisPoints!: number | undefined | null
+
+  @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: true})
+  royaltyUpdatedAtBlock!: bigint | undefined | null
 }
@@ -0,0 +1,37 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, ManyToOne as ManyToOne_, Index as Index_} from "typeorm"
+import {NfToken} from "./nfToken.model"
+import {Collection} from "./collection.model"
+import {CollectionTrait} from "./collectionTrait.model"
+
+@Entity_()
+export class NfTokenAttribute {
+  constructor(props?: Partial<NfTokenAttribute>) {
+    Object.assign(this, props)
+  }
+
+  @PrimaryColumn_()
+  id!: string
+
+  @Index_()
+  @ManyToOne_(() => NfToken, {nullable: false})
+  token!: NfToken
+
+  @Index_()
+  @ManyToOne_(() => Collection, {nullable: false})
+  collection!: Collection
+
+  @Index_()
+  @ManyToOne_(() => CollectionTrait, {nullable: false})
+  trait!: CollectionTrait
+
+  @Index_()
+  @Column_("text", {nullable: false})
+  traitType!: string
+
+  @Index_()
+  @Column_("text", {nullable: false})
+  value!: string
+
+  @Column_("text", {nullable: true})
+  displayType!: string | undefined | null
+}
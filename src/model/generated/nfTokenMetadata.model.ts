@@ -0,0 +1,57 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, OneToOne as OneToOne_, Index as Index_, JoinColumn as JoinColumn_} from "typeorm"
+import {NfToken} from "./nfToken.model"
+import {NfTokenMetadataStatus} from "./_nfTokenMetadataStatus"
+
+@Entity_()
+export class NfTokenMetadata {
+  constructor(props?: Partial<NfTokenMetadata>) {
+    Object.assign(this, props)
+  }
+
+  @PrimaryColumn_()
+  id!: string
+
+  @Index_({unique: true})
+  @OneToOne_(() => NfToken, {nullable: false})
+  @JoinColumn_()
+  token!: NfToken
+
+  @Column_("text", {nullable: true})
+  rawUri!: string | undefined | null
+
+  @Column_("text", {nullable: true})
+  uri!: string | undefined | null
+
+  @Index_()
+  @Column_("text", {nullable: true})
+  name!: string | undefined | null
+
+  @Column_("text", {nullable: true})
+  description!: string | undefined | null
+
+  @Column_("text", {nullable: true})
+  image!: string | undefined | null
+
+  @Column_("text", {nullable: true})
+  animationUrl!: string | undefined | null
+
+  @Column_("jsonb", {nullable: true})
+  attributes!: unknown | undefined | null
+
+  @Index_()
+  @Column_("varchar", {length: 7, nullable: false})
+  status!: NfTokenMetadataStatus
+
+  @Column_("int4", {nullable: false})
+  attempts!: number
+
+  @Column_("text", {nullable: true})
+  error!: string | undefined | null
+
+  @Index_()
+  @Column_("timestamp with time zone", {nullable: true})
+  nextAttemptAt!: Date | undefined | null
+
+  @Column_("timestamp with time zone", {nullable: false})
+  updatedAt!: Date
+}
@@ -0,0 +1,45 @@
+import {
+  Entity as Entity_,
+  Column as Column_,
+  PrimaryColumn as PrimaryColumn_,
+  ManyToOne as ManyToOne_,
+  Index as Index_
+} from 'typeorm';
+import * as marshal from './marshal';
+import { Account } from './account.model';
+import { Collection } from './collection.model';
+
+@Entity_()
+export class OperatorApproval {
+  constructor(props?: Partial<OperatorApproval>) {
+    Object.assign(this, props);
+  }
+
+  @PrimaryColumn_()
+  id!: string;
+
+  @Index_()
+  @ManyToOne_(() => Account, { nullable: false })
+  owner!: Account;
+
+  @Index_()
+  @ManyToOne_(() => Account, { nullable: false })
+  operator!: Account;
+
+  @Index_()
+  @ManyToOne_(() => Collection, { nullable: false })
+  collection!: Collection;
+
+  @Index_()
+  @Column_('bool', { nullable: false })
+  approved!: boolean;
+
+  @Column_('numeric', {
+    transformer: marshal.bigintTransformer,
+    nullable: false
+  })
+  updatedAtBlock!: bigint;
+
+  @Column_('timestamp with time zone', { nullable: false })
+  updatedAt!: Date;
+}
@@ -8,9 +8,13 @@ import {
 import * as erc20 from './abi/erc20';
 import * as erc721 from './abi/erc721';
 import * as erc1155 from './abi/erc1155';
+import * as erc2309 from './abi/erc2309';
+import * as erc4906 from './abi/erc4906';
+import * as weth from './abi/weth';
 import * as modules from './mappings';
 import * as config from './config';
 import * as utils from './mappings/utils';
+import { ContractStandard } from './model';
 
 const database = new TypeormDatabase();
 const processor = new SubstrateBatchProcessor()
@@ -25,18 +29,50 @@ const processor = new SubstrateBatchProcessor()
       [
         erc20.events['Transfer(address,address,uint256)'].topic,
         erc721.events['Transfer(address,address,uint256)'].topic,
+        erc20.events['Approval(address,address,uint256)'].topic,
+        erc721.events['Approval(address,address,uint256)'].topic,
+        erc721.events['ApprovalForAll(address,address,bool)'].topic,
+        erc2309.events['ConsecutiveTransfer(uint256,uint256,address,address)']
+          .topic,
         erc1155.events[
           'TransferBatch(address,address,address,uint256[],uint256[])'
         ].topic,
         erc1155.events[
           'TransferSingle(address,address,address,uint256,uint256)'
         ].topic,
-        erc1155.events['URI(string,uint256)'].topic
+        erc1155.events['URI(string,uint256)'].topic,
+        erc4906.events['MetadataUpdate(uint256)'].topic,
+        erc4906.events['BatchMetadataUpdate(uint256,uint256)'].topic
       ]
     ]
-  });
+  })
+  .addEvmLog(config.wrappedTokenAddresses, {
+    filter: [
+      [
+        weth.events['Deposit(address,uint256)'].topic,
+        weth.events['Withdrawal(address,uint256)'].topic
+      ]
+    ]
+  })
+  .addEvent('Assets.Issued')
+  .addEvent('Assets.Burned')
+  .addEvent('Assets.Transferred')
+  .addEvent('Assets.TransferredApproved')
+  .addEvent('Assets.MetadataSet')
+  .addEvent('Balances.Transfer')
+  .addEvent('Balances.Deposit')
+  .addEvent('Balances.Withdraw')
+  .addEvent('Ethereum.Executed')
+  .addEvent('EVM.BalanceDeposit')
+  .addEvent('EVM.BalanceWithdraw')
+  .addEvent('EVM.Created')
+  .addEvent('DappsStaking.BondAndStake')
+  .addEvent('DappsStaking.UnbondAndUnstake')
+  .addEvent('DappsStaking.NominationTransfer')
+  .addEvent('DappsStaking.Reward')
+  .addEvent('DappsStaking.NewContract');
 
-type Item = BatchProcessorItem<typeof processor>;
+export type Item = BatchProcessorItem<typeof processor>;
 export type Context = BatchContext<Store, Item>;
 
 processor.run(database, async (ctx: Context) => {
@@ -44,22 +80,59 @@ processor.run(database, async (ctx: Context) => {
   await utils.entity.prefetchEntities(ctx);
 
   for (const block of ctx.blocks) {
+    const evmXc20TransferKeys = modules.getEvmXc20TransferKeys(block.items);
+    const evmTransactions = modules.getEvmTransactions(ctx, block.items);
+
     for (const item of block.items) {
       if (item.name === 'EVM.Log') {
         utils.common.blockContextManager.init(block.header, item.event);
         switch ((item.event.args.log || item.event.args).topics[0]) {
           case erc20.events['Transfer(address,address,uint256)'].topic:
-          case erc721.events['Transfer(address,address,uint256)'].topic:
-            try {
-              await modules.handleErc20Transfer();
-            } catch (e) {
-              try {
+          case erc721.events['Transfer(address,address,uint256)'].topic: {
+            const transferLog =
+              await utils.entity.contractClassificationsManager.resolveSharedTopicLog();
+            if (!transferLog) break;
+            utils.common.blockContextManager.setCurrentLogArgs(
+              transferLog.args
+            );
+            switch (transferLog.contractStandard) {
+              case ContractStandard.ERC20:
+                await modules.handleErc20Transfer();
+                break;
+              case ContractStandard.ERC721:
                 await modules.handleErc721Transfer();
-              } catch (error) {
-                // console.log(error);
-              }
+                break;
+              default:
             }
             break;
+          }
+          case erc20.events['Approval(address,address,uint256)'].topic:
+          case erc721.events['Approval(address,address,uint256)'].topic: {
+            const approvalLog =
+              await utils.entity.contractClassificationsManager.resolveSharedTopicLog();
+            if (!approvalLog) break;
+            utils.common.blockContextManager.setCurrentLogArgs(
+              approvalLog.args
+            );
+            switch (approvalLog.contractStandard) {
+              case ContractStandard.ERC20:
+                await modules.handleErc20Approval();
+                break;
+              case ContractStandard.ERC721:
+                await modules.handleErc721Approval();
+                break;
+              default:
+            }
+            break;
+          }
+          case erc721.events['ApprovalForAll(address,address,bool)'].topic:
+            await modules.handleApprovalForAll(ctx);
+            break;
+          case erc2309.events[
+            'ConsecutiveTransfer(uint256,uint256,address,address)'
+          ].topic:
+            await modules.handleErc721ConsecutiveTransfer();
+            break;
           case erc1155.events[
             'TransferBatch(address,address,address,uint256[],uint256[])'
           ].topic:
@@ -73,6 +146,64 @@ processor.run(database, async (ctx: Context) => {
           case erc1155.events['URI(string,uint256)'].topic:
             await modules.handleErc1155UriChanged();
             break;
+          case erc4906.events['MetadataUpdate(uint256)'].topic:
+            await modules.handleMetadataUpdate();
+            break;
+          case erc4906.events['BatchMetadataUpdate(uint256,uint256)'].topic:
+            await modules.handleBatchMetadataUpdate(ctx);
+            break;
+          case weth.events['Deposit(address,uint256)'].topic:
+            await modules.handleWrappedTokenDeposit();
+            break;
+          case weth.events['Withdrawal(address,uint256)'].topic:
+            await modules.handleWrappedTokenWithdrawal();
+            break;
+          default:
+        }
+        utils.common.blockContextManager.resetBlockContext();
+      } else {
+        switch (item.name) {
+          case 'Assets.Issued':
+          case 'Assets.Burned':
+          case 'Assets.Transferred':
+          case 'Assets.TransferredApproved':
+            utils.common.blockContextManager.init(block.header, item.event);
+            await modules.handleXc20AssetTransfer(ctx, evmXc20TransferKeys);
+            break;
+          case 'Assets.MetadataSet':
+            utils.common.blockContextManager.init(block.header, item.event);
+            await modules.handleXc20AssetMetadataSet(ctx);
+            break;
+          case 'Balances.Transfer':
+          case 'Balances.Deposit':
+          case 'Balances.Withdraw':
+            utils.common.blockContextManager.init(block.header, item.event);
+            await modules.handleNativeTransfer(ctx, evmTransactions);
+            break;
+          case 'EVM.Created':
+            utils.common.blockContextManager.init(block.header, item.event);
+            await modules.handleContractCreated(ctx, evmTransactions);
+            break;
+          case 'DappsStaking.BondAndStake':
+          case 'DappsStaking.UnbondAndUnstake':
+            utils.common.blockContextManager.init(block.header, item.event);
+            await modules.handleDappsStakingStake(ctx, evmTransactions);
+            break;
+          case 'DappsStaking.NominationTransfer':
+            utils.common.blockContextManager.init(block.header, item.event);
+            await modules.handleDappsStakingNominationTransfer(
+              ctx,
+              evmTransactions
+            );
+            break;
+          case 'DappsStaking.Reward':
+            utils.common.blockContextManager.init(block.header, item.event);
+            await modules.handleDappsStakingReward(ctx);
+            break;
+          case 'DappsStaking.NewContract':
+            utils.common.blockContextManager.init(block.header, item.event);
+            await modules.handleDappsStakingNewContract(ctx);
+            break;
           default:
         }
         utils.common.blockContextManager.resetBlockContext();
@@ -80,5 +211,8 @@ processor.run(database, async (ctx: Context) => {
     }
   }
 
+  await modules.reconcileBalances(ctx);
+  await modules.syncAllowances(ctx);
+  await modules.readRequestedTokenUris(ctx);
   await utils.entity.saveAllEntities();
 });
@@ -0,0 +1,74 @@
+import type { EntityManager } from 'typeorm';
+import { AccountFTokenBalanceHistory } from '../../model';
+import { FTokenBalanceHistoryResolver } from './fTokenBalanceHistory';
+
+const ACCOUNT_ID = '0x6A2D262D56735DBA19DD70682B39F6BE9A931D98';
+const TOKEN_ID = '0xFfFFfFff00000000000000000000000000000001';
+
+function getResolver(historyItem: AccountFTokenBalanceHistory | null): {
+  resolver: FTokenBalanceHistoryResolver;
+  findOne: jest.Mock;
+} {
+  const findOne = jest.fn(() => Promise.resolve(historyItem));
+  const manager = {
+    getRepository: () => ({ findOne })
+  } as unknown as EntityManager;
+
+  return {
+    resolver: new FTokenBalanceHistoryResolver(() => Promise.resolve(manager)),
+    findOne
+  };
+}
+
+describe('FTokenBalanceHistoryResolver.fTokenBalanceAt', () => {
+  it('looks up history by lowercase account and token IDs', async () => {
+    const { resolver, findOne } = getResolver(
+      new AccountFTokenBalanceHistory({
+        amount: BigInt(100),
+        blockNumber: BigInt(10),
+        timestamp: new Date(0)
+      })
+    );
+
+    const balance = await resolver.fTokenBalanceAt(
+      ACCOUNT_ID,
+      TOKEN_ID,
+      20,
+      null
+    );
+
+    expect(findOne).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          account: { id: ACCOUNT_ID.toLowerCase() },
+          token: { id: TOKEN_ID.toLowerCase() }
+        }) as unknown
+      })
+    );
+    expect(balance).toMatchObject({
+      accountId: ACCOUNT_ID.toLowerCase(),
+      tokenId: TOKEN_ID.toLowerCase(),
+      amount: '100',
+      updatedAtBlock: '10'
+    });
+  });
+
+  it('returns null if there are no balance changes', async () => {
+    const { resolver } = getResolver(null);
+
+    expect(
+      await resolver.fTokenBalanceAt(ACCOUNT_ID, TOKEN_ID, null, new Date())
+    ).toBeNull();
+  });
+
+  it('requires exactly one of block number and timestamp', async () => {
+    const { resolver } = getResolver(null);
+
+    await expect(
+      resolver.fTokenBalanceAt(ACCOUNT_ID, TOKEN_ID, null, null)
+    ).rejects.toThrow();
+    await expect(
+      resolver.fTokenBalanceAt(ACCOUNT_ID, TOKEN_ID, 1, new Date())
+    ).rejects.toThrow();
+  });
+});
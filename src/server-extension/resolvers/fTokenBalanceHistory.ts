@@ -0,0 +1,82 @@
+import { Arg, Field, Int, ObjectType, Query, Resolver } from 'type-graphql';
+import type { EntityManager, FindOptionsWhere } from 'typeorm';
+import { LessThanOrEqual } from 'typeorm';
+import { AccountFTokenBalanceHistory } from '../../model';
+
+@ObjectType()
+export class FTokenBalanceAt {
+  @Field(() => String, { nullable: false })
+  accountId!: string;
+
+  @Field(() => String, { nullable: false })
+  tokenId!: string;
+
+  @Field(() => String, { nullable: false })
+  amount!: string;
+
+  @Field(() => String, { nullable: false })
+  updatedAtBlock!: string;
+
+  @Field(() => Date, { nullable: false })
+  updatedAt!: Date;
+
+  constructor(props: Partial<FTokenBalanceAt>) {
+    Object.assign(this, props);
+  }
+}
+
+@Resolver()
+export class FTokenBalanceHistoryResolver {
+  constructor(private tx: () => Promise<EntityManager>) {}
+
+  /**
+   * ERC20 token balance of the account as of the block or the timestamp
+   * (exactly one of them must be provided). Returns null if there are no
+   * indexed balance changes up to this point. Addresses are accepted in any
+   * case, as IDs are stored lowercase.
+   */
+  @Query(() => FTokenBalanceAt, { nullable: true })
+  async fTokenBalanceAt(
+    @Arg('accountId', () => String) accountId: string,
+    @Arg('tokenId', () => String) tokenId: string,
+    @Arg('blockNumber', () => Int, { nullable: true })
+    blockNumber: number | null,
+    @Arg('timestamp', () => Date, { nullable: true })
+    timestamp: Date | null
+  ): Promise<FTokenBalanceAt | null> {
+    if ((blockNumber == null) === (timestamp == null))
+      throw new Error(
+        'Exactly one of "blockNumber" or "timestamp" is required'
+      );
+
+    const accountAddress = accountId.toLowerCase();
+    const tokenAddress = tokenId.toLowerCase();
+    const where: FindOptionsWhere<AccountFTokenBalanceHistory> = {
+      account: { id: accountAddress },
+      token: { id: tokenAddress }
+    };
+    if (blockNumber != null) {
+      where.blockNumber = LessThanOrEqual(BigInt(blockNumber));
+    } else if (timestamp != null) {
+      where.timestamp = LessThanOrEqual(timestamp);
+    }
+
+    const manager = await this.tx();
+    const historyItem = await manager
+      .getRepository(AccountFTokenBalanceHistory)
+      .findOne({
+        where,
+        order: { blockNumber: 'DESC', eventIndex: 'DESC' }
+      });
+
+    if (!historyItem) return null;
+
+    return new FTokenBalanceAt({
+      accountId: accountAddress,
+      tokenId: tokenAddress,
+      amount: historyItem.amount.toString(),
+      updatedAtBlock: historyItem.blockNumber.toString(),
+      updatedAt: historyItem.timestamp
+    });
+  }
+}
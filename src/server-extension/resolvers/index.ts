@@ -0,0 +1,2 @@
+export { FTokenBalanceHistoryResolver } from './fTokenBalanceHistory';
+export { LegacyTokenIdResolver } from './legacyTokenId';
@@ -0,0 +1,32 @@
+import { Arg, Query, Resolver } from 'type-graphql';
+import type { EntityManager } from 'typeorm';
+import { LegacyTokenId, NfToken } from '../../model';
+
+@Resolver()
+export class LegacyTokenIdResolver {
+  constructor(private tx: () => Promise<EntityManager>) {}
+
+  /**
+   * Current NfToken ID by stored reference, which can be either current ID or
+   * previous ID built from truncated contract address. Returns null if token
+   * is not found.
+   */
+  @Query(() => String, { nullable: true })
+  async nfTokenIdByLegacyId(
+    @Arg('id', () => String) id: string
+  ): Promise<string | null> {
+    const manager = await this.tx();
+    const tokenId = id.toLowerCase();
+
+    const token = await manager
+      .getRepository(NfToken)
+      .findOne({ where: { id: tokenId }, select: { id: true } });
+    if (token) return token.id;
+
+    const legacyTokenId = await manager
+      .getRepository(LegacyTokenId)
+      .findOne({ where: { id: tokenId }, relations: { token: true } });
+
+    return legacyTokenId ? legacyTokenId.token.id : null;
+  }
+}
@@ -0,0 +1,10 @@
+declare module 'blake2b' {
+  interface Blake2b {
+    update(input: Uint8Array): Blake2b;
+    digest(): Uint8Array;
+  }
+
+  function blake2b(outlen?: number): Blake2b;
+
+  export = blake2b;
+}